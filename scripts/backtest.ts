@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+/**
+ * Backtest the scoring formulas against labelled incidents
+ * Usage: npm run backtest -- --incidents scripts/incidents.example.json [options]
+ *
+ *   --archive <dir>     archived raw responses (default: RAW_ARCHIVE_DIR)
+ *   --incidents <file>  JSON array of { id, name, start, end?, regions?, signals? }
+ *   --from, --to <iso>  replay range (default: the whole archive)
+ *   --step <hours>      replay step (default 1)
+ *   --threshold <n>     alarm score (default 65)
+ *   --lead <hours>      how early an alarm still counts (default 72)
+ *   --out <file>        also write the report as JSON
+ *   --compare <file>    print changes against a report written with --out
+ */
+
+import { promises as fs } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { readRawArchive } from '../src/lib/raw-archive';
+import {
+  BacktestReport,
+  DEFAULT_BACKTEST_OPTIONS,
+  parseIncidents,
+  runBacktest,
+  formatReport,
+  formatComparison,
+} from '../src/lib/backtest';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function parseDate(value: string | undefined, name: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) fail(`Invalid --${name}: ${value}`);
+  return date;
+}
+
+function parseNumber(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) fail(`Invalid --${name}: ${value}`);
+  return number;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      archive: { type: 'string' },
+      incidents: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      step: { type: 'string' },
+      threshold: { type: 'string' },
+      lead: { type: 'string' },
+      out: { type: 'string' },
+      compare: { type: 'string' },
+    },
+  });
+
+  const archiveDir = values.archive ?? process.env.RAW_ARCHIVE_DIR;
+  if (!archiveDir) fail('Specify --archive <dir> or set RAW_ARCHIVE_DIR');
+  if (!values.incidents) fail('Specify --incidents <file>');
+
+  const incidents = parseIncidents(JSON.parse(await fs.readFile(values.incidents, 'utf8')));
+  const from = parseDate(values.from, 'from');
+  const to = parseDate(values.to, 'to');
+
+  const archive = await readRawArchive(archiveDir, { from, to });
+  if (archive.size === 0) fail(`No archived responses in ${archiveDir}`);
+
+  // Each source's responses are sorted, so its first and last bound the archive
+  const sources = [...archive.values()];
+  const first = sources.reduce((min, responses) => Math.min(min, responses[0].fetchedAt.getTime()), Infinity);
+  const last = sources.reduce((max, responses) => Math.max(max, responses[responses.length - 1].fetchedAt.getTime()), -Infinity);
+
+  const report = runBacktest(archive, incidents, {
+    range: {
+      from: from ?? new Date(first),
+      to: to ?? new Date(last),
+    },
+    stepMs: parseNumber(values.step, 'step', DEFAULT_BACKTEST_OPTIONS.stepMs / HOUR_MS) * HOUR_MS,
+    threshold: parseNumber(values.threshold, 'threshold', DEFAULT_BACKTEST_OPTIONS.threshold),
+    leadWindowMs: parseNumber(values.lead, 'lead', DEFAULT_BACKTEST_OPTIONS.leadWindowMs / HOUR_MS) * HOUR_MS,
+  });
+
+  console.log(formatReport(report));
+
+  if (values.compare) {
+    const previous: BacktestReport = JSON.parse(await fs.readFile(values.compare, 'utf8'));
+    console.log('\n' + formatComparison(previous.series, report));
+  }
+
+  if (values.out) {
+    await fs.writeFile(values.out, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nReport written to ${values.out}`);
+  }
+}
+
+main().catch(error => fail(error instanceof Error ? error.message : String(error)));
@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+/**
+ * Headless risk snapshot: runs the scoring pipeline without Next.js
+ * Usage: npm run delta -- snapshot [options]
+ *
+ *   --region <region>   score and signals for one region (default global)
+ *   --format <format>   table (default), json or markdown
+ *   --threshold <n>     exit with status 2 when the score is above n
+ *   --fixtures <dir>    offline: score each source's latest response from a
+ *                       raw archive (RAW_ARCHIVE_DIR layout) instead of fetching
+ *   --scenario <dir>    offline: serve upstream requests from recorded or
+ *                       scenario fixtures (e.g. fixtures/scenarios/calm-day)
+ *   --record <dir>      fetch live and save every upstream response as fixtures
+ *
+ * Exit status: 0 ok, 1 error, 2 score above --threshold, 3 no live or
+ * cached signals (every source down, so the score means nothing)
+ */
+
+import { parseArgs } from 'node:util';
+import { fetchAllSignals, calculateGlobalRisk } from '../src/lib/signals';
+import { getEnabledSources, SourceRunContext } from '../src/lib/sources';
+import { createBaselineProvider, getHistoryStore } from '../src/lib/history';
+import { getRawArchive, readRawArchive, scoreLatestResponses } from '../src/lib/raw-archive';
+import { buildExport, getExportScore, toJson, toMarkdown, toTable } from '../src/lib/export';
+import { isRegion } from '../src/lib/utils';
+import { getTransport, setTransport } from '../src/lib/http';
+import { createRecordingTransport, createReplayTransport, installFixtureTransport } from '../src/lib/fixtures';
+
+const FORMATS = { table: toTable, json: toJson, markdown: toMarkdown };
+type Format = keyof typeof FORMATS;
+
+const EXIT_ABOVE_THRESHOLD = 2;
+const EXIT_NO_DATA = 3;
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function isFormat(value: string): value is Format {
+  return Object.prototype.hasOwnProperty.call(FORMATS, value);
+}
+
+async function archivedSignals(dir: string) {
+  const archive = await readRawArchive(dir);
+  if (archive.size === 0) fail(`No recorded responses in ${dir}`);
+
+  const sources = getEnabledSources();
+  const { signals, failed } = scoreLatestResponses(archive, sources);
+  const missing = sources.filter(s => !archive.has(s.id)).map(s => s.id);
+
+  if (missing.length > 0) console.error(`No archived response for: ${missing.join(', ')}`);
+  if (failed.length > 0) console.error(`Archived response could not be scored for: ${failed.join(', ')}`);
+  return signals;
+}
+
+async function liveSignals() {
+  const archive = getRawArchive();
+  const context: SourceRunContext = {
+    baselines: createBaselineProvider(getHistoryStore()),
+    ...(archive && { archive }),
+  };
+
+  const signals = await fetchAllSignals(context);
+  await archive?.flush();
+  return signals;
+}
+
+async function snapshot(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      region: { type: 'string', default: 'global' },
+      format: { type: 'string', default: 'table' },
+      threshold: { type: 'string' },
+      fixtures: { type: 'string' },
+      scenario: { type: 'string' },
+      record: { type: 'string' },
+    },
+  });
+
+  const region = values.region;
+  const format = values.format;
+  const threshold = values.threshold !== undefined ? Number(values.threshold) : null;
+
+  if (!isRegion(region)) fail(`Unknown --region: ${region}`);
+  if (!isFormat(format)) fail(`Unknown --format: ${format} (table, json or markdown)`);
+  if (threshold !== null && !Number.isFinite(threshold)) fail(`Invalid --threshold: ${values.threshold}`);
+
+  if ([values.fixtures, values.scenario, values.record].filter(Boolean).length > 1) {
+    fail('Use only one of --fixtures, --scenario and --record');
+  }
+  if (values.scenario) setTransport(createReplayTransport(values.scenario));
+  else if (values.record) setTransport(createRecordingTransport(values.record, getTransport()));
+  else installFixtureTransport(); // FIXTURES_MODE, as in the server
+
+  const signals = values.fixtures ? await archivedSignals(values.fixtures) : await liveSignals();
+  const globalRisk = calculateGlobalRisk(signals);
+  const data = buildExport({ signals, globalRisk, region, generatedAt: globalRisk.lastUpdated });
+
+  process.stdout.write(FORMATS[format](data));
+
+  // Synthetic placeholders carry no weight, so a fully degraded run would score as calm
+  if (!data.signals.some(s => s.quality === 'live' || s.quality === 'cached')) {
+    console.error(`No live or cached signals (${Math.round(data.liveCoverage * 100)}% live data); the score is not meaningful`);
+    return EXIT_NO_DATA;
+  }
+
+  const score = getExportScore(data);
+  if (threshold !== null && score > threshold) {
+    console.error(`Risk score ${score} is above the threshold ${threshold}`);
+    return EXIT_ABOVE_THRESHOLD;
+  }
+  return 0;
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'snapshot':
+      return snapshot(args);
+    default:
+      fail(command ? `Unknown command: ${command}` : 'Usage: delta snapshot [--region <region>] [--format table|json|markdown] [--threshold <n>] [--fixtures <dir> | --scenario <dir> | --record <dir>]');
+  }
+}
+
+// Pending upstream timers would otherwise keep the process alive
+main()
+  .then(code => process.exit(code))
+  .catch(error => fail(error instanceof Error ? error.message : String(error)));
@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+/**
+ * Minimal local webhook receiver for testing alerts
+ * Usage: npm run alerts:receiver   (then ALERT_WEBHOOK_URL=http://localhost:4000)
+ */
+
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT || 4000);
+
+createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    try {
+      const alert = JSON.parse(body);
+      const ids = (alert.signals || []).map(s => `${s.id}(${s.score})`).join(', ');
+      console.log(`[${new Date().toISOString()}] ${alert.ruleName}: ${alert.message}`);
+      console.log(`  dedup=${alert.dedupKey} signals=[${ids}]`);
+    } catch {
+      console.log(`[${new Date().toISOString()}] ${req.method} ${req.url} (non-JSON body, ${body.length} bytes)`);
+    }
+    res.writeHead(204).end();
+  });
+}).listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}`);
+});
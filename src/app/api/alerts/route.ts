@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AlertEvent } from '@/types';
+import { ALERT_RULES } from '@/lib/config';
+import { getRecentAlerts, sendWebhook } from '@/lib/alerts';
+import { getSignalSnapshot } from '@/lib/snapshot';
+import { ApiError, authenticate, consumeRateLimit } from '@/lib/public-api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/alerts - configured rules and recently fired alerts
+ */
+export async function GET() {
+  return NextResponse.json({
+    rules: ALERT_RULES,
+    recent: getRecentAlerts(),
+    webhookConfigured: Boolean(process.env.ALERT_WEBHOOK_URL),
+  });
+}
+
+/**
+ * POST /api/alerts - send a test alert built from the current snapshot
+ * to ALERT_WEBHOOK_URL, bypassing rules and cooldowns. Needs an API key
+ * and counts against its rate limit, as /api/v1 does.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    consumeRateLimit(authenticate(request));
+  } catch (error) {
+    if (!(error instanceof ApiError)) throw error;
+    return NextResponse.json({ error: error.message }, { status: error.status, headers: error.headers });
+  }
+
+  if (!process.env.ALERT_WEBHOOK_URL) {
+    return NextResponse.json({ error: 'ALERT_WEBHOOK_URL is not set' }, { status: 400 });
+  }
+
+  try {
+    const snapshot = await getSignalSnapshot();
+    const event: AlertEvent = {
+      ruleId: 'test',
+      ruleName: 'Test alert',
+      dedupKey: `test:${Date.now()}`,
+      message: `Test alert: global risk ${snapshot.globalRisk.score}`,
+      firedAt: new Date(),
+      condition: { type: 'global-threshold', above: 0 },
+      globalRisk: snapshot.globalRisk,
+      signals: [...snapshot.signals].sort((a, b) => b.score - a.score).slice(0, 3),
+    };
+
+    const delivered = await sendWebhook(event, process.env.ALERT_WEBHOOK_URL);
+    return NextResponse.json({ delivered, event }, { status: delivered ? 200 : 502 });
+  } catch (error) {
+    console.error('Test alert error:', error);
+    return NextResponse.json({ error: 'Failed to send test alert' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { REGION_LABELS } from '@/types';
+import { isRegion, isStatus } from '@/lib/utils';
+import { getHistoryStore, parseTimeRange } from '@/lib/history';
+import { buildFeedEntries, toAtom, toRss } from '@/lib/feed';
+
+export const dynamic = 'force-dynamic';
+
+const FEED_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * GET /api/feed?format=atom|rss&region=<region>&severity=<min status>&from=<iso>&to=<iso>
+ * Signal status changes and risk level changes, newest first (default: Atom, last 7 days)
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const format = params.get('format') ?? 'atom';
+  const region = params.get('region') ?? 'global';
+  const severity = params.get('severity') ?? 'normal';
+  const range = parseTimeRange(params, FEED_WINDOW_MS);
+
+  if (format !== 'atom' && format !== 'rss') {
+    return NextResponse.json({ error: `Unknown format: ${format}` }, { status: 400 });
+  }
+  if (!isRegion(region)) {
+    return NextResponse.json({ error: `Unknown region: ${region}` }, { status: 400 });
+  }
+  if (!isStatus(severity)) {
+    return NextResponse.json({ error: `Unknown severity: ${severity}` }, { status: 400 });
+  }
+  if (!range) {
+    return NextResponse.json({ error: 'Invalid time range' }, { status: 400 });
+  }
+
+  try {
+    const snapshots = await getHistoryStore().getSnapshots(range);
+    const entries = buildFeedEntries(snapshots, { region, minSeverity: severity });
+    const meta = {
+      title: `Delta Intelligence · ${REGION_LABELS[region]}${severity !== 'normal' ? ` · ${severity}+` : ''}`,
+      selfUrl: request.nextUrl.href,
+      siteUrl: request.nextUrl.origin,
+      updated: range.to,
+    };
+
+    return new NextResponse(format === 'rss' ? toRss(entries, meta) : toAtom(entries, meta), {
+      headers: {
+        'Content-Type': format === 'rss' ? 'application/rss+xml; charset=utf-8' : 'application/atom+xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=60',
+      },
+    });
+  } catch (error) {
+    console.error('Feed error:', error);
+    return NextResponse.json({ error: 'Failed to read history' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import '@/lib/signals'; // registers the built-in sources
+import { parseTimeRange } from '@/lib/history';
+import { getHealthTracker } from '@/lib/source-health';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_ERRORS = 200;
+
+/**
+ * GET /api/health?source=<id>&from=<iso>&to=<iso>
+ * Per-source health plus persisted errors in the range (default 24h)
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const range = parseTimeRange(params);
+
+  if (!range) {
+    return NextResponse.json({ error: 'Invalid time range' }, { status: 400 });
+  }
+
+  try {
+    const tracker = getHealthTracker();
+    const [sources, errors] = await Promise.all([
+      tracker.getSourceHealth(),
+      tracker.getErrors(range, params.get('source') || undefined),
+    ]);
+
+    return NextResponse.json(
+      { from: range.from, to: range.to, sources, errors: errors.slice(0, MAX_ERRORS), totalErrors: errors.length },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Health query error:', error);
+    return NextResponse.json({ error: 'Failed to read source health' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHistoryStore, getReplayTimeline, parseTimeRange } from '@/lib/history';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/history/replay?from=<iso>&to=<iso>
+ * Replay frames and status transitions for a time range (default 24h)
+ */
+export async function GET(request: NextRequest) {
+  const range = parseTimeRange(request.nextUrl.searchParams);
+
+  if (!range) {
+    return NextResponse.json({ error: 'Invalid time range' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await getReplayTimeline(getHistoryStore(), range));
+  } catch (error) {
+    console.error('Replay timeline error:', error);
+    return NextResponse.json({ error: 'Failed to read history' }, { status: 500 });
+  }
+}
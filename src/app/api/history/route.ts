@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Region } from '@/types';
+import { isRegion } from '@/lib/utils';
+import {
+  getHistoryStore,
+  getSignalHistory,
+  getRegionHistory,
+  getCountryHistory,
+  parseTimeRange,
+} from '@/lib/history';
+import { getCountry } from '@/lib/countries';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/history?signal=<id>|region=<region>|country=<iso2>&from=<iso>&to=<iso>
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const signalId = params.get('signal');
+  const region = params.get('region');
+  const country = params.get('country');
+  const range = parseTimeRange(params);
+
+  if (!range) {
+    return NextResponse.json({ error: 'Invalid time range' }, { status: 400 });
+  }
+
+  if (!signalId && !region && !country) {
+    return NextResponse.json({ error: 'Specify a signal, region or country' }, { status: 400 });
+  }
+
+  if (region && !isRegion(region)) {
+    return NextResponse.json({ error: `Unknown region: ${region}` }, { status: 400 });
+  }
+
+  if (country && !getCountry(country)) {
+    return NextResponse.json({ error: `Unknown country: ${country}` }, { status: 400 });
+  }
+
+  try {
+    const store = getHistoryStore();
+    const points = signalId
+      ? await getSignalHistory(store, signalId, range)
+      : region
+      ? await getRegionHistory(store, region as Region, range)
+      : await getCountryHistory(store, country!.toUpperCase(), range);
+
+    return NextResponse.json({ from: range.from, to: range.to, points });
+  } catch (error) {
+    console.error('History query error:', error);
+    return NextResponse.json({ error: 'Failed to read history' }, { status: 500 });
+  }
+}
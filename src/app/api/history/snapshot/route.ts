@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHistoryStore, getSnapshotAt } from '@/lib/history';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/history/snapshot?at=<iso>
+ * The stored dashboard state at a moment: the latest snapshot at or before it
+ */
+export async function GET(request: NextRequest) {
+  const atParam = request.nextUrl.searchParams.get('at');
+  const at = atParam ? new Date(atParam) : null;
+
+  if (!at || isNaN(at.getTime())) {
+    return NextResponse.json({ error: 'Specify a valid at=<iso> time' }, { status: 400 });
+  }
+
+  try {
+    const snapshot = await getSnapshotAt(getHistoryStore(), at);
+    if (!snapshot) {
+      return NextResponse.json({ error: `No stored snapshot at ${at.toISOString()}` }, { status: 404 });
+    }
+    return NextResponse.json({ snapshot });
+  } catch (error) {
+    console.error('Snapshot query error:', error);
+    return NextResponse.json({ error: 'Failed to read history' }, { status: 500 });
+  }
+}
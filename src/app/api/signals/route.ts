@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getSignalSnapshot } from '@/lib/snapshot';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const snapshot = await getSignalSnapshot();
+    return NextResponse.json(snapshot, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Signal snapshot error:', error);
+    return NextResponse.json(
+      { error: 'Failed to aggregate signals' },
+      { status: 502 }
+    );
+  }
+}
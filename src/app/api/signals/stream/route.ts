@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server';
+import { getSignalSnapshot, subscribeSnapshot } from '@/lib/snapshot';
+import { acquireLiveRefresh } from '@/lib/live';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL = 25000; // keeps proxies from closing idle streams
+
+/**
+ * GET /api/signals/stream - Server-Sent Events
+ * `snapshot` carries the full state on connect, `update` carries
+ * changed signals, removed ids and the new global risk.
+ */
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        send('snapshot', await getSignalSnapshot());
+      } catch (error) {
+        console.error('Signal stream error:', error);
+        send('failure', { error: 'Failed to fetch signals' });
+        controller.close();
+        return;
+      }
+      if (request.signal.aborted) return;
+
+      // Subscribe after the initial snapshot so updates always follow it
+      const unsubscribe = subscribeSnapshot(update => send('update', update));
+      const release = acquireLiveRefresh();
+      const heartbeat = setInterval(() => controller.enqueue(encoder.encode(': ping\n\n')), HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        release();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+import { jsonWithEtag } from '@/lib/public-api';
+import packageJson from '../../../../../package.json';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/openapi.json
+ * The API description itself needs no key
+ */
+export async function GET(request: NextRequest) {
+  return jsonWithEtag(request, buildOpenApiDocument(packageJson.version));
+}
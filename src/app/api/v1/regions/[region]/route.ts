@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+import { REGION_LABELS } from '@/types';
+import { getSignalSnapshot } from '@/lib/snapshot';
+import { calculateRegionalRisk, filterSignalsByRegion } from '@/lib/signals';
+import { isRegion } from '@/lib/utils';
+import { ApiError, handleApiRequest } from '@/lib/public-api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/regions/{region}
+ * The region's score and its signals ('global' is the global index)
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ region: string }> }) {
+  return handleApiRequest(request, async () => {
+    const { region } = await params;
+    if (!isRegion(region)) throw new ApiError(404, `Unknown region: ${region}`);
+
+    const { signals, globalRisk, generatedAt } = await getSignalSnapshot();
+    return {
+      generatedAt,
+      region,
+      label: REGION_LABELS[region],
+      score: region === 'global' ? globalRisk.score : calculateRegionalRisk(signals, region),
+      signals: filterSignalsByRegion(signals, region),
+    };
+  });
+}
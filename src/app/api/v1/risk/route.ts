@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+import { Region, REGION_LABELS } from '@/types';
+import { getSignalSnapshot } from '@/lib/snapshot';
+import { calculateRegionalRisk } from '@/lib/signals';
+import { handleApiRequest } from '@/lib/public-api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/risk
+ * Global risk index plus every region's score
+ */
+export async function GET(request: NextRequest) {
+  return handleApiRequest(request, async () => {
+    const { signals, globalRisk, generatedAt } = await getSignalSnapshot();
+    const regions = (Object.keys(REGION_LABELS) as Region[]).filter(r => r !== 'global');
+
+    return {
+      generatedAt,
+      globalRisk,
+      regions: Object.fromEntries(regions.map(r => [r, calculateRegionalRisk(signals, r)])),
+    };
+  });
+}
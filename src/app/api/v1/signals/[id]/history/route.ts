@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { getHistoryStore, getSignalHistory, parseTimeRange } from '@/lib/history';
+import { ApiError, handleApiRequest } from '@/lib/public-api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/signals/{id}/history?from=<iso>&to=<iso>
+ * The ETag covers the points only: `to` defaults to now, so the echoed
+ * range changes on every call even when no new history was stored.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return handleApiRequest(request, async () => {
+    const { id } = await params;
+    const range = parseTimeRange(request.nextUrl.searchParams);
+    if (!range) throw new ApiError(400, 'Invalid time range');
+
+    const points = await getSignalHistory(getHistoryStore(), id, range);
+    return { signalId: id, from: range.from, to: range.to, points };
+  }, ({ signalId, points }) => ({ signalId, points }));
+}
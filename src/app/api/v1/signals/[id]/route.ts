@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { getSignalSnapshot } from '@/lib/snapshot';
+import { ApiError, handleApiRequest } from '@/lib/public-api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/signals/{id}
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return handleApiRequest(request, async () => {
+    const { id } = await params;
+    const { signals, generatedAt } = await getSignalSnapshot();
+    const signal = signals.find(s => s.id === id);
+
+    if (!signal) throw new ApiError(404, `No current signal with id ${id}`);
+    return { generatedAt, signal };
+  });
+}
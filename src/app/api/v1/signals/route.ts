@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { CATEGORY_LABELS, SignalCategory } from '@/types';
+import { getSignalSnapshot } from '@/lib/snapshot';
+import { filterSignalsByRegion } from '@/lib/signals';
+import { isRegion, isStatus, STATUS_RANK } from '@/lib/utils';
+import { ApiError, handleApiRequest } from '@/lib/public-api';
+
+export const dynamic = 'force-dynamic';
+
+function isCategory(value: string): value is SignalCategory {
+  return Object.prototype.hasOwnProperty.call(CATEGORY_LABELS, value);
+}
+
+/**
+ * GET /api/v1/signals?region=<region>&category=<category>&status=<min status>
+ */
+export async function GET(request: NextRequest) {
+  return handleApiRequest(request, async () => {
+    const params = request.nextUrl.searchParams;
+    const region = params.get('region') ?? 'global';
+    const category = params.get('category');
+    const status = params.get('status') ?? 'normal';
+
+    if (!isRegion(region)) throw new ApiError(400, `Unknown region: ${region}`);
+    if (category && !isCategory(category)) throw new ApiError(400, `Unknown category: ${category}`);
+    if (!isStatus(status)) throw new ApiError(400, `Unknown status: ${status}`);
+
+    const { signals, generatedAt } = await getSignalSnapshot();
+    const filtered = filterSignalsByRegion(signals, region)
+      .filter(s => !category || s.category === category)
+      .filter(s => STATUS_RANK[s.status] >= STATUS_RANK[status]);
+
+    return { generatedAt, signals: filtered };
+  });
+}
@@ -28,6 +28,12 @@ export const metadata: Metadata = {
     description: "Delta Intelligence - Real-time OSINT risk signals",
   },
   robots: "index, follow",
+  alternates: {
+    types: {
+      "application/atom+xml": "/api/feed",
+      "application/rss+xml": "/api/feed?format=rss",
+    },
+  },
 };
 
 export default function RootLayout({
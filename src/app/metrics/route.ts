@@ -0,0 +1,30 @@
+import { getSignalSnapshot } from '@/lib/snapshot';
+import { getHealthTracker } from '@/lib/source-health';
+import { getErrorTotals } from '@/lib/logger';
+import { getSourceMetrics, renderMetrics } from '@/lib/metrics';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /metrics
+ * Prometheus text exposition of scores and source health
+ */
+export async function GET() {
+  try {
+    const [snapshot, health] = await Promise.all([
+      getSignalSnapshot(),
+      getHealthTracker().getSourceHealth(),
+    ]);
+    const body = renderMetrics({ snapshot, health, errors: getErrorTotals(), sources: getSourceMetrics() });
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Metrics error:', error);
+    return new Response('# metrics unavailable\n', { status: 500, headers: { 'Content-Type': 'text/plain' } });
+  }
+}
@@ -1,13 +1,16 @@
 'use client';
 
 import dynamic from 'next/dynamic';
-import { useDashboard } from '@/lib/hooks';
+import { useDashboard, useReplay } from '@/lib/hooks';
 import {
   Header,
   SignalFeed,
   RegionalFilter,
   ErrorState,
   TopDrivers,
+  SourceHealthPanel,
+  ReplayBar,
+  ExportMenu,
 } from '@/components';
 import { getRiskLevel, getTrendIcon, getTrendColor } from '@/lib/utils';
 
@@ -22,6 +25,7 @@ const HeatMap = dynamic(() => import('@/components/HeatMap').then(mod => mod.Hea
 });
 
 export default function Dashboard() {
+  const replay = useReplay();
   const {
     globalRisk,
     selectedRegion,
@@ -33,7 +37,10 @@ export default function Dashboard() {
     regionalScore,
     refresh,
     signals,
-  } = useDashboard();
+    connection,
+    openCircuits,
+    countryScores,
+  } = useDashboard({ replay: replay.active ? { at: replay.frame?.timestamp ?? null } : null });
 
   const { label, color } = getRiskLevel(globalRisk.score);
   const highCount = signals.filter(s => s.status === 'high').length;
@@ -47,8 +54,12 @@ export default function Dashboard() {
         isLive={!isLoading && !error}
         globalRisk={globalRisk}
         signals={signals}
+        connection={connection}
+        onReplay={replay.start}
       />
 
+      {replay.active && <ReplayBar replay={replay} />}
+
       <main className="max-w-[1400px] mx-auto px-4 py-6">
 
         {/* HERO: Risk Score + Stats + Map */}
@@ -146,7 +157,12 @@ export default function Dashboard() {
             {/* Right Side: Map */}
             <div className="lg:col-span-7">
               <div className="border border-zinc-800 bg-zinc-900/30 h-full min-h-[400px] lg:min-h-[400px] overflow-hidden">
-                <HeatMap signals={signals} selectedRegion={selectedRegion} />
+                <HeatMap
+                  signals={signals}
+                  selectedRegion={selectedRegion}
+                  countryScores={countryScores ?? undefined}
+                  at={replay.active ? replay.frame?.timestamp : undefined}
+                />
               </div>
             </div>
           </div>
@@ -160,7 +176,16 @@ export default function Dashboard() {
 
         {/* Regional Filter */}
         <section className="mb-6">
-          <div className="text-[10px] text-zinc-600 tracking-widest uppercase mb-3">Region</div>
+          <div className="flex items-center justify-between mb-3">
+            <div className="text-[10px] text-zinc-600 tracking-widest uppercase">Region</div>
+            <ExportMenu
+              signals={signals}
+              globalRisk={globalRisk}
+              selectedRegion={selectedRegion}
+              generatedAt={lastFetched}
+              replay={replay.active}
+            />
+          </div>
           <div className="border border-zinc-800/50 bg-zinc-900/20 p-4">
             <RegionalFilter
               selectedRegion={selectedRegion}
@@ -182,12 +207,27 @@ export default function Dashboard() {
           <div className="flex items-center justify-between mb-3">
             <div className="text-[10px] text-zinc-600 tracking-widest uppercase">Signals</div>
             <span className="text-[10px] text-zinc-700">
+              {openCircuits.length > 0 && (
+                <span
+                  className="text-amber-500/70 mr-3"
+                  title={openCircuits
+                    .map(c => `${c.sourceName}: ${c.state}, retry ${c.retryAt.toLocaleTimeString()}`)
+                    .join('\n')}
+                >
+                  ⚡ {openCircuits.length} circuit{openCircuits.length > 1 ? 's' : ''} open
+                </span>
+              )}
               {filteredSignals.length} active
             </span>
           </div>
           <SignalFeed signals={filteredSignals} isLoading={isLoading} />
         </section>
 
+        {/* Source Health */}
+        <section className="mb-8">
+          <SourceHealthPanel />
+        </section>
+
         {/* Footer */}
         <footer className="border-t border-zinc-800/30 pt-6 pb-8">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 text-[10px] text-zinc-700">
@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { REGION_LABELS, Signal, SignalStatus } from '@/types';
+import { SnapshotExport } from '@/lib/export';
+import { formatDateTime, getRiskLevel, getTopDrivers, getTrendIcon } from '@/lib/utils';
+
+interface BriefingProps {
+  data: SnapshotExport;
+  onDone: () => void;
+}
+
+// More would spill onto a second page; the CSV/JSON exports carry the rest
+const MAX_ALERTS = 10;
+
+const statusColors: Record<SignalStatus, string> = {
+  normal: 'text-emerald-700',
+  elevated: 'text-amber-700',
+  high: 'text-red-700',
+};
+
+function SignalEntry({ signal }: { signal: Signal }) {
+  return (
+    <li className="py-1.5 border-b border-zinc-200 break-inside-avoid">
+      <div className="flex items-baseline justify-between gap-4">
+        <span className="font-semibold">{signal.name}</span>
+        <span className={`tabular-nums font-semibold ${statusColors[signal.status]}`}>
+          {signal.status.toUpperCase()} · {signal.score}
+        </span>
+      </div>
+      <div>{signal.explanation}</div>
+      <div className="text-zinc-500">
+        {REGION_LABELS[signal.region]} · {signal.baselineComparison}
+        {signal.quality !== 'live' && ` · ${signal.quality} data`}
+      </div>
+      <div className="text-zinc-500 break-all">Source: {signal.sourceName} — {signal.sourceUrl}</div>
+    </li>
+  );
+}
+
+/**
+ * One-page printable briefing. Mounting it opens the print dialog (save as
+ * PDF from there); only the briefing is printed and onDone fires afterwards.
+ */
+export function Briefing({ data, onDone }: BriefingProps) {
+  const { globalRisk, region } = data;
+  const { label } = getRiskLevel(globalRisk.score);
+  const drivers = getTopDrivers(data.signals);
+  const alerts = data.signals
+    .filter(s => s.status !== 'normal')
+    .sort((a, b) => b.score - a.score);
+  const regionalScore = region !== 'global' ? data.regionalScores[region] : null;
+
+  useEffect(() => {
+    document.body.classList.add('printing-briefing');
+    window.addEventListener('afterprint', onDone);
+    // Let the portal render before the dialog blocks the page
+    const timer = setTimeout(() => window.print(), 50);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('afterprint', onDone);
+      document.body.classList.remove('printing-briefing');
+    };
+  }, [onDone]);
+
+  return createPortal(
+    <article className="briefing bg-white text-zinc-900 text-[10px] leading-snug">
+      <header className="flex items-end justify-between border-b-2 border-zinc-900 pb-2 mb-3">
+        <div>
+          <div className="text-[9px] tracking-widest uppercase text-zinc-500">△ Delta Intelligence · Briefing</div>
+          <h1 className="text-lg font-bold">{REGION_LABELS[region]} risk snapshot</h1>
+        </div>
+        <div className="text-right text-zinc-500">
+          <div>Data as of {data.generatedAt ? formatDateTime(data.generatedAt) : 'unknown'}{data.replay && ' (replay)'}</div>
+          <div>Exported {formatDateTime(data.exportedAt)}</div>
+        </div>
+      </header>
+
+      {/* Risk index */}
+      <section className="flex gap-8 mb-3">
+        <div>
+          <div className="text-[9px] tracking-wider uppercase text-zinc-500">Global Risk Index</div>
+          <div className="text-3xl font-bold tabular-nums">
+            {globalRisk.score}<span className="text-sm font-normal text-zinc-500">/100 {getTrendIcon(globalRisk.trend)}</span>
+          </div>
+          <div className="font-semibold">{label}</div>
+        </div>
+        {regionalScore !== null && (
+          <div>
+            <div className="text-[9px] tracking-wider uppercase text-zinc-500">{REGION_LABELS[region]}</div>
+            <div className="text-3xl font-bold tabular-nums">
+              {regionalScore}<span className="text-sm font-normal text-zinc-500">/100</span>
+            </div>
+            <div className="font-semibold">{getRiskLevel(regionalScore).label}</div>
+          </div>
+        )}
+        <div className="ml-auto text-zinc-500 self-end">
+          <div>{globalRisk.signalCount} signals · weighting {globalRisk.weighting?.label ?? 'default'}</div>
+          {globalRisk.liveCoverage !== undefined && (
+            <div>{Math.round(globalRisk.liveCoverage * 100)}% of weight from live data</div>
+          )}
+          <div className="tabular-nums">
+            {Object.entries(data.regionalScores)
+              .map(([r, score]) => `${REGION_LABELS[r as keyof typeof REGION_LABELS]} ${score}`)
+              .join(' · ')}
+          </div>
+        </div>
+      </section>
+
+      {/* Top drivers */}
+      <section className="mb-3">
+        <h2 className="text-[9px] tracking-widest uppercase text-zinc-500 border-b border-zinc-300 mb-1">Top Drivers</h2>
+        {drivers.length === 0 ? (
+          <div className="text-zinc-500">No signals available</div>
+        ) : (
+          <ol className="grid grid-cols-3 gap-3">
+            {drivers.map((driver, i) => (
+              <li key={driver.id}>
+                <div className="font-semibold">
+                  #{i + 1} {driver.name} <span className={statusColors[driver.status]}>{driver.score}</span>
+                </div>
+                <div className="text-zinc-600">{driver.explanation}</div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+
+      {/* High and elevated signals */}
+      <section>
+        <h2 className="text-[9px] tracking-widest uppercase text-zinc-500 border-b border-zinc-300">
+          High &amp; Elevated Signals ({alerts.length})
+        </h2>
+        {alerts.length === 0 ? (
+          <div className="text-zinc-500 py-1.5">All signals within normal range.</div>
+        ) : (
+          <ul>
+            {alerts.slice(0, MAX_ALERTS).map(signal => <SignalEntry key={signal.id} signal={signal} />)}
+          </ul>
+        )}
+        {alerts.length > MAX_ALERTS && (
+          <div className="text-zinc-500 pt-1">+{alerts.length - MAX_ALERTS} more in the CSV/JSON export</div>
+        )}
+      </section>
+
+      <footer className="mt-3 pt-2 border-t border-zinc-300 text-[8px] text-zinc-500">
+        Research tool. Public data. Not predictions. Not financial advice.
+      </footer>
+    </article>,
+    document.body
+  );
+}
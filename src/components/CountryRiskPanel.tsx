@@ -0,0 +1,105 @@
+'use client';
+
+import { CountryRisk, HistoryPoint, REGION_LABELS } from '@/types';
+import { useCountryHistory } from '@/lib/hooks';
+import { getCountry } from '@/lib/countries';
+
+interface CountryRiskPanelProps {
+  code: string;
+  risk: CountryRisk | undefined; // undefined when no evidence is attributed to the country
+  at?: Date; // replayed time; the trend ends here instead of now
+  onClose: () => void;
+}
+
+const TREND_RANGE_MS = 24 * 60 * 60 * 1000;
+
+const statusColors: Record<string, string> = {
+  normal: 'text-emerald-400',
+  elevated: 'text-amber-400',
+  high: 'text-red-400',
+};
+
+function Sparkline({ points }: { points: HistoryPoint[] }) {
+  if (points.length < 2) {
+    return <div className="text-[10px] text-zinc-600">Not enough history yet</div>;
+  }
+
+  const width = 160;
+  const height = 32;
+  const start = points[0].timestamp.getTime();
+  const span = Math.max(points[points.length - 1].timestamp.getTime() - start, 1);
+  const path = points
+    .map(p => {
+      const x = ((p.timestamp.getTime() - start) / span) * width;
+      const y = height - (p.score / 100) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} className="block">
+      <polyline points={path} fill="none" stroke="#34d399" strokeWidth="1.5" />
+    </svg>
+  );
+}
+
+export function CountryRiskPanel({ code, risk, at, onClose }: CountryRiskPanelProps) {
+  const { points, error } = useCountryHistory(code, TREND_RANGE_MS, at);
+  const country = getCountry(code);
+  const change = points && points.length > 1 ? points[points.length - 1].score - points[0].score : null;
+
+  return (
+    <div className="absolute top-3 left-3 w-64 max-h-[calc(100%-1.5rem)] overflow-y-auto bg-zinc-950/95 border border-zinc-800 p-3 text-xs">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div>
+          <div className="text-[9px] text-zinc-600 uppercase tracking-wider">
+            {country ? REGION_LABELS[country.region] : 'Country'}
+          </div>
+          <div className="text-zinc-200 font-medium">{country?.name ?? code}</div>
+        </div>
+        <div className="flex items-start gap-3">
+          <div className={`text-xl font-bold tabular-nums ${risk ? statusColors[risk.status] : 'text-zinc-600'}`}>
+            {risk?.score ?? 0}
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 transition-colors" aria-label="Close">
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-3">
+        <div className="flex items-center justify-between text-[9px] text-zinc-600 uppercase tracking-wider mb-1">
+          <span>24h trend</span>
+          {change !== null && (
+            <span className={change > 0 ? 'text-amber-400' : change < 0 ? 'text-emerald-400' : ''}>
+              {change > 0 ? '+' : ''}{change}
+            </span>
+          )}
+        </div>
+        {error && <div className="text-[10px] text-red-400">{error}</div>}
+        {!error && !points && <div className="text-[10px] text-zinc-600">Loading...</div>}
+        {points && <Sparkline points={points} />}
+      </div>
+
+      <div className="text-[9px] text-zinc-600 uppercase tracking-wider mb-1">Contributing signals</div>
+      {at ? (
+        <div className="text-[10px] text-zinc-600">Contributions are not kept in history.</div>
+      ) : risk && risk.contributions.length > 0 ? (
+        <ul className="space-y-1">
+          {risk.contributions.map(c => (
+            <li key={c.signalId} className="flex items-center justify-between gap-2 text-[10px]">
+              <span className="text-zinc-400 truncate">
+                {c.signalName} <span className="text-zinc-600">({c.items})</span>
+              </span>
+              <span className="font-mono tabular-nums text-zinc-500">
+                {c.points > 0 ? '+' : ''}{c.points}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-[10px] text-zinc-600">No evidence attributed to this country right now.</div>
+      )}
+    </div>
+  );
+}
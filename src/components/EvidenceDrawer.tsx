@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Signal, EvidenceItem, REGION_LABELS } from '@/types';
+import { formatRelativeTime } from '@/lib/utils';
+
+interface EvidenceDrawerProps {
+  signal: Signal;
+  onClose: () => void;
+}
+
+function formatContribution(points: number): string {
+  if (points === 0) return '0';
+  const rounded = Math.abs(points) < 1 ? points.toFixed(1) : Math.round(points).toString();
+  return points > 0 ? `+${rounded}` : rounded;
+}
+
+function formatCoordinates({ lat, lng }: NonNullable<EvidenceItem['coordinates']>): string {
+  return `${Math.abs(lat).toFixed(2)}°${lat >= 0 ? 'N' : 'S'} ${Math.abs(lng).toFixed(2)}°${lng >= 0 ? 'E' : 'W'}`;
+}
+
+function EvidenceRow({ item }: { item: EvidenceItem }) {
+  const details = [
+    item.magnitude && `${item.magnitude.label} ${item.magnitude.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`,
+    item.probability !== undefined && `${(item.probability * 100).toFixed(0)}% yes`,
+    item.region && REGION_LABELS[item.region],
+    item.coordinates && formatCoordinates(item.coordinates),
+    item.timestamp && formatRelativeTime(item.timestamp),
+  ].filter(Boolean);
+
+  return (
+    <li className="flex items-start justify-between gap-4 py-3 border-b border-zinc-800/50">
+      <div className="min-w-0">
+        {item.url ? (
+          <a
+            href={item.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-zinc-300 hover:text-zinc-100 transition-colors"
+          >
+            {item.title} →
+          </a>
+        ) : (
+          <span className="text-xs text-zinc-300">{item.title}</span>
+        )}
+        {details.length > 0 && (
+          <div className="text-[10px] text-zinc-600 mt-1">{details.join(' · ')}</div>
+        )}
+      </div>
+      <div
+        className={`text-xs font-mono tabular-nums flex-shrink-0 ${item.contribution > 0 ? 'text-amber-400/80' : 'text-zinc-600'}`}
+        title="Points this item adds to the formula score"
+      >
+        {formatContribution(item.contribution)}
+      </div>
+    </li>
+  );
+}
+
+export function EvidenceDrawer({ signal, onClose }: EvidenceDrawerProps) {
+  const evidence = signal.evidence ?? [];
+
+  // Close on Escape
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  // Rendered on <body> so the card's animation transform and dimming don't apply
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+      <aside
+        role="dialog"
+        aria-label={`Evidence for ${signal.name}`}
+        className="relative w-full max-w-md h-full overflow-y-auto bg-zinc-950 border-l border-zinc-800 p-5"
+      >
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div className="min-w-0">
+            <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-1">
+              Evidence · {REGION_LABELS[signal.region]}
+            </div>
+            <h2 className="text-sm font-medium text-zinc-200">{signal.name}</h2>
+            <div className="text-[10px] text-zinc-500 mt-1">
+              Score {signal.score} ({signal.scoringMode === 'anomaly' ? 'z-score' : 'formula'}) · {evidence.length} items
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+            aria-label="Close"
+          >
+            ✕
+          </button>
+        </div>
+
+        <p className="text-xs text-zinc-400 leading-relaxed mb-4">{signal.explanation}</p>
+
+        <div className="flex items-center justify-between text-[10px] text-zinc-600 uppercase tracking-wider border-b border-zinc-800 pb-2">
+          <span>Item</span>
+          <span>Points</span>
+        </div>
+
+        {evidence.length === 0 ? (
+          <div className="text-xs text-zinc-600 py-4">No individual items behind this reading.</div>
+        ) : (
+          <ul>
+            {evidence.map((item, i) => (
+              <EvidenceRow key={`${item.title}-${i}`} item={item} />
+            ))}
+          </ul>
+        )}
+
+        <a
+          href={signal.sourceUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-block mt-4 text-[10px] text-zinc-600 hover:text-zinc-400 transition-colors"
+        >
+          {signal.sourceName} →
+        </a>
+      </aside>
+    </div>,
+    document.body
+  );
+}
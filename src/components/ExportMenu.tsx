@@ -0,0 +1,96 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GlobalRisk, Region, Signal } from '@/types';
+import { SnapshotExport, buildExport, downloadFile, exportFileName, toCsv, toJson } from '@/lib/export';
+import { Briefing } from './Briefing';
+
+interface ExportMenuProps {
+  signals: Signal[]; // unfiltered; the export applies the region filter
+  globalRisk: GlobalRisk;
+  selectedRegion: Region;
+  generatedAt: Date | null;
+  replay?: boolean;
+}
+
+export function ExportMenu({ signals, globalRisk, selectedRegion, generatedAt, replay = false }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [briefing, setBriefing] = useState<SnapshotExport | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!open) return;
+    const onMouseDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+    window.addEventListener('mousedown', onMouseDown);
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('mousedown', onMouseDown);
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, [open]);
+
+  const closeBriefing = useCallback(() => setBriefing(null), []);
+
+  const snapshot = () => buildExport({ signals, globalRisk, region: selectedRegion, generatedAt, replay });
+
+  const exportCsv = () => {
+    const data = snapshot();
+    downloadFile(`${exportFileName(data)}.csv`, toCsv(data), 'text/csv;charset=utf-8');
+    setOpen(false);
+  };
+
+  const exportJson = () => {
+    const data = snapshot();
+    downloadFile(`${exportFileName(data)}.json`, toJson(data), 'application/json');
+    setOpen(false);
+  };
+
+  const printBriefing = () => {
+    setBriefing(snapshot());
+    setOpen(false);
+  };
+
+  const options = [
+    { label: 'CSV', hint: 'all fields, one row per signal', onClick: exportCsv },
+    { label: 'JSON', hint: 'full snapshot', onClick: exportJson },
+    { label: 'Briefing (PDF)', hint: 'one-page print', onClick: printBriefing },
+  ];
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={signals.length === 0}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        className="px-2 py-0.5 border border-zinc-800 text-zinc-500 text-[10px] tracking-wider hover:border-zinc-700 hover:text-zinc-400 disabled:opacity-40 transition-colors"
+      >
+        EXPORT ▾
+      </button>
+
+      {open && (
+        <div role="menu" className="absolute right-0 mt-1 z-20 w-56 border border-zinc-800 bg-zinc-950 py-1">
+          {options.map(option => (
+            <button
+              key={option.label}
+              role="menuitem"
+              onClick={option.onClick}
+              className="w-full flex items-baseline justify-between gap-2 px-3 py-1.5 text-left text-xs text-zinc-300 hover:bg-zinc-900 transition-colors"
+            >
+              <span>{option.label}</span>
+              <span className="text-[10px] text-zinc-600">{option.hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {briefing && <Briefing data={briefing} onDone={closeBriefing} />}
+    </div>
+  );
+}
@@ -59,6 +59,14 @@ export function GlobalRiskOverview({ risk, isLoading }: GlobalRiskOverviewProps)
               <span className={`${color} font-medium`}>STATUS: {label}</span>
               <span className="text-zinc-600">│</span>
               <span className="text-zinc-500">{risk.signalCount} SIGNALS</span>
+              {risk.weighting && (
+                <>
+                  <span className="text-zinc-600">│</span>
+                  <span className="text-zinc-500 uppercase" title={`Aggregation: ${risk.weighting.method}`}>
+                    MODEL: {risk.weighting.label}
+                  </span>
+                </>
+              )}
             </div>
           </div>
 
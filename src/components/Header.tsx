@@ -1,27 +1,31 @@
 'use client';
 
-import { formatRelativeTime } from '@/lib/utils';
-import { Signal, GlobalRisk } from '@/types';
+import { formatRelativeTime, formatDateTime } from '@/lib/utils';
+import { Signal, GlobalRisk, ConnectionMode } from '@/types';
 
 interface HeaderProps {
   lastUpdated: Date | null;
   isLive: boolean;
   globalRisk?: GlobalRisk;
   signals?: Signal[];
+  connection?: ConnectionMode;
+  onReplay?: () => void; // shown as a button while live
 }
 
-function Marquee({ signals, lastUpdated }: { signals?: Signal[]; lastUpdated: Date | null }) {
+function Marquee({ signals, lastUpdated, replaying }: { signals?: Signal[]; lastUpdated: Date | null; replaying: boolean }) {
   const highSignals = signals?.filter(s => s.status === 'high') || [];
 
   const items = [
-    'MONITORING ACTIVE',
+    replaying ? 'REPLAY · NOT LIVE' : 'MONITORING ACTIVE',
     highSignals.length > 0 ? `${highSignals.length} HIGH PRIORITY SIGNAL${highSignals.length > 1 ? 'S' : ''}` : 'NO HIGH PRIORITY ALERTS',
     'WIKIPEDIA API',
     'FOREX RATES',
     'NETWORK STATUS',
     'GPS INTERFERENCE',
     'TRAFFIC PATTERNS',
-    lastUpdated ? `UPDATED ${formatRelativeTime(lastUpdated).toUpperCase()}` : 'CONNECTING',
+    replaying
+      ? `STORED ${lastUpdated ? formatDateTime(lastUpdated).toUpperCase() : 'HISTORY'}`
+      : lastUpdated ? `UPDATED ${formatRelativeTime(lastUpdated).toUpperCase()}` : 'CONNECTING',
   ];
 
   const marqueeText = items.join('   ·   ');
@@ -42,7 +46,9 @@ function Marquee({ signals, lastUpdated }: { signals?: Signal[]; lastUpdated: Da
   );
 }
 
-export function Header({ lastUpdated, isLive, globalRisk, signals }: HeaderProps) {
+export function Header({ lastUpdated, isLive, globalRisk, signals, connection, onReplay }: HeaderProps) {
+  const replaying = connection === 'replay';
+
   return (
     <header className="sticky top-0 z-50">
       <div className="border-b border-zinc-800/50 bg-zinc-950/95 backdrop-blur-md">
@@ -59,26 +65,58 @@ export function Header({ lastUpdated, isLive, globalRisk, signals }: HeaderProps
 
             {/* Status */}
             <div className="flex items-center gap-4">
-              {isLive && (
+              {replaying && (
+                <span className="text-amber-400 text-[10px] tracking-wider" title="Showing stored history, not live data">
+                  ◷ REPLAY
+                </span>
+              )}
+
+              {isLive && !replaying && (
                 <div className="flex items-center gap-2">
                   <span className="relative flex h-1.5 w-1.5">
                     <span className="pulse-ring absolute inline-flex h-full w-full rounded-full bg-emerald-500"></span>
                     <span className="relative inline-flex rounded-full h-1.5 w-1.5 bg-emerald-500"></span>
                   </span>
-                  <span className="text-emerald-500/80 text-[10px] tracking-wider">LIVE</span>
+                  <span
+                    className="text-emerald-500/80 text-[10px] tracking-wider"
+                    title={connection === 'polling' ? 'Stream unavailable, polling every 60s' : 'Streaming updates'}
+                  >
+                    {connection === 'polling' ? 'POLLING' : 'LIVE'}
+                  </span>
                 </div>
               )}
 
+              {globalRisk?.liveCoverage !== undefined && (
+                <span
+                  className={`text-[10px] tracking-wider hidden sm:inline ${
+                    globalRisk.liveCoverage >= 0.75 ? 'text-zinc-500' : 'text-amber-500/80'
+                  }`}
+                  title="Share of the risk index backed by live (not cached, stale or substitute) data"
+                >
+                  {Math.round(globalRisk.liveCoverage * 100)}% LIVE DATA
+                </span>
+              )}
+
               {lastUpdated && (
-                <span className="text-zinc-600 text-[10px] hidden sm:inline">
-                  {formatRelativeTime(lastUpdated)}
+                <span className={`text-[10px] hidden sm:inline ${replaying ? 'text-amber-400/80' : 'text-zinc-600'}`}>
+                  {replaying ? formatDateTime(lastUpdated) : formatRelativeTime(lastUpdated)}
                 </span>
               )}
+
+              {onReplay && !replaying && (
+                <button
+                  onClick={onReplay}
+                  className="text-[10px] tracking-wider text-zinc-500 hover:text-zinc-300 border border-zinc-800 px-2 py-0.5 transition-colors"
+                  title="Replay stored history"
+                >
+                  REPLAY
+                </button>
+              )}
             </div>
           </div>
         </div>
       </div>
-      <Marquee signals={signals} lastUpdated={lastUpdated} />
+      <Marquee signals={signals} lastUpdated={lastUpdated} replaying={replaying} />
     </header>
   );
 }
@@ -1,15 +1,21 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
-import { Signal, Region, REGION_LABELS } from '@/types';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Signal, Region, EvidenceItem, CountryRisk, REGION_LABELS } from '@/types';
 import { mapStyle } from '@/lib/mapStyle';
+import { isDegraded } from '@/lib/utils';
+import { calculateCountryRisk, countryRiskFromScores } from '@/lib/signals';
+import { getCountryFeatures } from '@/lib/geo';
+import { CountryRiskPanel } from './CountryRiskPanel';
 
 interface HeatMapProps {
   signals: Signal[];
   selectedRegion: Region;
+  countryScores?: Record<string, number>; // stored country index, when replaying history
+  at?: Date; // time being replayed
 }
 
-// Region center coordinates [lng, lat]
+// Region center coordinates [lng, lat], used to frame the selected region
 const REGION_COORDS: Record<Region, [number, number]> = {
   'global': [0, 20],
   'north-america': [-100, 40],
@@ -29,29 +35,158 @@ function getStatusColor(status: string): string {
   }
 }
 
-export function HeatMap({ signals, selectedRegion }: HeatMapProps) {
+/**
+ * 0-1 severity of a single item: its score contribution, where 25 points
+ * (a major quake) is the top of the scale. Items adding nothing still show.
+ */
+function evidenceSeverity(item: EvidenceItem): number {
+  return Math.min(1, Math.max(0.15, item.contribution / 25));
+}
+
+// Same bands as signal status, on the 0-1 severity scale
+function severityColor(severity: number): string {
+  return getStatusColor(severity >= 0.65 ? 'high' : severity >= 0.35 ? 'elevated' : 'normal');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+function hasLocation(signal: Signal): boolean {
+  return (signal.evidence ?? []).some(item => item.coordinates);
+}
+
+/**
+ * One point per located evidence item
+ */
+function toFeatureCollection(signals: Signal[]): GeoJSON.FeatureCollection<GeoJSON.Point> {
+  return {
+    type: 'FeatureCollection',
+    features: signals.flatMap(signal =>
+      (signal.evidence ?? []).flatMap(item => {
+        if (!item.coordinates) return [];
+        const severity = evidenceSeverity(item);
+        return [{
+          type: 'Feature' as const,
+          properties: {
+            severity,
+            color: severityColor(severity),
+            title: item.title,
+            url: item.url ?? '',
+            signal: signal.name,
+            region: item.region ? REGION_LABELS[item.region] : '',
+          },
+          geometry: { type: 'Point' as const, coordinates: [item.coordinates.lng, item.coordinates.lat] },
+        }];
+      })
+    ),
+  };
+}
+
+/**
+ * Country polygons carrying their current index; countries without
+ * attributed evidence get score -1 and stay unfilled
+ */
+function toChoropleth(risks: CountryRisk[]): GeoJSON.FeatureCollection {
+  const byCode = new Map(risks.map(r => [r.code, r]));
+  return {
+    type: 'FeatureCollection',
+    features: getCountryFeatures().map(f => {
+      const risk = byCode.get(f.properties.code);
+      return {
+        ...f,
+        properties: {
+          ...f.properties,
+          score: risk?.score ?? -1,
+          color: getStatusColor(risk?.status ?? 'normal'),
+        },
+      };
+    }),
+  };
+}
+
+function popupHtml(properties: Record<string, unknown>): string {
+  const color = String(properties.color);
+  const url = String(properties.url || '');
+  const title = escapeHtml(String(properties.title));
+
+  return `
+    <div style="
+      background: #18181b;
+      border: 1px solid #3f3f46;
+      padding: 12px;
+      font-family: monospace;
+      font-size: 11px;
+      min-width: 200px;
+      max-width: 280px;
+    ">
+      <div style="display: flex; align-items: center; gap: 8px; margin-bottom: 6px;">
+        <span style="
+          width: 8px;
+          height: 8px;
+          flex-shrink: 0;
+          background: ${color};
+          border-radius: 50%;
+          box-shadow: 0 0 6px ${color};
+        "></span>
+        <span style="color: #e4e4e7; font-weight: 600;">${escapeHtml(String(properties.signal))}</span>
+      </div>
+      <div style="color: #71717a; font-size: 9px; text-transform: uppercase; margin-bottom: 6px;">
+        ${escapeHtml(String(properties.region || ''))}
+      </div>
+      <div style="color: #a1a1aa; line-height: 1.4;">
+        ${url
+          ? `<a href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer" style="color: #a1a1aa;">${title} →</a>`
+          : title}
+      </div>
+    </div>
+  `;
+}
+
+export function HeatMap({ signals, selectedRegion, countryScores, at }: HeatMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<maplibregl.Map | null>(null);
+  const loadedRef = useRef(false);
+  const [selectedCountry, setSelectedCountry] = useState<string | null>(null);
+
+  // Degraded signals carry no fresh data worth plotting
+  const plotted = useMemo(() => signals.filter(s => !isDegraded(s)), [signals]);
+  const points = useMemo(() => toFeatureCollection(plotted), [plotted]);
+  const unlocated = useMemo(
+    () => plotted.filter(s => !hasLocation(s)).sort((a, b) => b.score - a.score),
+    [plotted]
+  );
+
+  // Replayed signals have no evidence, so the stored index is shown instead
+  const countryRisk = useMemo(
+    () => countryScores ? countryRiskFromScores(countryScores) : calculateCountryRisk(plotted),
+    [countryScores, plotted]
+  );
+  const choropleth = useMemo(() => toChoropleth(countryRisk), [countryRisk]);
 
+  const pointsRef = useRef(points);
+  pointsRef.current = points;
+  const choroplethRef = useRef(choropleth);
+  choroplethRef.current = choropleth;
+  const regionRef = useRef(selectedRegion);
+  regionRef.current = selectedRegion;
+
+  // Create the map once
   useEffect(() => {
     if (typeof window === 'undefined' || !mapRef.current) return;
+    let cancelled = false;
 
     const initMap = async () => {
       const maplibregl = (await import('maplibre-gl')).default;
       await import('maplibre-gl/dist/maplibre-gl.css');
+      if (cancelled || !mapRef.current) return;
 
-      if (mapInstanceRef.current) {
-        mapInstanceRef.current.remove();
-      }
-
-      const center = REGION_COORDS[selectedRegion];
-      const zoom = selectedRegion === 'global' ? 1.5 : 3;
-
+      const region = regionRef.current;
       const map = new maplibregl.Map({
-        container: mapRef.current!,
+        container: mapRef.current,
         style: mapStyle as maplibregl.StyleSpecification,
-        center: center,
-        zoom: zoom,
+        center: REGION_COORDS[region],
+        zoom: region === 'global' ? 1.5 : 3,
         attributionControl: false,
         minZoom: 1,
         maxZoom: 10,
@@ -60,54 +195,47 @@ export function HeatMap({ signals, selectedRegion }: HeatMapProps) {
       map.addControl(new maplibregl.NavigationControl({ showCompass: false }), 'bottom-right');
 
       map.on('load', () => {
-        // Add heat source
-        const heatData: GeoJSON.FeatureCollection = {
-          type: 'FeatureCollection',
-          features: signals.flatMap((signal) => {
-            const baseCoord = REGION_COORDS[signal.region] || REGION_COORDS['global'];
-            const intensity = signal.score / 100;
-            const features: GeoJSON.Feature[] = [];
-
-            // Main point
-            features.push({
-              type: 'Feature',
-              properties: { intensity, score: signal.score, name: signal.name },
-              geometry: { type: 'Point', coordinates: [baseCoord[0], baseCoord[1]] }
-            });
-
-            // Scatter points
-            for (let i = 0; i < 12; i++) {
-              features.push({
-                type: 'Feature',
-                properties: { intensity: intensity * 0.4 },
-                geometry: {
-                  type: 'Point',
-                  coordinates: [
-                    baseCoord[0] + (Math.random() - 0.5) * 25,
-                    baseCoord[1] + (Math.random() - 0.5) * 15
-                  ]
-                }
-              });
-            }
-
-            return features;
-          })
-        };
-
-        map.addSource('heat-data', {
+        // Country index as a choropleth, beneath the event layers
+        map.addSource('countries', {
+          type: 'geojson',
+          data: choroplethRef.current,
+        });
+
+        map.addLayer({
+          id: 'country-fill',
+          type: 'fill',
+          source: 'countries',
+          paint: {
+            'fill-color': ['get', 'color'],
+            'fill-opacity': ['case', ['<', ['get', 'score'], 0], 0, ['interpolate', ['linear'], ['get', 'score'], 0, 0.08, 100, 0.45]],
+          }
+        });
+
+        map.addLayer({
+          id: 'country-outline',
+          type: 'line',
+          source: 'countries',
+          paint: {
+            'line-color': '#3f3f46',
+            'line-width': 0.5,
+            'line-opacity': 0.6,
+          }
+        });
+
+        map.addSource('evidence', {
           type: 'geojson',
-          data: heatData
+          data: pointsRef.current,
         });
 
-        // Add heatmap layer
+        // Heat from the real event locations, weighted by severity
         map.addLayer({
           id: 'heat-layer',
           type: 'heatmap',
-          source: 'heat-data',
+          source: 'evidence',
           paint: {
-            'heatmap-weight': ['get', 'intensity'],
+            'heatmap-weight': ['get', 'severity'],
             'heatmap-intensity': 1.5,
-            'heatmap-radius': ['interpolate', ['linear'], ['zoom'], 1, 30, 5, 60, 10, 100],
+            'heatmap-radius': ['interpolate', ['linear'], ['zoom'], 1, 20, 5, 40, 10, 80],
             'heatmap-opacity': 0.7,
             'heatmap-color': [
               'interpolate',
@@ -124,69 +252,40 @@ export function HeatMap({ signals, selectedRegion }: HeatMapProps) {
           }
         });
 
-        // Add markers for signals
-        signals.forEach((signal) => {
-          const coords = REGION_COORDS[signal.region];
-          if (!coords) return;
-
-          const color = getStatusColor(signal.status);
-
-          // Create marker element
-          const el = document.createElement('div');
-          el.className = 'signal-marker';
-          el.style.cssText = `
-            width: 12px;
-            height: 12px;
-            background: ${color};
-            border: 2px solid rgba(0,0,0,0.8);
-            border-radius: 50%;
-            cursor: pointer;
-            box-shadow: 0 0 10px ${color}80;
-          `;
-
-          // Create popup
-          const popup = new maplibregl.Popup({
-            offset: 15,
-            closeButton: false,
-            className: 'signal-popup'
-          }).setHTML(`
-            <div style="
-              background: #18181b;
-              border: 1px solid #3f3f46;
-              padding: 12px;
-              font-family: monospace;
-              font-size: 11px;
-              min-width: 200px;
-            ">
-              <div style="display: flex; align-items: center; gap: 8px; margin-bottom: 8px;">
-                <span style="
-                  width: 8px;
-                  height: 8px;
-                  background: ${color};
-                  border-radius: 50%;
-                  box-shadow: 0 0 6px ${color};
-                "></span>
-                <span style="color: #e4e4e7; font-weight: 600;">${signal.name}</span>
-              </div>
-              <div style="color: #71717a; font-size: 9px; text-transform: uppercase; margin-bottom: 6px;">
-                ${REGION_LABELS[signal.region]}
-              </div>
-              <div style="color: #a1a1aa; margin-bottom: 8px; line-height: 1.4;">
-                ${signal.explanation}
-              </div>
-              <div style="display: flex; gap: 12px; color: #52525b; font-size: 10px;">
-                <span>Score: <span style="color: ${color};">${signal.score}</span></span>
-                <span>Δ ${signal.baselineComparison}</span>
-                <span>${signal.confidence.toUpperCase()}</span>
-              </div>
-            </div>
-          `);
-
-          new maplibregl.Marker({ element: el })
-            .setLngLat(coords)
-            .setPopup(popup)
+        // One marker per item; size and colour follow severity
+        map.addLayer({
+          id: 'evidence-points',
+          type: 'circle',
+          source: 'evidence',
+          paint: {
+            'circle-radius': ['interpolate', ['linear'], ['get', 'severity'], 0, 3, 1, 9],
+            'circle-color': ['get', 'color'],
+            'circle-opacity': 0.9,
+            'circle-stroke-width': 1.5,
+            'circle-stroke-color': 'rgba(0,0,0,0.8)',
+          }
+        });
+
+        map.on('click', 'evidence-points', (event) => {
+          const feature = event.features?.[0];
+          if (!feature || feature.geometry.type !== 'Point') return;
+
+          new maplibregl.Popup({ offset: 10, closeButton: false, className: 'signal-popup' })
+            .setLngLat(feature.geometry.coordinates as [number, number])
+            .setHTML(popupHtml(feature.properties))
             .addTo(map);
         });
+        map.on('mouseenter', 'evidence-points', () => { map.getCanvas().style.cursor = 'pointer'; });
+        map.on('mouseleave', 'evidence-points', () => { map.getCanvas().style.cursor = ''; });
+
+        // Clicking a country (but not a point on it) opens its panel
+        map.on('click', 'country-fill', (event) => {
+          if (map.queryRenderedFeatures(event.point, { layers: ['evidence-points'] }).length > 0) return;
+          const code = event.features?.[0]?.properties?.code;
+          if (typeof code === 'string') setSelectedCountry(code);
+        });
+
+        loadedRef.current = true;
       });
 
       mapInstanceRef.current = map;
@@ -195,30 +294,88 @@ export function HeatMap({ signals, selectedRegion }: HeatMapProps) {
     initMap();
 
     return () => {
+      cancelled = true;
+      loadedRef.current = false;
       if (mapInstanceRef.current) {
         mapInstanceRef.current.remove();
         mapInstanceRef.current = null;
       }
     };
-  }, [selectedRegion, signals]);
+  }, []);
+
+  // Reframe on region change
+  useEffect(() => {
+    mapInstanceRef.current?.jumpTo({
+      center: REGION_COORDS[selectedRegion],
+      zoom: selectedRegion === 'global' ? 1.5 : 3,
+    });
+  }, [selectedRegion]);
+
+  // Swap in new points without rebuilding the map
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !loadedRef.current) return;
+    (map.getSource('evidence') as maplibregl.GeoJSONSource | undefined)?.setData(points);
+  }, [points]);
+
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !loadedRef.current) return;
+    (map.getSource('countries') as maplibregl.GeoJSONSource | undefined)?.setData(choropleth);
+  }, [choropleth]);
 
   return (
-    <div className="relative w-full h-full min-h-[300px] overflow-hidden" style={{ background: '#151518' }}>
-      <div ref={mapRef} className="w-full h-full" style={{ background: '#151518' }} />
-      {/* Legend */}
-      <div className="absolute bottom-3 left-3 text-[9px] text-zinc-500 uppercase tracking-wider pointer-events-none">
-        <div className="flex items-center gap-4 mb-1">
-          <span className="flex items-center gap-1">
-            <span className="w-2 h-2 rounded-full bg-emerald-500"></span> Normal
-          </span>
-          <span className="flex items-center gap-1">
-            <span className="w-2 h-2 rounded-full bg-amber-500"></span> Elevated
-          </span>
-          <span className="flex items-center gap-1">
-            <span className="w-2 h-2 rounded-full bg-red-500"></span> High
-          </span>
+    <div className="relative w-full h-full min-h-[300px] overflow-hidden flex" style={{ background: '#151518' }}>
+      <div className="relative flex-1 min-w-0">
+        <div ref={mapRef} className="absolute inset-0" style={{ background: '#151518' }} />
+        {/* Legend */}
+        <div className="absolute bottom-3 left-3 text-[9px] text-zinc-500 uppercase tracking-wider pointer-events-none">
+          <div className="flex items-center gap-4 mb-1">
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full bg-emerald-500"></span> Normal
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full bg-amber-500"></span> Elevated
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full bg-red-500"></span> High
+            </span>
+          </div>
+          <div>{points.features.length} located events · {countryRisk.length} countries</div>
         </div>
+
+        {selectedCountry && (
+          <CountryRiskPanel
+            code={selectedCountry}
+            risk={countryRisk.find(r => r.code === selectedCountry)}
+            at={at}
+            onClose={() => setSelectedCountry(null)}
+          />
+        )}
       </div>
+
+      {/* Signals without a location are listed, not placed */}
+      {unlocated.length > 0 && (
+        <div className="hidden sm:block w-44 flex-shrink-0 border-l border-zinc-800 overflow-y-auto p-3">
+          <div className="text-[9px] text-zinc-600 uppercase tracking-wider mb-2">No location</div>
+          <ul className="space-y-2">
+            {unlocated.map(signal => (
+              <li key={signal.id} className="flex items-center justify-between gap-2 text-[10px]">
+                <span className="flex items-center gap-1.5 min-w-0">
+                  <span
+                    className="w-1.5 h-1.5 rounded-full flex-shrink-0"
+                    style={{ background: getStatusColor(signal.status) }}
+                  />
+                  <span className="text-zinc-400 truncate" title={`${signal.name} · ${REGION_LABELS[signal.region]}`}>
+                    {signal.name}
+                  </span>
+                </span>
+                <span className="text-zinc-500 tabular-nums">{signal.score}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,174 @@
+'use client';
+
+import { StatusTransition } from '@/types';
+import { UseReplayReturn, REPLAY_RANGES, REPLAY_SPEEDS } from '@/lib/hooks';
+import { formatDateTime } from '@/lib/utils';
+
+interface ReplayBarProps {
+  replay: UseReplayReturn;
+}
+
+const statusColors: Record<string, string> = {
+  normal: 'bg-emerald-500',
+  elevated: 'bg-amber-500',
+  high: 'bg-red-500',
+};
+
+// Value for <input type="datetime-local">, in local time
+function toLocalInputValue(time: number): string {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function describeEvent(event: StatusTransition): string {
+  return `${event.signalName}: ${event.from} → ${event.to} (${event.score})`;
+}
+
+export function ReplayBar({ replay }: ReplayBarProps) {
+  const { timeline, frame, position, playing, speed, previousEvent, nextEvent } = replay;
+  const frames = timeline?.frames ?? [];
+  const start = frames[0]?.timestamp.getTime();
+  const end = frames[frames.length - 1]?.timestamp.getTime();
+  const span = start !== undefined && end !== undefined ? Math.max(end - start, 1) : null;
+
+  const togglePlay = () => {
+    // Playing from the end starts over
+    if (!playing && position !== null && position === end && start !== undefined) replay.seek(start);
+    replay.setPlaying(!playing);
+  };
+
+  const jumpTo = (event: StatusTransition | null) => {
+    if (!event) return;
+    replay.setPlaying(false);
+    replay.seek(event.timestamp.getTime());
+  };
+
+  return (
+    <div className="border-b border-amber-500/30 bg-amber-500/5">
+      <div className="max-w-[1400px] mx-auto px-4 py-3 space-y-3">
+
+        {/* Banner */}
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs">
+          <span className="text-amber-400 font-semibold tracking-wider">◷ REPLAY · NOT LIVE</span>
+          <span className="text-zinc-400">
+            {frame
+              ? <>Stored state at <span className="text-zinc-200 tabular-nums">{formatDateTime(frame.timestamp)}</span>
+                  {frame.resolution === 'hourly' && <span className="text-zinc-600"> (hourly average)</span>}</>
+              : timeline ? 'No stored history in this range' : 'Loading history...'}
+          </span>
+
+          <div className="flex items-center gap-2 ml-auto">
+            {REPLAY_RANGES.map(range => (
+              <button
+                key={range.label}
+                onClick={() => replay.setRangeMs(range.ms)}
+                className={`px-2 py-0.5 border text-[10px] transition-colors ${
+                  replay.rangeMs === range.ms
+                    ? 'border-amber-500/50 text-amber-400 bg-amber-500/10'
+                    : 'border-zinc-800 text-zinc-500 hover:border-zinc-700 hover:text-zinc-400'
+                }`}
+              >
+                {range.label.toUpperCase()}
+              </button>
+            ))}
+            <input
+              type="datetime-local"
+              aria-label="Go to time"
+              value={position !== null ? toLocalInputValue(position) : ''}
+              onChange={e => {
+                const time = new Date(e.target.value).getTime();
+                if (!isNaN(time)) replay.seek(time);
+              }}
+              className="bg-zinc-900 border border-zinc-800 text-zinc-400 text-[10px] px-1 py-0.5 [color-scheme:dark]"
+            />
+            <button
+              onClick={replay.stop}
+              className="px-2 py-0.5 border border-emerald-500/50 text-emerald-500 text-[10px] hover:bg-emerald-500/10 transition-colors"
+            >
+              BACK TO LIVE
+            </button>
+          </div>
+        </div>
+
+        {replay.error && <div className="text-red-400 text-xs">{replay.error}</div>}
+
+        {/* Scrubber */}
+        {span !== null && start !== undefined && position !== null && (
+          <div className="flex flex-wrap items-center gap-3 text-[10px]">
+            <button
+              onClick={togglePlay}
+              className="w-16 px-2 py-0.5 border border-zinc-700 text-zinc-300 hover:border-zinc-600 transition-colors"
+            >
+              {playing ? '❚❚ PAUSE' : '▶ PLAY'}
+            </button>
+
+            <div className="flex items-center gap-1">
+              {REPLAY_SPEEDS.map(s => (
+                <button
+                  key={s}
+                  onClick={() => replay.setSpeed(s)}
+                  className={`px-1.5 py-0.5 border tabular-nums transition-colors ${
+                    speed === s
+                      ? 'border-amber-500/50 text-amber-400'
+                      : 'border-zinc-800 text-zinc-600 hover:text-zinc-400'
+                  }`}
+                >
+                  {s}x
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => jumpTo(previousEvent)}
+                disabled={!previousEvent}
+                title={previousEvent ? describeEvent(previousEvent) : 'No earlier event'}
+                className="px-1.5 py-0.5 border border-zinc-800 text-zinc-500 hover:text-zinc-300 disabled:opacity-40 disabled:hover:text-zinc-500 transition-colors"
+              >
+                ◂ EVENT
+              </button>
+              <button
+                onClick={() => jumpTo(nextEvent)}
+                disabled={!nextEvent}
+                title={nextEvent ? describeEvent(nextEvent) : 'No later event'}
+                className="px-1.5 py-0.5 border border-zinc-800 text-zinc-500 hover:text-zinc-300 disabled:opacity-40 disabled:hover:text-zinc-500 transition-colors"
+              >
+                EVENT ▸
+              </button>
+            </div>
+
+            {/* Track with a marker per status transition */}
+            <div className="relative flex-1 min-w-[200px] pt-2">
+              <div className="absolute top-0 left-0 right-0 h-2">
+                {timeline!.events.map((event, i) => (
+                  <button
+                    key={`${event.signalId}-${i}`}
+                    onClick={() => jumpTo(event)}
+                    title={`${formatDateTime(event.timestamp)} · ${describeEvent(event)}`}
+                    className={`absolute top-0 w-1 h-2 -ml-0.5 ${statusColors[event.to]} opacity-70 hover:opacity-100`}
+                    style={{ left: `${((event.timestamp.getTime() - start) / span) * 100}%` }}
+                  />
+                ))}
+              </div>
+              <input
+                type="range"
+                aria-label="Replay position"
+                min={start}
+                max={start + span}
+                step={60 * 1000}
+                value={position}
+                onChange={e => replay.seek(Number(e.target.value))}
+                className="w-full accent-amber-500"
+              />
+            </div>
+
+            <span className="text-zinc-600 tabular-nums">
+              {frames.length} snapshots · {timeline!.events.length} events
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
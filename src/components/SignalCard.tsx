@@ -1,8 +1,10 @@
 'use client';
 
+import { useState } from 'react';
 import { Signal } from '@/types';
 import { REGION_LABELS } from '@/types';
-import { formatRelativeTime } from '@/lib/utils';
+import { formatRelativeTime, formatDataAge, getQualityColor, isDegraded } from '@/lib/utils';
+import { EvidenceDrawer } from './EvidenceDrawer';
 
 interface SignalCardProps {
   signal: Signal;
@@ -33,7 +35,33 @@ function ConfidenceMeter({ level }: { level: string }) {
   );
 }
 
+function describeBaseline({ metric, baseline }: Signal): string {
+  if (!baseline) return '';
+  const digits = Math.abs(baseline.mean) < 10 ? 2 : 1;
+  const label = metric ? `${metric.label}: ${metric.value.toFixed(digits)}\n` : '';
+  return `${label}${baseline.windowDays}-day mean ${baseline.mean.toFixed(digits)}, median ${baseline.median.toFixed(digits)}, σ ${baseline.stdDev.toFixed(digits)} (n=${baseline.sampleSize}, ${baseline.source})`;
+}
+
+function describeScoring({ scoringMode, baseline }: Signal): string {
+  if (scoringMode === 'anomaly' && baseline?.zScore != null) {
+    return `Anomaly score: z ${baseline.zScore.toFixed(2)} vs ${baseline.windowDays}-day distribution`;
+  }
+  return 'Formula score';
+}
+
+function describeQuality(signal: Signal): string {
+  const age = formatDataAge(signal);
+  const descriptions: Record<Signal['quality'], string> = {
+    live: 'Live data',
+    cached: 'Last good reading; the latest fetch failed',
+    stale: 'Upstream data is older than expected',
+    synthetic: 'Placeholder score with no upstream data; excluded from the index',
+  };
+  return `${descriptions[signal.quality]}${age ? ` (data age ${age})` : ''}`;
+}
+
 export function SignalCard({ signal, index }: SignalCardProps) {
+  const [showEvidence, setShowEvidence] = useState(false);
   const isHigh = signal.status === 'high';
   const isElevated = signal.status === 'elevated';
   const isFeatured = isHigh || (isElevated && index < 2);
@@ -59,7 +87,9 @@ export function SignalCard({ signal, index }: SignalCardProps) {
 
   return (
     <div
-      className={`border bg-zinc-900/20 transition-all duration-200 animate-fade-in ${statusBorders[signal.status]} ${colSpan}`}
+      className={`border bg-zinc-900/20 transition-all duration-200 animate-fade-in ${statusBorders[signal.status]} ${colSpan} ${
+        isDegraded(signal) ? 'opacity-60' : ''
+      }`}
       style={{ animationDelay: `${index * 30}ms` }}
     >
       <div className={isFeatured ? 'p-5' : 'p-4'}>
@@ -73,13 +103,32 @@ export function SignalCard({ signal, index }: SignalCardProps) {
               </h3>
               <div className="text-[10px] text-zinc-600 uppercase tracking-wider">
                 {REGION_LABELS[signal.region]}
+                {signal.quality !== 'live' && (
+                  <span className={`ml-2 ${getQualityColor(signal.quality)}`} title={describeQuality(signal)}>
+                    {signal.quality}
+                    {formatDataAge(signal) && ` · ${formatDataAge(signal)}`}
+                  </span>
+                )}
+                {signal.circuit && (
+                  <span
+                    className="ml-2 text-amber-500/80"
+                    title={signal.circuit === 'open'
+                      ? 'Source failing repeatedly; requests paused until the circuit resets'
+                      : 'Source recovering; next request is a trial'}
+                  >
+                    ⚡ circuit {signal.circuit}
+                  </span>
+                )}
               </div>
             </div>
           </div>
-          <div className="text-right flex-shrink-0">
+          <div className="text-right flex-shrink-0" title={describeScoring(signal)}>
             <div className={`font-bold tabular-nums ${statusColors[signal.status]} ${isFeatured ? 'text-3xl' : 'text-2xl'}`}>
               {signal.score}
             </div>
+            <div className="text-[9px] text-zinc-600 uppercase tracking-wider">
+              {signal.scoringMode === 'anomaly' ? 'z-score' : 'formula'}
+            </div>
           </div>
         </div>
 
@@ -92,7 +141,10 @@ export function SignalCard({ signal, index }: SignalCardProps) {
         <div className="flex items-center justify-between text-[10px] flex-wrap gap-2">
           <div className="flex items-center gap-4">
             {/* Delta */}
-            <div className="flex items-center gap-1.5">
+            <div
+              className="flex items-center gap-1.5"
+              title={signal.baseline ? describeBaseline(signal) : undefined}
+            >
               <span className="text-zinc-600">Δ</span>
               <span className={`font-mono ${
                 signal.baselineComparison.startsWith('+')
@@ -110,6 +162,16 @@ export function SignalCard({ signal, index }: SignalCardProps) {
               <span className="text-zinc-600">CONF</span>
               <ConfidenceMeter level={signal.confidence} />
             </div>
+
+            {/* Evidence */}
+            {signal.evidence && signal.evidence.length > 0 && (
+              <button
+                onClick={() => setShowEvidence(true)}
+                className="text-zinc-500 hover:text-zinc-300 uppercase tracking-wider transition-colors"
+              >
+                Evidence ({signal.evidence.length})
+              </button>
+            )}
           </div>
 
           {/* Source + Time */}
@@ -126,6 +188,8 @@ export function SignalCard({ signal, index }: SignalCardProps) {
           </div>
         </div>
       </div>
+
+      {showEvidence && <EvidenceDrawer signal={signal} onClose={() => setShowEvidence(false)} />}
     </div>
   );
 }
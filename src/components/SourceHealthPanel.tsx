@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import { SourceHealth, CATEGORY_LABELS } from '@/types';
+import { useSourceHealth } from '@/lib/hooks';
+import { formatRelativeTime } from '@/lib/utils';
+
+const RANGES = [
+  { label: '1H', ms: 60 * 60 * 1000 },
+  { label: '24H', ms: 24 * 60 * 60 * 1000 },
+  { label: '7D', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+function healthState(source: SourceHealth): { label: string; color: string } {
+  if (!source.enabled) return { label: 'DISABLED', color: 'text-zinc-600' };
+  if (source.circuit !== 'closed') return { label: `CIRCUIT ${source.circuit.toUpperCase()}`, color: 'text-red-400' };
+  if (source.inFallback) return { label: 'FALLBACK', color: 'text-amber-400' };
+  if (source.cycles === 0) return { label: 'PENDING', color: 'text-zinc-500' };
+  return { label: 'OK', color: 'text-emerald-400' };
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+export function SourceHealthPanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [rangeMs, setRangeMs] = useState(RANGES[1].ms);
+  const { data, error } = useSourceHealth(rangeMs, isOpen);
+
+  const degraded = data?.sources.filter(s => s.enabled && (s.inFallback || s.circuit !== 'closed')).length ?? 0;
+
+  return (
+    <div className="border border-zinc-800 bg-zinc-900/20">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between p-4 text-xs text-zinc-500 hover:text-zinc-400 transition-colors"
+      >
+        <span>{isOpen ? '▾' : '▸'} SOURCE_HEALTH</span>
+        {data && (
+          <span className={degraded > 0 ? 'text-amber-400' : 'text-emerald-500'}>
+            {degraded > 0 ? `${degraded} DEGRADED` : 'ALL OK'}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4">
+          {error && <div className="text-red-400 text-xs mb-3">{error}</div>}
+          {!data && !error && <div className="text-zinc-600 text-xs">Loading...</div>}
+
+          {data && (
+            <>
+              <div className="overflow-x-auto">
+                <table className="w-full text-[10px] text-left">
+                  <thead className="text-zinc-600 uppercase tracking-wider">
+                    <tr className="border-b border-zinc-800">
+                      <th className="py-2 pr-3 font-normal">Source</th>
+                      <th className="py-2 pr-3 font-normal">State</th>
+                      <th className="py-2 pr-3 font-normal">Last success</th>
+                      <th className="py-2 pr-3 font-normal">Last error</th>
+                      <th className="py-2 pr-3 font-normal text-right">Fail rate</th>
+                      <th className="py-2 font-normal text-right">Avg latency</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.sources.map(source => {
+                      const state = healthState(source);
+                      return (
+                        <tr key={source.sourceId} className="border-b border-zinc-800/50 align-top">
+                          <td className="py-2 pr-3">
+                            <div className="text-zinc-300">{source.sourceName}</div>
+                            <div className="text-zinc-600">{CATEGORY_LABELS[source.category]}</div>
+                          </td>
+                          <td className={`py-2 pr-3 ${state.color}`}>{state.label}</td>
+                          <td className="py-2 pr-3 text-zinc-400">
+                            {source.lastSuccess ? formatRelativeTime(source.lastSuccess) : '—'}
+                          </td>
+                          <td className="py-2 pr-3 text-zinc-500 max-w-[240px]">
+                            {source.lastError ? (
+                              <span title={source.lastError.message}>
+                                <span className="text-amber-500/80 uppercase">{source.lastError.errorType}</span>
+                                {' · '}
+                                {formatRelativeTime(source.lastError.timestamp)}
+                                <div className="truncate text-zinc-600">{source.lastError.message}</div>
+                              </span>
+                            ) : '—'}
+                          </td>
+                          <td className="py-2 pr-3 text-right tabular-nums text-zinc-400">
+                            {formatRate(source.failureRate)}
+                            <span className="text-zinc-700"> /{source.cycles}</span>
+                          </td>
+                          <td className="py-2 text-right tabular-nums text-zinc-400">
+                            {source.avgLatencyMs === null ? '—' : `${source.avgLatencyMs}ms`}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Persisted error log */}
+              <div className="mt-4">
+                <div className="flex items-center justify-between mb-2 text-[10px]">
+                  <span className="text-zinc-600 uppercase tracking-wider">
+                    Errors ({data.totalErrors})
+                  </span>
+                  <div className="flex gap-1">
+                    {RANGES.map(range => (
+                      <button
+                        key={range.label}
+                        onClick={() => setRangeMs(range.ms)}
+                        className={`px-2 py-0.5 border transition-colors ${
+                          rangeMs === range.ms
+                            ? 'border-emerald-500/50 text-emerald-500 bg-emerald-500/10'
+                            : 'border-zinc-800 text-zinc-500 hover:border-zinc-700'
+                        }`}
+                      >
+                        {range.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {data.errors.length === 0 ? (
+                  <div className="text-zinc-600 text-[10px]">No errors in this range</div>
+                ) : (
+                  <ul className="max-h-48 overflow-y-auto font-mono text-[10px] space-y-1">
+                    {data.errors.map((err, i) => (
+                      <li key={`${err.sourceId}-${err.timestamp.getTime()}-${i}`} className="text-zinc-500">
+                        <span className="text-zinc-600">{err.timestamp.toISOString().slice(5, 19).replace('T', ' ')}</span>
+                        {' '}
+                        <span className="text-amber-500/80">{err.errorType}</span>
+                        {' '}
+                        <span className="text-zinc-400">{err.sourceName}</span>
+                        {': '}
+                        {err.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { Signal } from '@/types';
+import { getTopDrivers, getQualityColor } from '@/lib/utils';
 
 interface TopDriversProps {
   signals: Signal[];
@@ -13,11 +14,7 @@ function getContribution(signal: Signal, total: number): number {
 }
 
 export function TopDrivers({ signals }: TopDriversProps) {
-  // Get top 3 drivers by deviation from baseline (furthest from 50)
-  const drivers = [...signals]
-    .map(s => ({ ...s, deviation: Math.abs(s.score - 50) }))
-    .sort((a, b) => b.deviation - a.deviation)
-    .slice(0, 3);
+  const drivers = getTopDrivers(signals);
 
   const totalDeviation = drivers.reduce((sum, d) => sum + d.deviation, 0) || 1;
 
@@ -64,6 +61,11 @@ export function TopDrivers({ signals }: TopDriversProps) {
             <div className="text-sm text-zinc-200 font-medium mb-1 truncate">
               {driver.name}
             </div>
+            {driver.quality !== 'live' && (
+              <div className={`text-[10px] uppercase tracking-wider ${getQualityColor(driver.quality)}`}>
+                {driver.quality}
+              </div>
+            )}
 
             {/* Contribution bar */}
             <div className="mt-3">
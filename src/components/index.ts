@@ -7,3 +7,9 @@ export { StatusBadge, ConfidenceBadge } from './StatusBadge';
 export { ErrorState } from './ErrorState';
 export { HeatMap } from './HeatMap';
 export { TopDrivers } from './TopDrivers';
+export { SourceHealthPanel } from './SourceHealthPanel';
+export { EvidenceDrawer } from './EvidenceDrawer';
+export { CountryRiskPanel } from './CountryRiskPanel';
+export { ReplayBar } from './ReplayBar';
+export { ExportMenu } from './ExportMenu';
+export { Briefing } from './Briefing';
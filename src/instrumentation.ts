@@ -0,0 +1,12 @@
+/**
+ * Next.js server start hook
+ * Runs the snapshot cycle (history and alert rules) in the background so
+ * alerts fire with no dashboard open. BACKGROUND_REFRESH=off disables it,
+ * e.g. on serverless hosts where nothing outlives a request.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.BACKGROUND_REFRESH === 'off') return;
+
+  const { startBackgroundRefresh } = await import('./lib/snapshot');
+  startBackgroundRefresh();
+}
@@ -0,0 +1,164 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AlertCondition, AlertRule, Region, REGION_LABELS, Signal, SignalSnapshot } from '@/types';
+import { evaluateAlertRules, processAlerts, resetAlertState } from './alerts';
+import { MemoryHistoryStore } from './history';
+import { scoreToStatus } from './sources';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const MINUTE = 60 * 1000;
+
+function signal(id: string, score: number, overrides: Partial<Signal> = {}): Signal {
+  return {
+    id,
+    name: id.toUpperCase(),
+    region: 'global',
+    status: scoreToStatus(score),
+    score,
+    explanation: `score ${score}`,
+    baselineComparison: '',
+    confidence: 'high',
+    sourceUrl: 'https://example.com',
+    sourceName: 'Example',
+    lastUpdated: NOW,
+    category: 'markets',
+    scoringMode: 'formula',
+    quality: 'live',
+    observedAt: NOW,
+    ...overrides,
+  };
+}
+
+function snapshot(signals: Signal[], globalScore = 40, generatedAt = NOW): SignalSnapshot {
+  return {
+    signals,
+    globalRisk: { score: globalScore, trend: 'stable', lastUpdated: generatedAt, signalCount: signals.length },
+    generatedAt,
+    openCircuits: [],
+  };
+}
+
+function rule(condition: AlertCondition, cooldownMs = 30 * MINUTE): AlertRule {
+  return { id: `rule-${condition.type}`, name: condition.type, condition, cooldownMs };
+}
+
+const ids = (signals: Signal[]) => signals.map(s => s.id);
+
+describe('evaluateAlertRules', () => {
+  afterEach(() => resetAlertState());
+
+  it('fires global-threshold above the score and passes the non-normal signals', async () => {
+    const signals = [signal('vix', 80), signal('oil', 20), signal('gold', 50)];
+    const threshold = rule({ type: 'global-threshold', above: 70 });
+
+    assert.deepEqual(await evaluateAlertRules({ snapshot: snapshot(signals, 70) }, [threshold]), []);
+    const [event] = await evaluateAlertRules({ snapshot: snapshot(signals, 71) }, [threshold]);
+    assert.deepEqual(ids(event.signals), ['vix', 'gold']);
+  });
+
+  it('fires signal-status at or above the status and ignores degraded readings', async () => {
+    const high = rule({ type: 'signal-status', signalId: 'vix', status: 'high' });
+
+    assert.equal((await evaluateAlertRules({ snapshot: snapshot([signal('vix', 50)]) }, [high])).length, 0);
+    assert.equal((await evaluateAlertRules({ snapshot: snapshot([signal('vix', 90, { quality: 'synthetic' })]) }, [high])).length, 0);
+
+    const [event] = await evaluateAlertRules({ snapshot: snapshot([signal('vix', 90)]) }, [high]);
+    assert.equal(event.dedupKey, 'rule-signal-status:vix:high');
+    assert.deepEqual(ids(event.signals), ['vix']);
+  });
+
+  it('fires regional-rise only for a rise within the window', async () => {
+    const history = new MemoryHistoryStore();
+    const regions = Object.keys(REGION_LABELS) as Region[];
+    const stored = (minutesAgo: number, score: number) => ({
+      timestamp: new Date(NOW.getTime() - minutesAgo * MINUTE),
+      resolution: 'raw' as const,
+      sampleCount: 1,
+      globalRisk: { score: 40, trend: 'stable' as const, lastUpdated: NOW, signalCount: 1 },
+      regionalScores: Object.fromEntries(regions.map(r => [r, score])) as Record<Region, number>,
+      countryScores: {},
+      signals: [],
+    });
+    await history.append(stored(90, 10)); // outside the hour
+    await history.append(stored(45, 30));
+
+    const rise = (points: number) => rule({ type: 'regional-rise', region: 'middle-east', points, withinMs: 60 * MINUTE });
+    const current = snapshot([signal('gdelt', 50, { region: 'middle-east' })]);
+
+    assert.equal((await evaluateAlertRules({ snapshot: current, history }, [rise(25)])).length, 0);
+    const [event] = await evaluateAlertRules({ snapshot: current, history }, [rise(20)]);
+    assert.match(event.message, /Middle East risk rose 20 points to 50 within 60 min/);
+    assert.deepEqual(ids(event.signals), ['gdelt']);
+  });
+
+  it('fires region-cluster on enough located signals at the minimum status', async () => {
+    const cluster = rule({ type: 'region-cluster', region: 'europe', minSignals: 2, minStatus: 'elevated' });
+    const signals = [
+      signal('quakes', 70, { region: 'europe' }),
+      signal('outages', 30, { region: 'europe' }),
+      signal('vix', 90), // global signals don't count toward a region
+    ];
+
+    assert.equal((await evaluateAlertRules({ snapshot: snapshot(signals) }, [cluster])).length, 0);
+
+    signals.push(signal('flights', 50, { region: 'europe' }));
+    const [event] = await evaluateAlertRules({ snapshot: snapshot(signals) }, [cluster]);
+    assert.deepEqual(ids(event.signals), ['quakes', 'flights']);
+    assert.equal(event.dedupKey, 'rule-region-cluster:flights,quakes');
+  });
+
+  it('suppresses the same dedup key during the cooldown', async () => {
+    const high = rule({ type: 'signal-status', signalId: 'vix', status: 'elevated' }, 30 * MINUTE);
+    const at = (minutes: number, score: number) =>
+      evaluateAlertRules({ snapshot: snapshot([signal('vix', score)], 40, new Date(NOW.getTime() + minutes * MINUTE)) }, [high]);
+
+    assert.equal((await at(0, 50)).length, 1);
+    assert.equal((await at(10, 50)).length, 0);
+    // Escalating to high is a new dedup key
+    assert.equal((await at(11, 80)).length, 1);
+    assert.equal((await at(30, 50)).length, 1);
+  });
+
+  it('skips disabled rules', async () => {
+    const disabled = { ...rule({ type: 'global-threshold', above: 0 }), enabled: false };
+    assert.deepEqual(await evaluateAlertRules({ snapshot: snapshot([]) }, [disabled]), []);
+  });
+});
+
+describe('processAlerts', () => {
+  afterEach(() => resetAlertState());
+
+  it('delivers the alert with its triggering signals to a webhook receiver', async () => {
+    const received: { method?: string; contentType?: string; body: Record<string, unknown> }[] = [];
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ method: req.method, contentType: req.headers['content-type'], body: JSON.parse(body) });
+        res.writeHead(204).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const high = {
+        ...rule({ type: 'signal-status', signalId: 'vix', status: 'high' }),
+        webhookUrl: `http://127.0.0.1:${port}/hook`,
+      };
+      await processAlerts({ snapshot: snapshot([signal('vix', 90), signal('oil', 80)]) }, [high]);
+
+      assert.equal(received.length, 1);
+      const [{ method, contentType, body }] = received;
+      assert.equal(method, 'POST');
+      assert.equal(contentType, 'application/json');
+      assert.equal(body.type, 'alert');
+      assert.equal(body.ruleId, 'rule-signal-status');
+      assert.deepEqual((body.signals as Signal[]).map(s => [s.id, s.score]), [['vix', 90]]);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
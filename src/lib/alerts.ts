@@ -0,0 +1,202 @@
+/**
+ * Rule-based alerting
+ * Rules are checked against every fresh snapshot; matches are delivered
+ * as JSON webhooks. Cooldowns are tracked per dedup key in memory.
+ */
+
+import { AlertRule, AlertCondition, AlertEvent, Signal, SignalSnapshot, REGION_LABELS } from '@/types';
+import { ALERT_RULES } from './config';
+import { calculateRegionalRisk, filterSignalsByRegion } from './signals';
+import { HistoryStore, getRegionHistory } from './history';
+import { isDegraded, STATUS_RANK } from './utils';
+
+const WEBHOOK_TIMEOUT = 5000;
+const MAX_RECENT_ALERTS = 50;
+
+interface RuleMatch {
+  dedupKey: string;
+  message: string;
+  signals: Signal[];
+}
+
+interface EvaluationContext {
+  snapshot: SignalSnapshot;
+  history?: HistoryStore;
+}
+
+const lastFired = new Map<string, number>();
+const recentAlerts: AlertEvent[] = [];
+
+function bySeverity(a: Signal, b: Signal): number {
+  return b.score - a.score;
+}
+
+async function matchCondition(
+  rule: AlertRule,
+  condition: AlertCondition,
+  { snapshot, history }: EvaluationContext
+): Promise<RuleMatch | null> {
+  const { signals, globalRisk } = snapshot;
+  // Placeholder readings must not trigger signal-level rules
+  const realSignals = signals.filter(s => !isDegraded(s));
+
+  switch (condition.type) {
+    case 'global-threshold': {
+      if (globalRisk.score <= condition.above) return null;
+      return {
+        dedupKey: rule.id,
+        message: `Global risk ${globalRisk.score} is above ${condition.above}`,
+        signals: realSignals.filter(s => s.status !== 'normal').sort(bySeverity),
+      };
+    }
+
+    case 'signal-status': {
+      const signal = realSignals.find(s => s.id === condition.signalId);
+      if (!signal || STATUS_RANK[signal.status] < STATUS_RANK[condition.status]) return null;
+      return {
+        dedupKey: `${rule.id}:${signal.id}:${signal.status}`,
+        message: `${signal.name} is ${signal.status} (${signal.score})`,
+        signals: [signal],
+      };
+    }
+
+    case 'regional-rise': {
+      if (!history) return null;
+      const now = snapshot.generatedAt;
+      const points = await getRegionHistory(history, condition.region, {
+        from: new Date(now.getTime() - condition.withinMs),
+        to: now,
+      });
+      if (points.length === 0) return null;
+
+      const current = condition.region === 'global'
+        ? globalRisk.score
+        : calculateRegionalRisk(signals, condition.region);
+      const low = Math.min(...points.map(p => p.score));
+      if (current - low < condition.points) return null;
+
+      const minutes = Math.round(condition.withinMs / 60000);
+      return {
+        dedupKey: `${rule.id}:${condition.region}`,
+        message: `${REGION_LABELS[condition.region]} risk rose ${current - low} points to ${current} within ${minutes} min`,
+        signals: filterSignalsByRegion(signals, condition.region).filter(s => s.status !== 'normal').sort(bySeverity),
+      };
+    }
+
+    case 'region-cluster': {
+      // Only signals located in the region count; global ones would match everywhere.
+      // Multi-location signals count with their regional component.
+      const matching = filterSignalsByRegion(realSignals, condition.region)
+        .filter(s => s.region === condition.region && STATUS_RANK[s.status] >= STATUS_RANK[condition.minStatus])
+        .sort(bySeverity);
+      if (matching.length < condition.minSignals) return null;
+      return {
+        dedupKey: `${rule.id}:${matching.map(s => s.id).sort().join(',')}`,
+        message: `${matching.length} signals ${condition.minStatus} or worse in ${REGION_LABELS[condition.region]}`,
+        signals: matching,
+      };
+    }
+  }
+}
+
+/**
+ * Evaluate rules against a snapshot, applying cooldowns. Returns the alerts
+ * that fired; cooldown state is updated for each of them.
+ */
+export async function evaluateAlertRules(
+  context: EvaluationContext,
+  rules: AlertRule[] = ALERT_RULES
+): Promise<AlertEvent[]> {
+  const fired: AlertEvent[] = [];
+  const now = context.snapshot.generatedAt;
+
+  for (const rule of rules) {
+    if (rule.enabled === false) continue;
+
+    let match: RuleMatch | null;
+    try {
+      match = await matchCondition(rule, rule.condition, context);
+    } catch (error) {
+      console.error(`Alert rule ${rule.id} failed:`, error);
+      continue;
+    }
+    if (!match) continue;
+
+    const previous = lastFired.get(match.dedupKey);
+    if (previous !== undefined && now.getTime() - previous < rule.cooldownMs) continue;
+    lastFired.set(match.dedupKey, now.getTime());
+
+    fired.push({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      dedupKey: match.dedupKey,
+      message: match.message,
+      firedAt: now,
+      condition: rule.condition,
+      globalRisk: context.snapshot.globalRisk,
+      signals: match.signals,
+    });
+  }
+
+  return fired;
+}
+
+/**
+ * POST an alert as JSON. Returns false when there is no URL or delivery failed.
+ * Uses plain fetch, not the source transport: fixture replay must not fake
+ * or swallow a side effect.
+ */
+export async function sendWebhook(event: AlertEvent, url: string | undefined): Promise<boolean> {
+  if (!url) return false;
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'User-Agent': 'DeltaIntelligence/1.0' },
+      body: JSON.stringify({ type: 'alert', ...event }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+    });
+    if (!response.ok) {
+      console.error(`Alert webhook for ${event.ruleId} returned ${response.status}`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error(`Alert webhook for ${event.ruleId} failed:`, error);
+    return false;
+  }
+}
+
+/**
+ * Evaluate the configured rules and deliver webhooks. Never throws.
+ */
+export async function processAlerts(context: EvaluationContext, rules: AlertRule[] = ALERT_RULES) {
+  try {
+    const events = await evaluateAlertRules(context, rules);
+
+    await Promise.all(events.map(event => {
+      recentAlerts.push(event);
+      if (recentAlerts.length > MAX_RECENT_ALERTS) recentAlerts.shift();
+
+      const rule = rules.find(r => r.id === event.ruleId);
+      return sendWebhook(event, rule?.webhookUrl || process.env.ALERT_WEBHOOK_URL);
+    }));
+  } catch (error) {
+    console.error('Alert processing error:', error);
+  }
+}
+
+/**
+ * Recently fired alerts, newest last
+ */
+export function getRecentAlerts(): AlertEvent[] {
+  return [...recentAlerts];
+}
+
+/**
+ * Forget cooldown state (e.g. between test runs)
+ */
+export function resetAlertState() {
+  lastFired.clear();
+  recentAlerts.length = 0;
+}
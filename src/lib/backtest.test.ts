@@ -0,0 +1,100 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { evaluateSeries, parseIncidents, runBacktest } from './backtest';
+import { RawArchive, readRawArchive } from './raw-archive';
+import { SignalSource } from './sources';
+
+const HOUR = 60 * 60 * 1000;
+const START = new Date('2026-10-10T00:00:00Z');
+const hour = (n: number) => new Date(START.getTime() + n * HOUR);
+
+const source: SignalSource<{ score: number }> = {
+  id: 'vix',
+  name: 'VIX',
+  category: 'markets',
+  defaultRegion: 'global',
+  refreshInterval: HOUR,
+  sourceName: 'Test',
+  sourceUrl: 'https://example.com',
+  fetch: async () => ({ score: 0 }),
+  normalize: raw => ({ score: raw.score, explanation: '', baselineComparison: '', confidence: 'high' }),
+  fallback: { mode: 'omit' },
+};
+
+// Hourly readings over four days: two runs in the high band, at hours
+// 30-32 (four hours before the first incident) and 68-69 (no incident)
+const scoreAt = (n: number) => ((n >= 30 && n <= 32) || (n >= 68 && n <= 69) ? 80 : 20);
+
+const incidents = parseIncidents([
+  { id: 'detected', start: hour(34).toISOString(), end: hour(40).toISOString() },
+  { id: 'missed', start: hour(84).toISOString(), end: hour(90).toISOString(), signals: ['vix'] },
+  { id: 'elsewhere', start: hour(68).toISOString(), signals: ['oil'] },
+]);
+
+const OPTIONS = { stepMs: HOUR, threshold: 65, leadWindowMs: 12 * HOUR };
+
+describe('runBacktest', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'backtest-'));
+    const archive = new RawArchive(dir);
+    for (let n = 0; n < 96; n++) archive.recordRaw('vix', hour(n), { score: scoreAt(n) });
+    await archive.flush();
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('scores hits, misses, false alarms and lead time from an archive', async () => {
+    const range = { from: hour(0), to: hour(95) };
+    const report = runBacktest(await readRawArchive(dir, range), incidents, { range, ...OPTIONS }, [source]);
+    const vix = report.series.find(s => s.series === 'signal:vix')!;
+
+    assert.equal(report.frames, 96);
+    assert.equal(vix.steps, 96);
+    assert.equal(vix.alarms, 2);
+    assert.equal(vix.falseAlarms, 1);
+    assert.equal(vix.precision, 0.5);
+    assert.equal(vix.incidents, 2); // 'elsewhere' is for another signal
+    assert.equal(vix.detected, 1);
+    assert.equal(vix.recall, 0.5);
+    assert.equal(vix.medianLeadMs, 4 * HOUR);
+  });
+
+  it('leaves out steps once the latest response is stale', async () => {
+    const range = { from: hour(0), to: hour(95) };
+    const archive = await readRawArchive(dir, { to: hour(47) }); // no responses for the last two days
+    const report = runBacktest(archive, [], { range, ...OPTIONS }, [source]);
+
+    // Stale after three refresh intervals
+    assert.equal(report.series.find(s => s.series === 'signal:vix')!.steps, 51);
+  });
+});
+
+describe('evaluateSeries', () => {
+  const incident = parseIncidents([{ id: 'i', start: hour(10).toISOString(), end: hour(12).toISOString() }]);
+  const points = (high: number[]) =>
+    Array.from({ length: 24 }, (_, n) => ({ time: hour(n).getTime(), score: high.includes(n) ? 90 : 10 }));
+
+  it('counts an alarm after the start as detected with a negative lead', () => {
+    const report = evaluateSeries('s', points([11, 12]), incident, OPTIONS);
+    assert.equal(report.detected, 1);
+    assert.equal(report.medianLeadMs, -HOUR);
+  });
+
+  it('caps the lead at the lead window for an alarm that started earlier', () => {
+    const report = evaluateSeries('s', points([0, 1, 2, 3]), incident, { ...OPTIONS, leadWindowMs: 8 * HOUR });
+    assert.equal(report.falseAlarms, 0);
+    assert.equal(report.medianLeadMs, 8 * HOUR);
+  });
+
+  it('has no precision without alarms and no recall without incidents', () => {
+    const report = evaluateSeries('s', points([]), [], OPTIONS);
+    assert.equal(report.precision, null);
+    assert.equal(report.recall, null);
+    assert.equal(report.medianLeadMs, null);
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Backtesting
+ * Replays archived raw responses (raw-archive.ts) through the current
+ * normalize() formulas and scores the resulting global, regional and
+ * per-signal series against a labelled list of historical incidents.
+ *
+ * An alarm is a run of steps at or above the threshold. It is a true alarm
+ * when it overlaps a relevant incident's window (leadWindow before the
+ * start through the end), otherwise a false alarm. An incident is detected
+ * when any alarm overlaps its window; lead time is incident start minus
+ * alarm start (negative when the alarm came after the start). Scoring is
+ * formula-only: anomaly mode depends on stored history, not raw responses.
+ */
+
+import { Region, Signal, REGION_LABELS } from '@/types';
+import { SignalSource, getRegisteredSources, getRefreshInterval, toSignal } from './sources';
+import { calculateGlobalRisk, calculateRegionalRisk } from './signals';
+import { DATA_QUALITY } from './config';
+import { ArchivedResponse } from './raw-archive';
+import { TimeRange } from './history';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface Incident {
+  id: string;
+  name: string;
+  start: Date;
+  end: Date;
+  regions?: Region[]; // regional series expected to react; global always does
+  signals?: string[]; // signal ids expected to react; omitted means all
+}
+
+export interface BacktestOptions {
+  range: TimeRange;
+  stepMs: number;
+  threshold: number; // alarm when a score is at or above this
+  leadWindowMs: number; // how early an alarm may come and still count
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: Omit<BacktestOptions, 'range'> = {
+  stepMs: HOUR_MS,
+  threshold: 65, // the "high" band
+  leadWindowMs: 72 * HOUR_MS,
+};
+
+export interface BacktestFrame {
+  timestamp: Date;
+  global: number;
+  regional: Record<Exclude<Region, 'global'>, number>;
+  signals: Record<string, number>; // signal id → score, signals with data only
+}
+
+export interface SeriesReport {
+  series: string; // "global", "region:<region>" or "signal:<id>"
+  steps: number; // steps with data
+  alarms: number;
+  falseAlarms: number;
+  falseAlarmsPer30d: number;
+  precision: number | null; // true alarms / alarms; null without alarms
+  incidents: number; // relevant incidents with data in their window
+  detected: number;
+  recall: number | null; // detected / incidents; null without incidents
+  medianLeadMs: number | null;
+}
+
+export interface BacktestReport {
+  range: TimeRange;
+  options: Omit<BacktestOptions, 'range'>;
+  frames: number;
+  normalizeErrors: Record<string, number>; // source id → responses that failed to score
+  series: SeriesReport[];
+}
+
+/**
+ * Parse a labelled incident list (JSON array; dates as ISO strings, end
+ * defaults to 24h after start)
+ */
+export function parseIncidents(json: unknown): Incident[] {
+  if (!Array.isArray(json)) throw new Error('Incidents file must be a JSON array');
+
+  return json.map((entry, i) => {
+    const start = new Date(entry?.start);
+    const end = entry?.end ? new Date(entry.end) : new Date(start.getTime() + DAY_MS);
+    if (!entry?.id || isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+      throw new Error(`Incident ${i}: needs an id, a valid start and an end after it`);
+    }
+    return {
+      id: String(entry.id),
+      name: String(entry.name ?? entry.id),
+      start,
+      end,
+      ...(Array.isArray(entry.regions) && { regions: entry.regions }),
+      ...(Array.isArray(entry.signals) && { signals: entry.signals }),
+    };
+  });
+}
+
+// ============================================
+// Replay
+// ============================================
+
+/**
+ * Score series from archived responses: at each step every source uses its
+ * latest response, as long as it is not yet stale
+ */
+export function replayArchive(
+  archive: Map<string, ArchivedResponse[]>,
+  options: Pick<BacktestOptions, 'range' | 'stepMs'>,
+  sources: SignalSource[] = getRegisteredSources()
+): { frames: BacktestFrame[]; normalizeErrors: Record<string, number> } {
+  const normalizeErrors: Record<string, number> = {};
+  const scored = new Map<ArchivedResponse, Signal | null>();
+
+  const score = (source: SignalSource, response: ArchivedResponse): Signal | null => {
+    if (!scored.has(response)) {
+      try {
+        const signal = toSignal(source, source.normalize(response.raw));
+        scored.set(response, { ...signal, lastUpdated: response.fetchedAt, observedAt: response.fetchedAt });
+      } catch {
+        normalizeErrors[source.id] = (normalizeErrors[source.id] ?? 0) + 1;
+        scored.set(response, null);
+      }
+    }
+    return scored.get(response)!;
+  };
+
+  const tracks = sources.flatMap(source => {
+    const responses = archive.get(source.id);
+    if (!responses?.length) return [];
+    const maxAge = source.maxDataAge ?? getRefreshInterval(source) * DATA_QUALITY.staleIntervals;
+    return [{ source, responses, maxAge, next: 0 }];
+  });
+
+  const regions = (Object.keys(REGION_LABELS) as Region[]).filter(
+    (r): r is Exclude<Region, 'global'> => r !== 'global'
+  );
+  const frames: BacktestFrame[] = [];
+
+  for (let time = options.range.from.getTime(); time <= options.range.to.getTime(); time += options.stepMs) {
+    const signals: Signal[] = [];
+
+    for (const track of tracks) {
+      // Responses are time-ordered, so each track only moves forward
+      while (track.next < track.responses.length && track.responses[track.next].fetchedAt.getTime() <= time) {
+        track.next++;
+      }
+      const latest = track.responses[track.next - 1];
+      if (!latest || time - latest.fetchedAt.getTime() > track.maxAge) continue;
+
+      const signal = score(track.source, latest);
+      if (signal) signals.push(signal);
+    }
+
+    frames.push({
+      timestamp: new Date(time),
+      global: calculateGlobalRisk(signals).score,
+      regional: Object.fromEntries(regions.map(r => [r, calculateRegionalRisk(signals, r)])) as BacktestFrame['regional'],
+      signals: Object.fromEntries(signals.map(s => [s.id, s.score])),
+    });
+  }
+
+  return { frames, normalizeErrors };
+}
+
+// ============================================
+// Evaluation
+// ============================================
+interface SeriesPoint {
+  time: number;
+  score: number;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Alarms, false alarms, precision/recall and lead time for one series
+ */
+export function evaluateSeries(
+  series: string,
+  points: SeriesPoint[],
+  incidents: Incident[],
+  options: Omit<BacktestOptions, 'range'>
+): SeriesReport {
+  // Consecutive steps at or above the threshold form one alarm
+  const alarms: { start: number; end: number }[] = [];
+  let previous: SeriesPoint | null = null;
+  for (const point of points) {
+    if (point.score >= options.threshold) {
+      const last = alarms[alarms.length - 1];
+      const continues = previous && previous.score >= options.threshold && point.time - previous.time <= options.stepMs;
+      if (last && continues) last.end = point.time;
+      else alarms.push({ start: point.time, end: point.time });
+    }
+    previous = point;
+  }
+
+  const windows = incidents
+    .map(incident => ({
+      from: incident.start.getTime() - options.leadWindowMs,
+      to: incident.end.getTime(),
+      start: incident.start.getTime(),
+    }))
+    .filter(w => points.some(p => p.time >= w.from && p.time <= w.to));
+
+  const overlaps = (alarm: { start: number; end: number }, w: { from: number; to: number }) =>
+    alarm.start <= w.to && alarm.end >= w.from;
+
+  const falseAlarms = alarms.filter(alarm => !windows.some(w => overlaps(alarm, w))).length;
+
+  const leads = windows.flatMap(w => {
+    const first = alarms.find(alarm => overlaps(alarm, w));
+    return first ? [w.start - Math.max(first.start, w.from)] : [];
+  });
+
+  const spanDays = points.length > 1 ? (points[points.length - 1].time - points[0].time) / DAY_MS : 0;
+
+  return {
+    series,
+    steps: points.length,
+    alarms: alarms.length,
+    falseAlarms,
+    falseAlarmsPer30d: spanDays > 0 ? Math.round((falseAlarms / spanDays) * 30 * 10) / 10 : 0,
+    precision: alarms.length > 0 ? (alarms.length - falseAlarms) / alarms.length : null,
+    incidents: windows.length,
+    detected: leads.length,
+    recall: windows.length > 0 ? leads.length / windows.length : null,
+    medianLeadMs: median(leads),
+  };
+}
+
+/**
+ * Replay the archive and evaluate the global, regional and per-signal series
+ */
+export function runBacktest(
+  archive: Map<string, ArchivedResponse[]>,
+  incidents: Incident[],
+  options: BacktestOptions,
+  sources?: SignalSource[]
+): BacktestReport {
+  const { range, ...evaluation } = options;
+  const { frames, normalizeErrors } = replayArchive(archive, options, sources);
+
+  const globalPoints = frames.map(f => ({ time: f.timestamp.getTime(), score: f.global }));
+  const series: SeriesReport[] = [evaluateSeries('global', globalPoints, incidents, evaluation)];
+
+  for (const region of Object.keys(frames[0]?.regional ?? {}) as Exclude<Region, 'global'>[]) {
+    const points = frames.map(f => ({ time: f.timestamp.getTime(), score: f.regional[region] }));
+    const relevant = incidents.filter(i => i.regions?.includes(region));
+    series.push(evaluateSeries(`region:${region}`, points, relevant, evaluation));
+  }
+
+  const signalIds = [...new Set(frames.flatMap(f => Object.keys(f.signals)))].sort();
+  for (const id of signalIds) {
+    const points = frames
+      .filter(f => f.signals[id] !== undefined)
+      .map(f => ({ time: f.timestamp.getTime(), score: f.signals[id] }));
+    const relevant = incidents.filter(i => !i.signals || i.signals.includes(id));
+    series.push(evaluateSeries(`signal:${id}`, points, relevant, evaluation));
+  }
+
+  return { range, options: evaluation, frames: frames.length, normalizeErrors, series };
+}
+
+// ============================================
+// Reporting
+// ============================================
+function formatRatio(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function formatLead(ms: number | null): string {
+  if (ms === null) return '—';
+  const hours = ms / HOUR_MS;
+  return `${hours >= 0 ? '+' : ''}${hours.toFixed(1)}h`;
+}
+
+/**
+ * Plain-text table, one row per series
+ */
+export function formatReport(report: BacktestReport): string {
+  const header = ['series', 'steps', 'alarms', 'false', 'FA/30d', 'precision', 'detected', 'recall', 'median lead'];
+  const rows = report.series.map(s => [
+    s.series,
+    String(s.steps),
+    String(s.alarms),
+    String(s.falseAlarms),
+    String(s.falseAlarmsPer30d),
+    formatRatio(s.precision),
+    `${s.detected}/${s.incidents}`,
+    formatRatio(s.recall),
+    formatLead(s.medianLeadMs),
+  ]);
+
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const line = (cells: string[]) => cells.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join('  ');
+
+  const errors = Object.entries(report.normalizeErrors).map(([id, count]) => `${id}: ${count}`);
+
+  return [
+    `Backtest ${report.range.from.toISOString()} → ${report.range.to.toISOString()}`,
+    `${report.frames} steps of ${report.options.stepMs / HOUR_MS}h · alarm at ≥${report.options.threshold} · lead window ${report.options.leadWindowMs / HOUR_MS}h`,
+    ...(errors.length > 0 ? [`Responses that failed to score: ${errors.join(', ')}`] : []),
+    '',
+    line(header),
+    line(widths.map(w => '-'.repeat(w))),
+    ...rows.map(line),
+  ].join('\n');
+}
+
+/**
+ * Per-series change against an earlier report (e.g. before a formula change)
+ */
+export function formatComparison(previous: SeriesReport[], report: BacktestReport): string {
+  const before = new Map(previous.map(s => [s.series, s]));
+  const delta = (a: number | null, b: number | null, format: (v: number) => string) =>
+    a === null || b === null ? '—' : `${b - a >= 0 ? '+' : ''}${format(b - a)}`;
+
+  const rows = report.series.flatMap(s => {
+    const old = before.get(s.series);
+    if (!old) return [];
+    return [[
+      s.series,
+      delta(old.precision, s.precision, v => `${Math.round(v * 100)}pp`),
+      delta(old.recall, s.recall, v => `${Math.round(v * 100)}pp`),
+      delta(old.falseAlarmsPer30d, s.falseAlarmsPer30d, v => v.toFixed(1)),
+      delta(old.medianLeadMs, s.medianLeadMs, v => `${(v / HOUR_MS).toFixed(1)}h`),
+    ]];
+  });
+
+  const header = ['series', 'Δprecision', 'Δrecall', 'ΔFA/30d', 'Δlead'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const line = (cells: string[]) => cells.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join('  ');
+
+  return ['Compared with previous run', '', line(header), line(widths.map(w => '-'.repeat(w))), ...rows.map(line)].join('\n');
+}
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  anomalyScore,
+  computeBaseline,
+  computeStats,
+  formatBaselineComparison,
+  formatMissingBaseline,
+} from './baselines';
+
+describe('computeStats', () => {
+  it('returns mean, median and sample standard deviation', () => {
+    const stats = computeStats([2, 4, 4, 4, 5, 5, 7, 9]);
+
+    assert.equal(stats?.mean, 5);
+    assert.equal(stats?.median, 4.5);
+    assert.equal(stats?.stdDev.toFixed(4), Math.sqrt(32 / 7).toFixed(4));
+    assert.equal(stats?.sampleSize, 8);
+  });
+
+  it('ignores values that are not finite', () => {
+    assert.equal(computeStats([1, 2, NaN, 3, Infinity, 4, 5])?.sampleSize, 5);
+  });
+
+  it('needs at least five samples', () => {
+    assert.equal(computeStats([1, 2, 3, 4]), null);
+  });
+});
+
+describe('computeBaseline', () => {
+  const history = [10, 12, 8, 11, 9]; // mean 10, stdDev ~1.58
+
+  it('measures the deviation in percent and standard deviations', () => {
+    const baseline = computeBaseline(15, history, 'history');
+
+    assert.equal(baseline?.deviationPct, 50);
+    assert.equal(baseline?.zScore?.toFixed(2), (5 / Math.sqrt(2.5)).toFixed(2));
+    assert.equal(baseline?.windowDays, 30);
+    assert.equal(baseline?.source, 'history');
+  });
+
+  it('has no z-score for a flat history and no percentage around zero', () => {
+    assert.equal(computeBaseline(3, [2, 2, 2, 2, 2], 'upstream')?.zScore, null);
+    assert.equal(computeBaseline(1, [-1, 1, -1, 1, 0], 'upstream')?.deviationPct, null);
+  });
+
+  it('is null with too little history', () => {
+    assert.equal(computeBaseline(15, [10, 12], 'history'), null);
+  });
+});
+
+describe('formatBaselineComparison', () => {
+  const baseline = computeBaseline(15, [10, 12, 8, 11, 9], 'upstream', 20)!;
+
+  it('prints the deviation and z-score against the window', () => {
+    assert.equal(formatBaselineComparison({ value: 15, label: 'level' }, baseline), '+50.0% vs 20-day avg (z +3.2)');
+  });
+
+  it('compares percentage metrics in points', () => {
+    assert.equal(formatBaselineComparison({ value: 15, label: 'odds', unit: '%' }, baseline), '+5.0pp vs 20-day avg (z +3.2)');
+  });
+
+  it('says how many samples a missing baseline has', () => {
+    assert.equal(formatMissingBaseline(2), 'n/a — insufficient history (2 of 5 samples)');
+  });
+});
+
+describe('anomalyScore', () => {
+  it('adds points per sigma in the risk direction', () => {
+    assert.equal(anomalyScore(0), 25);
+    assert.equal(anomalyScore(2), 65);
+    assert.equal(anomalyScore(2, 'down'), 0);
+  });
+
+  it('stays on the 0-100 scale', () => {
+    assert.equal(anomalyScore(10), 100);
+  });
+});
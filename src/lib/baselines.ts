@@ -0,0 +1,108 @@
+/**
+ * Rolling statistical baselines
+ * Compares a signal's current metric against its own recent distribution,
+ * taken either from stored history or from the upstream's historical endpoint.
+ */
+
+import { SignalMetric, SignalBaseline, BaselineSource } from '@/types';
+import { clamp } from './utils';
+import { ANOMALY_SCORING } from './config';
+
+export const BASELINE_WINDOW_DAYS = 30;
+export const MIN_BASELINE_SAMPLES = 5;
+
+export interface BaselineStats {
+  mean: number;
+  median: number;
+  stdDev: number;
+  sampleSize: number;
+}
+
+/**
+ * Supplies past metric values for a signal (one value per hour at most)
+ */
+export interface BaselineProvider {
+  getMetricHistory(signalId: string, since: Date): Promise<number[]>;
+}
+
+/**
+ * Mean, median and sample standard deviation; null below MIN_BASELINE_SAMPLES
+ */
+export function computeStats(values: number[]): BaselineStats | null {
+  const finite = values.filter(v => Number.isFinite(v));
+  if (finite.length < MIN_BASELINE_SAMPLES) return null;
+
+  const sorted = [...finite].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+
+  const mean = finite.reduce((sum, v) => sum + v, 0) / finite.length;
+  const variance = finite.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (finite.length - 1);
+
+  return {
+    mean,
+    median,
+    stdDev: Math.sqrt(variance),
+    sampleSize: finite.length,
+  };
+}
+
+/**
+ * Position of a value against its baseline distribution
+ */
+export function computeBaseline(
+  value: number,
+  history: number[],
+  source: BaselineSource,
+  windowDays: number = BASELINE_WINDOW_DAYS
+): SignalBaseline | null {
+  const stats = computeStats(history);
+  if (!stats) return null;
+
+  return {
+    ...stats,
+    windowDays,
+    deviationPct: Math.abs(stats.mean) > 1e-9 ? ((value - stats.mean) / Math.abs(stats.mean)) * 100 : null,
+    zScore: stats.stdDev > 1e-9 ? (value - stats.mean) / stats.stdDev : null,
+    source,
+  };
+}
+
+function signed(value: number, digits: number): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+/**
+ * e.g. "+12.4% vs 30-day avg (z +1.3)". Metrics already expressed in
+ * percent are compared in percentage points instead.
+ */
+export function formatBaselineComparison(metric: SignalMetric, baseline: SignalBaseline): string {
+  const difference = metric.value - baseline.mean;
+
+  let deviation: string;
+  if (metric.unit === '%') {
+    deviation = `${signed(difference, 1)}pp`;
+  } else if (baseline.deviationPct !== null) {
+    deviation = `${signed(baseline.deviationPct, 1)}%`;
+  } else {
+    deviation = signed(difference, 1);
+  }
+
+  const z = baseline.zScore !== null ? ` (z ${signed(baseline.zScore, 1)})` : '';
+  return `${deviation} vs ${baseline.windowDays}-day avg${z}`;
+}
+
+/**
+ * Shown instead of a comparison while fewer than MIN_BASELINE_SAMPLES exist
+ */
+export function formatMissingBaseline(samples: number): string {
+  return `n/a — insufficient history (${samples} of ${MIN_BASELINE_SAMPLES} samples)`;
+}
+
+/**
+ * Map a z-score onto the shared 0-100 scale (see ANOMALY_SCORING)
+ */
+export function anomalyScore(zScore: number, riskDirection: SignalMetric['riskDirection'] = 'up'): number {
+  const riskZ = riskDirection === 'down' ? -zScore : zScore;
+  return clamp(ANOMALY_SCORING.baseScore + riskZ * ANOMALY_SCORING.pointsPerSigma, 0, 100);
+}
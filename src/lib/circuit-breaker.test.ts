@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreaker } from './circuit-breaker';
+
+const OPEN_MS = 60000;
+const T0 = 1_000_000;
+
+function tripped(): CircuitBreaker {
+  const breaker = new CircuitBreaker(3, OPEN_MS);
+  for (let i = 0; i < 3; i++) breaker.recordFailure(T0);
+  return breaker;
+}
+
+describe('CircuitBreaker', () => {
+  it('stays closed below the failure threshold', () => {
+    const breaker = new CircuitBreaker(3, OPEN_MS);
+    breaker.recordFailure(T0);
+    breaker.recordFailure(T0);
+
+    assert.equal(breaker.getState(), 'closed');
+    assert.equal(breaker.canRequest(T0), true);
+  });
+
+  it('opens at the threshold and rejects requests during the cool-down', () => {
+    const breaker = tripped();
+
+    assert.equal(breaker.getState(), 'open');
+    assert.equal(breaker.canRequest(T0 + OPEN_MS - 1), false);
+    assert.equal(breaker.getRetryAt()?.getTime(), T0 + OPEN_MS);
+  });
+
+  it('moves to half-open once the cool-down has passed', () => {
+    const breaker = tripped();
+
+    assert.equal(breaker.canRequest(T0 + OPEN_MS), true);
+    assert.equal(breaker.getState(), 'half-open');
+  });
+
+  it('closes and forgets failures after a successful trial', () => {
+    const breaker = tripped();
+    breaker.canRequest(T0 + OPEN_MS);
+    breaker.recordSuccess();
+
+    assert.equal(breaker.getState(), 'closed');
+    assert.equal(breaker.getFailures(), 0);
+    assert.equal(breaker.getRetryAt(), null);
+  });
+
+  it('reopens for a full cool-down after a failed trial', () => {
+    const breaker = tripped();
+    const trialAt = T0 + OPEN_MS;
+    breaker.canRequest(trialAt);
+    breaker.recordFailure(trialAt);
+
+    assert.equal(breaker.getState(), 'open');
+    assert.equal(breaker.canRequest(trialAt + OPEN_MS - 1), false);
+    assert.equal(breaker.canRequest(trialAt + OPEN_MS), true);
+  });
+
+  it('only counts consecutive failures', () => {
+    const breaker = new CircuitBreaker(3, OPEN_MS);
+    breaker.recordFailure(T0);
+    breaker.recordFailure(T0);
+    breaker.recordSuccess();
+    breaker.recordFailure(T0);
+
+    assert.equal(breaker.getState(), 'closed');
+  });
+
+  it('opens on a Retry-After longer than the cool-down and waits it out', () => {
+    const breaker = new CircuitBreaker(3, OPEN_MS);
+    breaker.recordFailure(T0, 10 * OPEN_MS);
+
+    assert.equal(breaker.getState(), 'open');
+    assert.equal(breaker.canRequest(T0 + OPEN_MS), false);
+    assert.equal(breaker.canRequest(T0 + 10 * OPEN_MS), true);
+  });
+
+  it('treats a short Retry-After as an ordinary failure', () => {
+    const breaker = new CircuitBreaker(3, OPEN_MS);
+    breaker.recordFailure(T0, 1000);
+
+    assert.equal(breaker.getState(), 'closed');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Per-source circuit breakers
+ * After repeated failures a source is skipped until a cool-down passes,
+ * then a single trial request decides whether it closes again.
+ */
+
+import { CircuitState } from '@/types';
+import { CIRCUIT_BREAKER } from './config';
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private retryAt = 0;
+
+  constructor(
+    private failureThreshold = CIRCUIT_BREAKER.failureThreshold,
+    private openMs = CIRCUIT_BREAKER.openMs
+  ) {}
+
+  /**
+   * Whether a request may go out now; moves open → half-open once the
+   * cool-down has passed
+   */
+  canRequest(now = Date.now()): boolean {
+    if (this.state === 'open' && now >= this.retryAt) {
+      this.state = 'half-open';
+    }
+    return this.state !== 'open';
+  }
+
+  recordSuccess() {
+    this.state = 'closed';
+    this.failures = 0;
+    this.retryAt = 0;
+  }
+
+  /**
+   * Count a failure. A failed trial, the threshold, or an upstream
+   * Retry-After longer than the cool-down opens the circuit.
+   */
+  recordFailure(now = Date.now(), retryAfterMs?: number) {
+    this.failures += 1;
+
+    const tripped = this.state === 'half-open'
+      || this.failures >= this.failureThreshold
+      || (retryAfterMs !== undefined && retryAfterMs > this.openMs);
+    if (!tripped) return;
+
+    this.state = 'open';
+    this.retryAt = now + Math.max(this.openMs, retryAfterMs ?? 0);
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getFailures(): number {
+    return this.failures;
+  }
+
+  getRetryAt(): Date | null {
+    return this.retryAt ? new Date(this.retryAt) : null;
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+export function getCircuitBreaker(sourceId: string): CircuitBreaker {
+  let breaker = breakers.get(sourceId);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    breakers.set(sourceId, breaker);
+  }
+  return breaker;
+}
+
+export function resetCircuitBreakers() {
+  breakers.clear();
+}
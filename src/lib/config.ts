@@ -1,36 +1,165 @@
 /**
  * Configuration for data sources
- * BUG #3 FIX: Centralized baseline management for currency signals
  */
 
-export interface CurrencyBaselines {
-  CHF: number;
-  JPY: number;
-  XAU: number;
-  lastUpdated: Date;
+import { ScoringMode, WeightingModel, AlertRule } from '@/types';
+
+/**
+ * Per-source overrides for the signal registry
+ * Set enabled: false to drop a source, or override its refresh interval (ms).
+ * Sources can also be disabled at runtime with DISABLED_SOURCES=id1,id2
+ */
+export interface SourceSettings {
+  enabled?: boolean;
+  refreshInterval?: number;
+  scoringMode?: ScoringMode;
 }
 
+export const SOURCE_SETTINGS: Record<string, SourceSettings> = {};
+
 /**
- * Safe-haven currency baselines for risk calculation
- * These should be updated monthly or fetched dynamically from historical data
- * Last updated: January 4, 2025
+ * Shared HTTP client defaults (per-source calls may override)
+ * Retries apply to network errors, timeouts, 5xx and 429 responses.
  */
-export const CURRENCY_BASELINES: CurrencyBaselines = {
-  CHF: 0.92, // CHF/USD baseline
-  JPY: 145, // JPY/USD baseline
-  XAU: 2050, // Gold baseline (USD/oz)
-  lastUpdated: new Date('2025-01-04'),
+export const HTTP_DEFAULTS = {
+  timeoutMs: 10000,
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
 };
 
 /**
- * Update baselines (call this when data is stale)
+ * Per-source circuit breaker: opens after failureThreshold consecutive
+ * failures (or a longer upstream Retry-After) and skips the source for openMs
  */
-export function updateCurrencyBaselines(baselines: Partial<CurrencyBaselines>) {
-  if (baselines.CHF !== undefined) CURRENCY_BASELINES.CHF = baselines.CHF;
-  if (baselines.JPY !== undefined) CURRENCY_BASELINES.JPY = baselines.JPY;
-  if (baselines.XAU !== undefined) CURRENCY_BASELINES.XAU = baselines.XAU;
-  CURRENCY_BASELINES.lastUpdated = new Date();
-}
+export const CIRCUIT_BREAKER = {
+  failureThreshold: 3,
+  openMs: 5 * 60 * 1000,
+};
+
+/**
+ * Data quality windows, in multiples of a source's refresh interval:
+ * after a failed fetch the last good reading is served as "cached" for up
+ * to cacheIntervals; data older than staleIntervals (or the source's
+ * maxDataAge) is "stale"
+ */
+export const DATA_QUALITY = {
+  cacheIntervals: 3,
+  staleIntervals: 3,
+};
+
+/**
+ * Anomaly scoring: a metric at its rolling mean scores baseScore and each
+ * standard deviation in the risk direction adds pointsPerSigma, so a 2σ move
+ * reaches the "high" band. Enable globally with SCORING_MODE=anomaly or per
+ * source with SOURCE_SETTINGS[id].scoringMode.
+ */
+export const ANOMALY_SCORING = {
+  baseScore: 25,
+  pointsPerSigma: 20,
+};
+
+/**
+ * Global risk weighting presets
+ * The active preset comes from RISK_PRESET (default: balanced). A signal's
+ * weight is confidence × category × signal weight, times the weight of
+ * its data quality (synthetic placeholders never count).
+ */
+const CONFIDENCE_WEIGHTS: WeightingModel['confidenceWeights'] = { high: 2, medium: 1.5, low: 1 };
+const QUALITY_WEIGHTS: WeightingModel['qualityWeights'] = { live: 1, cached: 0.9, stale: 0.5, synthetic: 0 };
+const STRICT_QUALITY_WEIGHTS: WeightingModel['qualityWeights'] = { live: 1, cached: 0.8, stale: 0.25, synthetic: 0 };
+
+export const WEIGHTING_PRESETS: Record<string, WeightingModel> = {
+  'balanced': {
+    id: 'balanced',
+    label: 'Balanced',
+    method: 'weighted-mean',
+    confidenceWeights: CONFIDENCE_WEIGHTS,
+    categoryWeights: { osint: 0.5, attention: 0.75 },
+    signalWeights: {},
+    qualityWeights: QUALITY_WEIGHTS,
+  },
+  'markets-heavy': {
+    id: 'markets-heavy',
+    label: 'Markets-heavy',
+    method: 'weighted-mean',
+    confidenceWeights: CONFIDENCE_WEIGHTS,
+    categoryWeights: { markets: 3, prediction: 1.5, osint: 0.25, attention: 0.5 },
+    signalWeights: { 'vix-fear-index': 1.5, 'credit-spreads': 1.5 },
+    qualityWeights: STRICT_QUALITY_WEIGHTS,
+  },
+  'geopolitics-heavy': {
+    id: 'geopolitics-heavy',
+    label: 'Geopolitics-heavy',
+    method: 'weighted-mean',
+    confidenceWeights: CONFIDENCE_WEIGHTS,
+    categoryWeights: { geopolitics: 3, prediction: 2, infrastructure: 1.5, markets: 0.5, osint: 0.5 },
+    signalWeights: {},
+    qualityWeights: STRICT_QUALITY_WEIGHTS,
+  },
+  'tail-risk': {
+    id: 'tail-risk',
+    label: 'Tail risk',
+    method: 'power-mean',
+    power: 3,
+    confidenceWeights: CONFIDENCE_WEIGHTS,
+    categoryWeights: { osint: 0.5 },
+    signalWeights: {},
+    qualityWeights: STRICT_QUALITY_WEIGHTS,
+  },
+  'worst-category': {
+    id: 'worst-category',
+    label: 'Worst category',
+    method: 'max-of-categories',
+    confidenceWeights: CONFIDENCE_WEIGHTS,
+    categoryWeights: { osint: 0, attention: 0 },
+    signalWeights: {},
+    qualityWeights: STRICT_QUALITY_WEIGHTS,
+  },
+};
+
+export const DEFAULT_WEIGHTING_PRESET = 'balanced';
+
+/**
+ * Alert rules, evaluated after every snapshot refresh
+ * A rule fires while its condition holds, at most once per cooldown for
+ * each dedup key. Webhooks go to rule.webhookUrl or ALERT_WEBHOOK_URL.
+ */
+export const ALERT_RULES: AlertRule[] = [
+  {
+    id: 'global-high',
+    name: 'Global risk above 70',
+    condition: { type: 'global-threshold', above: 70 },
+    cooldownMs: 60 * 60 * 1000,
+  },
+  {
+    id: 'vix-high',
+    name: 'VIX fear index high',
+    condition: { type: 'signal-status', signalId: 'vix-fear-index', status: 'high' },
+    cooldownMs: 2 * 60 * 60 * 1000,
+  },
+  {
+    id: 'middle-east-rise',
+    name: 'Middle East risk up 15 points in 1h',
+    condition: { type: 'regional-rise', region: 'middle-east', points: 15, withinMs: 60 * 60 * 1000 },
+    cooldownMs: 60 * 60 * 1000,
+  },
+  ...(['north-america', 'europe', 'asia-pacific', 'middle-east', 'africa', 'south-america'] as const).map(region => ({
+    id: `${region}-cluster`,
+    name: `3+ elevated signals in ${region}`,
+    condition: { type: 'region-cluster' as const, region, minSignals: 3, minStatus: 'elevated' as const },
+    cooldownMs: 60 * 60 * 1000,
+  })),
+];
+
+/**
+ * Public v1 API (/api/v1): callers authenticate with a key from API_KEYS
+ * (comma-separated) and each key may make `requests` calls per window
+ */
+export const API_RATE_LIMIT = {
+  requests: 60,
+  windowMs: 60 * 1000,
+};
 
 /**
  * Stricter crisis keywords for Wikipedia filtering
@@ -94,112 +223,18 @@ export function isCrisisArticle(title: string, keywords: string[]): boolean {
 }
 
 /**
- * Region boundary coordinates for improved detection
- * BUG #6 FIX: More accurate geographic region detection
- */
-export const REGION_BOUNDARIES: Record<
-  string,
-  { lat: [number, number]; lng: [number, number] }
-> = {
-  'north-america': {
-    lat: [15, 75],
-    lng: [-170, -50],
-  },
-  'europe': {
-    lat: [35, 72],
-    lng: [-10, 60],
-  },
-  'asia-pacific': {
-    lat: [-60, 60],
-    lng: [60, 180],
-  },
-  'south-america': {
-    lat: [-56, 13],
-    lng: [-82, -35],
-  },
-  'africa': {
-    lat: [-35, 40],
-    lng: [-18, 55],
-  },
-  'middle-east': {
-    lat: [10, 45],
-    lng: [25, 75],
-  },
-};
-
-/**
- * Detect region from coordinates with improved accuracy
+ * How coordinates map to regions (see geo.ts). Points on land always take
+ * their country's region. At sea, 'nearest' uses the closest country within
+ * maxOffshoreKm and 'strict' leaves them global; so does open ocean.
  */
-export function detectRegionFromCoordinates(lat: number, lng: number): string {
-  for (const [region, bounds] of Object.entries(REGION_BOUNDARIES)) {
-    const [minLat, maxLat] = bounds.lat;
-    const [minLng, maxLng] = bounds.lng;
-
-    if (lat >= minLat && lat <= maxLat && lng >= minLng && lng <= maxLng) {
-      return region;
-    }
-  }
+export type RegionMatchMode = 'strict' | 'nearest';
 
-  return 'global';
+export interface RegionDetection {
+  mode: RegionMatchMode;
+  maxOffshoreKm: number;
 }
 
-/**
- * OpenSky API regional bounding boxes for global coverage
- * BUG #5 FIX: Support for multiple regions instead of just N. America
- */
-export const OPENSKY_REGIONS = [
-  {
-    name: 'north-america',
-    bounds: {
-      lamin: 15,
-      lomin: -130,
-      lamax: 55,
-      lomax: -50,
-    },
-  },
-  {
-    name: 'europe',
-    bounds: {
-      lamin: 35,
-      lomin: -10,
-      lamax: 72,
-      lomax: 40,
-    },
-  },
-  {
-    name: 'asia-pacific',
-    bounds: {
-      lamin: -10,
-      lomin: 60,
-      lamax: 60,
-      lomax: 180,
-    },
-  },
-  {
-    name: 'south-america',
-    bounds: {
-      lamin: -56,
-      lomin: -82,
-      lamax: 13,
-      lomax: -35,
-    },
-  },
-  {
-    name: 'africa',
-    bounds: {
-      lamin: -35,
-      lomin: -18,
-      lamax: 40,
-      lomax: 55,
-    },
-  },
-  {
-    name: 'middle-east',
-    bounds: {
-      lamin: 10,
-      lomin: 25,
-      lamax: 45,
-      lomax: 75,
-    },
-  },
-];
+export const REGION_DETECTION: RegionDetection = {
+  mode: 'nearest',
+  maxOffshoreKm: 1000,
+};
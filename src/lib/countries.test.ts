@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findCountry, findGdeltCountry, getCountryByFips } from './countries';
+
+describe('findGdeltCountry', () => {
+  it('reads two-letter values as FIPS codes, not ISO-2', () => {
+    assert.equal(findGdeltCountry('CH')?.code, 'CN');
+    assert.equal(findGdeltCountry('SZ')?.code, 'CH');
+    assert.equal(findGdeltCountry('UK')?.code, 'GB');
+    assert.equal(findCountry('CH')?.code, 'CH');
+  });
+
+  it('matches DOC API country names', () => {
+    assert.equal(findGdeltCountry('United Kingdom')?.code, 'GB');
+    assert.equal(findGdeltCountry(' Germany ')?.code, 'DE');
+    assert.equal(findGdeltCountry(''), undefined);
+  });
+});
+
+describe('getCountryByFips', () => {
+  it('ignores case and rejects unknown codes', () => {
+    assert.equal(getCountryByFips('gm')?.code, 'DE');
+    assert.equal(getCountryByFips('QQ'), undefined);
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * Country reference data
+ * ISO 3166-1 alpha-2, alpha-3 and numeric codes, FIPS 10-4 codes (used by
+ * GDELT), common English names and aliases, an approximate centroid and the
+ * dashboard region for every country. Numeric codes match the ids of the
+ * bundled world-atlas polygons. Every source that names countries resolves
+ * them here.
+ */
+
+import { Region } from '@/types';
+
+export interface CountryInfo {
+  code: string; // ISO 3166-1 alpha-2
+  iso3: string; // ISO 3166-1 alpha-3
+  numeric: string | null; // ISO 3166-1 numeric; null for user-assigned codes (XK)
+  fips: string | null; // FIPS 10-4; null where FIPS has no single equivalent
+  name: string;
+  aliases: string[];
+  region: Exclude<Region, 'global'>;
+  centroid: { lat: number; lng: number }; // approximate, for placing country-level evidence
+}
+
+type CountryRow = [
+  code: string,
+  iso3: string,
+  numeric: string | null,
+  name: string,
+  region: CountryInfo['region'],
+  centroid: [lat: number, lng: number],
+  fips: string | null,
+];
+
+const NA = 'north-america';
+const SA = 'south-america';
+const EU = 'europe';
+const ME = 'middle-east';
+const AF = 'africa';
+const AP = 'asia-pacific';
+
+// Central America and the Caribbean count as North America, Central Asia
+// and Oceania as Asia-Pacific, Turkey as the Middle East, Egypt as Africa
+const COUNTRY_ROWS: CountryRow[] = [
+  ['AD', 'AND', '020', 'Andorra', EU, [42.5, 1.5], 'AN'],
+  ['AE', 'ARE', '784', 'United Arab Emirates', ME, [24, 54], 'AE'],
+  ['AF', 'AFG', '004', 'Afghanistan', AP, [33, 66], 'AF'],
+  ['AG', 'ATG', '028', 'Antigua and Barbuda', NA, [17.05, -61.8], 'AC'],
+  ['AI', 'AIA', '660', 'Anguilla', NA, [18.22, -63.05], 'AV'],
+  ['AL', 'ALB', '008', 'Albania', EU, [41, 20], 'AL'],
+  ['AM', 'ARM', '051', 'Armenia', EU, [40, 45], 'AM'],
+  ['AO', 'AGO', '024', 'Angola', AF, [-12.5, 18.5], 'AO'],
+  ['AQ', 'ATA', '010', 'Antarctica', AP, [-75, 0], 'AY'],
+  ['AR', 'ARG', '032', 'Argentina', SA, [-34, -64], 'AR'],
+  ['AS', 'ASM', '016', 'American Samoa', AP, [-14.3, -170.7], 'AQ'],
+  ['AT', 'AUT', '040', 'Austria', EU, [47.5, 14.5], 'AU'],
+  ['AU', 'AUS', '036', 'Australia', AP, [-25, 134], 'AS'],
+  ['AW', 'ABW', '533', 'Aruba', NA, [12.5, -69.97], 'AA'],
+  ['AX', 'ALA', '248', 'Åland Islands', EU, [60.2, 20], null],
+  ['AZ', 'AZE', '031', 'Azerbaijan', EU, [40.5, 47.5], 'AJ'],
+  ['BA', 'BIH', '070', 'Bosnia and Herzegovina', EU, [44, 18], 'BK'],
+  ['BB', 'BRB', '052', 'Barbados', NA, [13.17, -59.53], 'BB'],
+  ['BD', 'BGD', '050', 'Bangladesh', AP, [24, 90], 'BG'],
+  ['BE', 'BEL', '056', 'Belgium', EU, [50.8, 4], 'BE'],
+  ['BF', 'BFA', '854', 'Burkina Faso', AF, [13, -2], 'UV'],
+  ['BG', 'BGR', '100', 'Bulgaria', EU, [43, 25], 'BU'],
+  ['BH', 'BHR', '048', 'Bahrain', ME, [26, 50.55], 'BA'],
+  ['BI', 'BDI', '108', 'Burundi', AF, [-3.5, 30], 'BY'],
+  ['BJ', 'BEN', '204', 'Benin', AF, [9.5, 2.25], 'BN'],
+  ['BL', 'BLM', '652', 'Saint Barthélemy', NA, [17.9, -62.83], 'TB'],
+  ['BM', 'BMU', '060', 'Bermuda', NA, [32.33, -64.75], 'BD'],
+  ['BN', 'BRN', '096', 'Brunei', AP, [4.5, 114.67], 'BX'],
+  ['BO', 'BOL', '068', 'Bolivia', SA, [-17, -65], 'BL'],
+  ['BQ', 'BES', '535', 'Caribbean Netherlands', NA, [12.18, -68.25], null],
+  ['BR', 'BRA', '076', 'Brazil', SA, [-10, -55], 'BR'],
+  ['BS', 'BHS', '044', 'Bahamas', NA, [24.25, -76], 'BF'],
+  ['BT', 'BTN', '064', 'Bhutan', AP, [27.5, 90.5], 'BT'],
+  ['BV', 'BVT', '074', 'Bouvet Island', SA, [-54.43, 3.4], 'BV'],
+  ['BW', 'BWA', '072', 'Botswana', AF, [-22, 24], 'BC'],
+  ['BY', 'BLR', '112', 'Belarus', EU, [53, 28], 'BO'],
+  ['BZ', 'BLZ', '084', 'Belize', NA, [17.25, -88.75], 'BH'],
+  ['CA', 'CAN', '124', 'Canada', NA, [60, -95], 'CA'],
+  ['CC', 'CCK', '166', 'Cocos (Keeling) Islands', AP, [-12.5, 96.83], 'CK'],
+  ['CD', 'COD', '180', 'DR Congo', AF, [-2.5, 23.5], 'CG'],
+  ['CF', 'CAF', '140', 'Central African Republic', AF, [7, 21], 'CT'],
+  ['CG', 'COG', '178', 'Republic of the Congo', AF, [-1, 15], 'CF'],
+  ['CH', 'CHE', '756', 'Switzerland', EU, [47, 8], 'SZ'],
+  ['CI', 'CIV', '384', "Côte d'Ivoire", AF, [8, -5], 'IV'],
+  ['CK', 'COK', '184', 'Cook Islands', AP, [-21.23, -159.77], 'CW'],
+  ['CL', 'CHL', '152', 'Chile', SA, [-30, -71], 'CI'],
+  ['CM', 'CMR', '120', 'Cameroon', AF, [6, 12], 'CM'],
+  ['CN', 'CHN', '156', 'China', AP, [35, 105], 'CH'],
+  ['CO', 'COL', '170', 'Colombia', SA, [4, -72], 'CO'],
+  ['CR', 'CRI', '188', 'Costa Rica', NA, [10, -84], 'CS'],
+  ['CU', 'CUB', '192', 'Cuba', NA, [21.5, -80], 'CU'],
+  ['CV', 'CPV', '132', 'Cape Verde', AF, [16, -24], 'CV'],
+  ['CW', 'CUW', '531', 'Curaçao', NA, [12.17, -69], 'UC'],
+  ['CX', 'CXR', '162', 'Christmas Island', AP, [-10.5, 105.67], 'KT'],
+  ['CY', 'CYP', '196', 'Cyprus', EU, [35, 33], 'CY'],
+  ['CZ', 'CZE', '203', 'Czechia', EU, [49.75, 15.5], 'EZ'],
+  ['DE', 'DEU', '276', 'Germany', EU, [51, 9], 'GM'],
+  ['DJ', 'DJI', '262', 'Djibouti', AF, [11.5, 43], 'DJ'],
+  ['DK', 'DNK', '208', 'Denmark', EU, [56, 10], 'DA'],
+  ['DM', 'DMA', '212', 'Dominica', NA, [15.42, -61.33], 'DO'],
+  ['DO', 'DOM', '214', 'Dominican Republic', NA, [19, -70.67], 'DR'],
+  ['DZ', 'DZA', '012', 'Algeria', AF, [28, 3], 'AG'],
+  ['EC', 'ECU', '218', 'Ecuador', SA, [-2, -77.5], 'EC'],
+  ['EE', 'EST', '233', 'Estonia', EU, [59, 26], 'EN'],
+  ['EG', 'EGY', '818', 'Egypt', AF, [27, 30], 'EG'],
+  ['EH', 'ESH', '732', 'Western Sahara', AF, [24.5, -13], 'WI'],
+  ['ER', 'ERI', '232', 'Eritrea', AF, [15, 39], 'ER'],
+  ['ES', 'ESP', '724', 'Spain', EU, [40, -4], 'SP'],
+  ['ET', 'ETH', '231', 'Ethiopia', AF, [8, 38], 'ET'],
+  ['FI', 'FIN', '246', 'Finland', EU, [64, 26], 'FI'],
+  ['FJ', 'FJI', '242', 'Fiji', AP, [-18, 178], 'FJ'],
+  ['FK', 'FLK', '238', 'Falkland Islands', SA, [-51.75, -59], 'FK'],
+  ['FM', 'FSM', '583', 'Micronesia', AP, [6.92, 158.25], 'FM'],
+  ['FO', 'FRO', '234', 'Faroe Islands', EU, [62, -7], 'FO'],
+  ['FR', 'FRA', '250', 'France', EU, [46, 2], 'FR'],
+  ['GA', 'GAB', '266', 'Gabon', AF, [-1, 11.75], 'GB'],
+  ['GB', 'GBR', '826', 'United Kingdom', EU, [54, -2], 'UK'],
+  ['GD', 'GRD', '308', 'Grenada', NA, [12.12, -61.67], 'GJ'],
+  ['GE', 'GEO', '268', 'Georgia', EU, [42, 43.5], 'GG'],
+  ['GF', 'GUF', '254', 'French Guiana', SA, [4, -53], 'FG'],
+  ['GG', 'GGY', '831', 'Guernsey', EU, [49.47, -2.58], 'GK'],
+  ['GH', 'GHA', '288', 'Ghana', AF, [8, -2], 'GH'],
+  ['GI', 'GIB', '292', 'Gibraltar', EU, [36.13, -5.35], 'GI'],
+  ['GL', 'GRL', '304', 'Greenland', NA, [72, -40], 'GL'],
+  ['GM', 'GMB', '270', 'Gambia', AF, [13.47, -16.57], 'GA'],
+  ['GN', 'GIN', '324', 'Guinea', AF, [11, -10], 'GV'],
+  ['GP', 'GLP', '312', 'Guadeloupe', NA, [16.25, -61.58], 'GP'],
+  ['GQ', 'GNQ', '226', 'Equatorial Guinea', AF, [2, 10], 'EK'],
+  ['GR', 'GRC', '300', 'Greece', EU, [39, 22], 'GR'],
+  ['GS', 'SGS', '239', 'South Georgia and the South Sandwich Islands', SA, [-54.5, -37], 'SX'],
+  ['GT', 'GTM', '320', 'Guatemala', NA, [15.5, -90.25], 'GT'],
+  ['GU', 'GUM', '316', 'Guam', AP, [13.47, 144.78], 'GQ'],
+  ['GW', 'GNB', '624', 'Guinea-Bissau', AF, [12, -15], 'PU'],
+  ['GY', 'GUY', '328', 'Guyana', SA, [5, -59], 'GY'],
+  ['HK', 'HKG', '344', 'Hong Kong', AP, [22.25, 114.17], 'HK'],
+  ['HM', 'HMD', '334', 'Heard Island and McDonald Islands', AP, [-53.1, 72.52], 'HM'],
+  ['HN', 'HND', '340', 'Honduras', NA, [15, -86.5], 'HO'],
+  ['HR', 'HRV', '191', 'Croatia', EU, [45.17, 15.5], 'HR'],
+  ['HT', 'HTI', '332', 'Haiti', NA, [19, -72.42], 'HA'],
+  ['HU', 'HUN', '348', 'Hungary', EU, [47, 20], 'HU'],
+  ['ID', 'IDN', '360', 'Indonesia', AP, [-5, 120], 'ID'],
+  ['IE', 'IRL', '372', 'Ireland', EU, [53, -8], 'EI'],
+  ['IL', 'ISR', '376', 'Israel', ME, [31.5, 34.75], 'IS'],
+  ['IM', 'IMN', '833', 'Isle of Man', EU, [54.23, -4.55], 'IM'],
+  ['IN', 'IND', '356', 'India', AP, [20, 77], 'IN'],
+  ['IO', 'IOT', '086', 'British Indian Ocean Territory', AP, [-6, 71.5], 'IO'],
+  ['IQ', 'IRQ', '368', 'Iraq', ME, [33, 44], 'IZ'],
+  ['IR', 'IRN', '364', 'Iran', ME, [32, 53], 'IR'],
+  ['IS', 'ISL', '352', 'Iceland', EU, [65, -18], 'IC'],
+  ['IT', 'ITA', '380', 'Italy', EU, [42.83, 12.83], 'IT'],
+  ['JE', 'JEY', '832', 'Jersey', EU, [49.21, -2.13], 'JE'],
+  ['JM', 'JAM', '388', 'Jamaica', NA, [18.25, -77.5], 'JM'],
+  ['JO', 'JOR', '400', 'Jordan', ME, [31, 36], 'JO'],
+  ['JP', 'JPN', '392', 'Japan', AP, [36, 138], 'JA'],
+  ['KE', 'KEN', '404', 'Kenya', AF, [1, 38], 'KE'],
+  ['KG', 'KGZ', '417', 'Kyrgyzstan', AP, [41, 75], 'KG'],
+  ['KH', 'KHM', '116', 'Cambodia', AP, [13, 105], 'CB'],
+  ['KI', 'KIR', '296', 'Kiribati', AP, [1.42, 173], 'KR'],
+  ['KM', 'COM', '174', 'Comoros', AF, [-12.17, 44.25], 'CN'],
+  ['KN', 'KNA', '659', 'Saint Kitts and Nevis', NA, [17.33, -62.75], 'SC'],
+  ['KP', 'PRK', '408', 'North Korea', AP, [40, 127], 'KN'],
+  ['KR', 'KOR', '410', 'South Korea', AP, [37, 127.5], 'KS'],
+  ['KW', 'KWT', '414', 'Kuwait', ME, [29.34, 47.66], 'KU'],
+  ['KY', 'CYM', '136', 'Cayman Islands', NA, [19.5, -80.5], 'CJ'],
+  ['KZ', 'KAZ', '398', 'Kazakhstan', AP, [48, 68], 'KZ'],
+  ['LA', 'LAO', '418', 'Laos', AP, [18, 105], 'LA'],
+  ['LB', 'LBN', '422', 'Lebanon', ME, [33.83, 35.83], 'LE'],
+  ['LC', 'LCA', '662', 'Saint Lucia', NA, [13.88, -60.97], 'ST'],
+  ['LI', 'LIE', '438', 'Liechtenstein', EU, [47.17, 9.53], 'LS'],
+  ['LK', 'LKA', '144', 'Sri Lanka', AP, [7, 81], 'CE'],
+  ['LR', 'LBR', '430', 'Liberia', AF, [6.5, -9.5], 'LI'],
+  ['LS', 'LSO', '426', 'Lesotho', AF, [-29.5, 28.5], 'LT'],
+  ['LT', 'LTU', '440', 'Lithuania', EU, [56, 24], 'LH'],
+  ['LU', 'LUX', '442', 'Luxembourg', EU, [49.75, 6.17], 'LU'],
+  ['LV', 'LVA', '428', 'Latvia', EU, [57, 25], 'LG'],
+  ['LY', 'LBY', '434', 'Libya', AF, [25, 17], 'LY'],
+  ['MA', 'MAR', '504', 'Morocco', AF, [32, -5], 'MO'],
+  ['MC', 'MCO', '492', 'Monaco', EU, [43.73, 7.4], 'MN'],
+  ['MD', 'MDA', '498', 'Moldova', EU, [47, 29], 'MD'],
+  ['ME', 'MNE', '499', 'Montenegro', EU, [42.5, 19.3], 'MJ'],
+  ['MF', 'MAF', '663', 'Saint Martin', NA, [18.08, -63.95], 'RN'],
+  ['MG', 'MDG', '450', 'Madagascar', AF, [-20, 47], 'MA'],
+  ['MH', 'MHL', '584', 'Marshall Islands', AP, [9, 168], 'RM'],
+  ['MK', 'MKD', '807', 'North Macedonia', EU, [41.83, 22], 'MK'],
+  ['ML', 'MLI', '466', 'Mali', AF, [17, -4], 'ML'],
+  ['MM', 'MMR', '104', 'Myanmar', AP, [22, 98], 'BM'],
+  ['MN', 'MNG', '496', 'Mongolia', AP, [46, 105], 'MG'],
+  ['MO', 'MAC', '446', 'Macau', AP, [22.17, 113.55], 'MC'],
+  ['MP', 'MNP', '580', 'Northern Mariana Islands', AP, [15.2, 145.75], 'CQ'],
+  ['MQ', 'MTQ', '474', 'Martinique', NA, [14.67, -61], 'MB'],
+  ['MR', 'MRT', '478', 'Mauritania', AF, [20, -12], 'MR'],
+  ['MS', 'MSR', '500', 'Montserrat', NA, [16.75, -62.2], 'MH'],
+  ['MT', 'MLT', '470', 'Malta', EU, [35.83, 14.58], 'MT'],
+  ['MU', 'MUS', '480', 'Mauritius', AF, [-20.28, 57.55], 'MP'],
+  ['MV', 'MDV', '462', 'Maldives', AP, [3.25, 73], 'MV'],
+  ['MW', 'MWI', '454', 'Malawi', AF, [-13.5, 34], 'MI'],
+  ['MX', 'MEX', '484', 'Mexico', NA, [23, -102], 'MX'],
+  ['MY', 'MYS', '458', 'Malaysia', AP, [2.5, 112.5], 'MY'],
+  ['MZ', 'MOZ', '508', 'Mozambique', AF, [-18.25, 35], 'MZ'],
+  ['NA', 'NAM', '516', 'Namibia', AF, [-22, 17], 'WA'],
+  ['NC', 'NCL', '540', 'New Caledonia', AP, [-21.5, 165.5], 'NC'],
+  ['NE', 'NER', '562', 'Niger', AF, [16, 8], 'NG'],
+  ['NF', 'NFK', '574', 'Norfolk Island', AP, [-29.03, 167.95], 'NF'],
+  ['NG', 'NGA', '566', 'Nigeria', AF, [10, 8], 'NI'],
+  ['NI', 'NIC', '558', 'Nicaragua', NA, [13, -85], 'NU'],
+  ['NL', 'NLD', '528', 'Netherlands', EU, [52.5, 5.75], 'NL'],
+  ['NO', 'NOR', '578', 'Norway', EU, [62, 10], 'NO'],
+  ['NP', 'NPL', '524', 'Nepal', AP, [28, 84], 'NP'],
+  ['NR', 'NRU', '520', 'Nauru', AP, [-0.53, 166.92], 'NR'],
+  ['NU', 'NIU', '570', 'Niue', AP, [-19.03, -169.87], 'NE'],
+  ['NZ', 'NZL', '554', 'New Zealand', AP, [-41, 174], 'NZ'],
+  ['OM', 'OMN', '512', 'Oman', ME, [21, 57], 'MU'],
+  ['PA', 'PAN', '591', 'Panama', NA, [9, -80], 'PM'],
+  ['PE', 'PER', '604', 'Peru', SA, [-10, -76], 'PE'],
+  ['PF', 'PYF', '258', 'French Polynesia', AP, [-15, -140], 'FP'],
+  ['PG', 'PNG', '598', 'Papua New Guinea', AP, [-6, 147], 'PP'],
+  ['PH', 'PHL', '608', 'Philippines', AP, [13, 122], 'RP'],
+  ['PK', 'PAK', '586', 'Pakistan', AP, [30, 70], 'PK'],
+  ['PL', 'POL', '616', 'Poland', EU, [52, 20], 'PL'],
+  ['PM', 'SPM', '666', 'Saint Pierre and Miquelon', NA, [46.83, -56.33], 'SB'],
+  ['PN', 'PCN', '612', 'Pitcairn Islands', AP, [-25.07, -130.1], 'PC'],
+  ['PR', 'PRI', '630', 'Puerto Rico', NA, [18.25, -66.5], 'RQ'],
+  ['PS', 'PSE', '275', 'Palestine', ME, [31.9, 35.2], 'WE'],
+  ['PT', 'PRT', '620', 'Portugal', EU, [39.5, -8], 'PO'],
+  ['PW', 'PLW', '585', 'Palau', AP, [7.5, 134.5], 'PS'],
+  ['PY', 'PRY', '600', 'Paraguay', SA, [-23, -58], 'PA'],
+  ['QA', 'QAT', '634', 'Qatar', ME, [25.5, 51.25], 'QA'],
+  ['RE', 'REU', '638', 'Réunion', AF, [-21.1, 55.6], 'RE'],
+  ['RO', 'ROU', '642', 'Romania', EU, [46, 25], 'RO'],
+  ['RS', 'SRB', '688', 'Serbia', EU, [44, 21], 'RI'],
+  ['RU', 'RUS', '643', 'Russia', EU, [60, 100], 'RS'],
+  ['RW', 'RWA', '646', 'Rwanda', AF, [-2, 30], 'RW'],
+  ['SA', 'SAU', '682', 'Saudi Arabia', ME, [25, 45], 'SA'],
+  ['SB', 'SLB', '090', 'Solomon Islands', AP, [-8, 159], 'BP'],
+  ['SC', 'SYC', '690', 'Seychelles', AF, [-4.58, 55.67], 'SE'],
+  ['SD', 'SDN', '729', 'Sudan', AF, [15, 30], 'SU'],
+  ['SE', 'SWE', '752', 'Sweden', EU, [62, 15], 'SW'],
+  ['SG', 'SGP', '702', 'Singapore', AP, [1.37, 103.8], 'SN'],
+  ['SH', 'SHN', '654', 'Saint Helena', AF, [-15.93, -5.7], 'SH'],
+  ['SI', 'SVN', '705', 'Slovenia', EU, [46, 15], 'SI'],
+  ['SJ', 'SJM', '744', 'Svalbard and Jan Mayen', EU, [78, 20], 'SV'],
+  ['SK', 'SVK', '703', 'Slovakia', EU, [48.67, 19.5], 'LO'],
+  ['SL', 'SLE', '694', 'Sierra Leone', AF, [8.5, -11.5], 'SL'],
+  ['SM', 'SMR', '674', 'San Marino', EU, [43.77, 12.42], 'SM'],
+  ['SN', 'SEN', '686', 'Senegal', AF, [14, -14], 'SG'],
+  ['SO', 'SOM', '706', 'Somalia', AF, [10, 49], 'SO'],
+  ['SR', 'SUR', '740', 'Suriname', SA, [4, -56], 'NS'],
+  ['SS', 'SSD', '728', 'South Sudan', AF, [7, 30], 'OD'],
+  ['ST', 'STP', '678', 'São Tomé and Príncipe', AF, [1, 7], 'TP'],
+  ['SV', 'SLV', '222', 'El Salvador', NA, [13.83, -88.92], 'ES'],
+  ['SX', 'SXM', '534', 'Sint Maarten', NA, [18.03, -63.05], 'NN'],
+  ['SY', 'SYR', '760', 'Syria', ME, [35, 38], 'SY'],
+  ['SZ', 'SWZ', '748', 'Eswatini', AF, [-26.5, 31.5], 'WZ'],
+  ['TC', 'TCA', '796', 'Turks and Caicos Islands', NA, [21.75, -71.58], 'TK'],
+  ['TD', 'TCD', '148', 'Chad', AF, [15, 19], 'CD'],
+  ['TF', 'ATF', '260', 'French Southern Territories', AF, [-49.25, 69.17], 'FS'],
+  ['TG', 'TGO', '768', 'Togo', AF, [8, 1.17], 'TO'],
+  ['TH', 'THA', '764', 'Thailand', AP, [15, 100], 'TH'],
+  ['TJ', 'TJK', '762', 'Tajikistan', AP, [39, 71], 'TI'],
+  ['TK', 'TKL', '772', 'Tokelau', AP, [-9, -172], 'TL'],
+  ['TL', 'TLS', '626', 'Timor-Leste', AP, [-8.83, 125.75], 'TT'],
+  ['TM', 'TKM', '795', 'Turkmenistan', AP, [40, 60], 'TX'],
+  ['TN', 'TUN', '788', 'Tunisia', AF, [34, 9], 'TS'],
+  ['TO', 'TON', '776', 'Tonga', AP, [-20, -175], 'TN'],
+  ['TR', 'TUR', '792', 'Turkey', ME, [39, 35], 'TU'],
+  ['TT', 'TTO', '780', 'Trinidad and Tobago', NA, [11, -61], 'TD'],
+  ['TV', 'TUV', '798', 'Tuvalu', AP, [-8, 178], 'TV'],
+  ['TW', 'TWN', '158', 'Taiwan', AP, [23.5, 121], 'TW'],
+  ['TZ', 'TZA', '834', 'Tanzania', AF, [-6, 35], 'TZ'],
+  ['UA', 'UKR', '804', 'Ukraine', EU, [49, 32], 'UP'],
+  ['UG', 'UGA', '800', 'Uganda', AF, [1, 32], 'UG'],
+  ['UM', 'UMI', '581', 'U.S. Minor Outlying Islands', AP, [19.28, 166.6], null],
+  ['US', 'USA', '840', 'United States', NA, [38, -97], 'US'],
+  ['UY', 'URY', '858', 'Uruguay', SA, [-33, -56], 'UY'],
+  ['UZ', 'UZB', '860', 'Uzbekistan', AP, [41, 64], 'UZ'],
+  ['VA', 'VAT', '336', 'Vatican City', EU, [41.9, 12.45], 'VT'],
+  ['VC', 'VCT', '670', 'Saint Vincent and the Grenadines', NA, [13.25, -61.2], 'VC'],
+  ['VE', 'VEN', '862', 'Venezuela', SA, [8, -66], 'VE'],
+  ['VG', 'VGB', '092', 'British Virgin Islands', NA, [18.5, -64.5], 'VI'],
+  ['VI', 'VIR', '850', 'U.S. Virgin Islands', NA, [18.35, -64.93], 'VQ'],
+  ['VN', 'VNM', '704', 'Vietnam', AP, [16, 106], 'VM'],
+  ['VU', 'VUT', '548', 'Vanuatu', AP, [-16, 167], 'NH'],
+  ['WF', 'WLF', '876', 'Wallis and Futuna', AP, [-13.3, -176.2], 'WF'],
+  ['WS', 'WSM', '882', 'Samoa', AP, [-13.58, -172.33], 'WS'],
+  ['XK', 'XKX', null, 'Kosovo', EU, [42.6, 20.9], 'KV'],
+  ['YE', 'YEM', '887', 'Yemen', ME, [15, 48], 'YM'],
+  ['YT', 'MYT', '175', 'Mayotte', AF, [-12.83, 45.17], 'MF'],
+  ['ZA', 'ZAF', '710', 'South Africa', AF, [-29, 24], 'SF'],
+  ['ZM', 'ZMB', '894', 'Zambia', AF, [-15, 30], 'ZA'],
+  ['ZW', 'ZWE', '716', 'Zimbabwe', AF, [-20, 30], 'ZI'],
+];
+
+// Other names sources use: official and former names, GDELT and UN
+// spellings, world-atlas abbreviations and breakaway territories whose
+// polygons belong to the recognised state
+const ALIASES: Record<string, string[]> = {
+  AE: ['UAE'],
+  BA: ['Bosnia', 'Bosnia-Herzegovina', 'Bosnia and Herz.'],
+  BN: ['Brunei Darussalam'],
+  BO: ['Bolivia, Plurinational State of'],
+  BS: ['The Bahamas', 'Bahamas, The'],
+  CD: ['Democratic Republic of the Congo', 'Congo, Democratic Republic of the', 'Dem. Rep. Congo', 'Congo (Kinshasa)', 'DRC'],
+  CF: ['Central African Rep.'],
+  CG: ['Congo', 'Congo (Brazzaville)'],
+  CI: ['Ivory Coast', "Cote d'Ivoire"],
+  CV: ['Cabo Verde'],
+  CY: ['N. Cyprus', 'Northern Cyprus'],
+  CZ: ['Czech Republic'],
+  DO: ['Dominican Rep.'],
+  EH: ['W. Sahara'],
+  FK: ['Falkland Is.', 'Falklands'],
+  FM: ['Federated States of Micronesia'],
+  GB: ['UK', 'Britain', 'Great Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'],
+  GM: ['The Gambia', 'Gambia, The'],
+  GQ: ['Eq. Guinea'],
+  HK: ['Hong Kong SAR'],
+  IR: ['Iran, Islamic Republic of', 'Islamic Republic of Iran'],
+  KP: ['Korea, North', "Democratic People's Republic of Korea", "Korea, Democratic People's Republic of", 'DPRK'],
+  KR: ['Korea, South', 'Republic of Korea', 'Korea, Republic of'],
+  LA: ["Lao People's Democratic Republic", 'Lao PDR'],
+  MD: ['Republic of Moldova', 'Moldova, Republic of'],
+  MK: ['Macedonia'],
+  MM: ['Burma'],
+  MO: ['Macao'],
+  PS: ['Palestinian Territories', 'Occupied Palestinian Territory', 'West Bank', 'Gaza', 'Gaza Strip'],
+  RU: ['Russian Federation'],
+  SB: ['Solomon Is.'],
+  SO: ['Somaliland'],
+  SS: ['S. Sudan'],
+  ST: ['Sao Tome and Principe'],
+  SY: ['Syrian Arab Republic'],
+  SZ: ['Swaziland', 'eSwatini'],
+  TF: ['Fr. S. Antarctic Lands'],
+  TL: ['East Timor'],
+  TR: ['Türkiye', 'Turkiye'],
+  TW: ['Taiwan, Province of China'],
+  TZ: ['United Republic of Tanzania', 'Tanzania, United Republic of'],
+  US: ['United States of America', 'USA', 'U.S.', 'US', 'America'],
+  VA: ['Holy See', 'Vatican'],
+  VE: ['Venezuela, Bolivarian Republic of'],
+  VN: ['Viet Nam'],
+};
+
+// FIPS codes beyond each country's primary one
+const EXTRA_FIPS: Record<string, string> = {
+  GZ: 'PS', // Gaza Strip
+  JN: 'SJ', // Jan Mayen
+};
+
+// Names that are more often something else in free text (a US state, a
+// first name), so they only match as exact values
+const EXACT_ONLY = new Set(['Georgia', 'Jersey', 'Chad', 'America']);
+
+export const COUNTRIES: CountryInfo[] = COUNTRY_ROWS.map(([code, iso3, numeric, name, region, [lat, lng], fips]) => ({
+  code,
+  iso3,
+  numeric,
+  fips,
+  name,
+  aliases: ALIASES[code] ?? [],
+  region,
+  centroid: { lat, lng },
+}));
+
+// Case, accents, spacing and punctuation don't matter for names:
+// "Cote d'Ivoire", "Côte d’Ivoire" and GDELT's "cotedivoire" all match
+function nameKey(name: string): string {
+  return name.normalize('NFD').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+}
+
+const byCode = new Map(COUNTRIES.map(c => [c.code, c]));
+const byIso3 = new Map(COUNTRIES.map(c => [c.iso3, c]));
+const byNumeric = new Map(COUNTRIES.filter(c => c.numeric).map(c => [c.numeric!, c]));
+const byFips = new Map([
+  ...COUNTRIES.filter(c => c.fips).map(c => [c.fips!, c] as const),
+  ...Object.entries(EXTRA_FIPS).map(([fips, code]) => [fips, byCode.get(code)!] as const),
+]);
+const byName = new Map(COUNTRIES.flatMap(c => [c.name, ...c.aliases].map(name => [nameKey(name), c] as const)));
+
+export function getCountry(code: string): CountryInfo | undefined {
+  return byCode.get(code.toUpperCase());
+}
+
+function getCountryByIso3(iso3: string): CountryInfo | undefined {
+  return byIso3.get(iso3.toUpperCase());
+}
+
+export function getCountryByNumeric(numeric: string): CountryInfo | undefined {
+  return byNumeric.get(numeric.padStart(3, '0'));
+}
+
+/**
+ * FIPS 10-4 codes, as in GDELT event and GEO data. These clash with ISO-2
+ * (CH is China, not Switzerland), so they're never guessed from a bare code.
+ */
+export function getCountryByFips(fips: string): CountryInfo | undefined {
+  return byFips.get(fips.toUpperCase());
+}
+
+/**
+ * Match a name or alias, ignoring case, accents and punctuation
+ */
+export function getCountryByName(name: string): CountryInfo | undefined {
+  const key = nameKey(name);
+  return key ? byName.get(key) : undefined;
+}
+
+/**
+ * Match an ISO-2 or ISO-3 code, then a name or alias ("UK", "Burma")
+ */
+export function findCountry(value: string): CountryInfo | undefined {
+  const trimmed = value.trim();
+  const byIsoCode = trimmed.length === 2 ? getCountry(trimmed)
+    : trimmed.length === 3 ? getCountryByIso3(trimmed)
+    : undefined;
+  return byIsoCode ?? getCountryByName(trimmed);
+}
+
+/**
+ * GDELT's sourcecountry: a FIPS 10-4 code in the raw feeds and the
+ * sourcecountry: query operator, the country name in DOC API results
+ */
+export function findGdeltCountry(value: string): CountryInfo | undefined {
+  const trimmed = value.trim();
+  return trimmed.length === 2 ? getCountryByFips(trimmed) : getCountryByName(trimmed);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Longest names first so "South Sudan" wins over "Sudan". Acronyms
+// ("UK", "US") only match in capitals so "us" and "uk" in prose don't.
+const NAME_PATTERNS = COUNTRIES
+  .flatMap(country => [country.name, ...country.aliases]
+    .filter(name => !EXACT_ONLY.has(name))
+    .map(name => ({ country, name })))
+  .sort((a, b) => b.name.length - a.name.length)
+  .map(({ country, name }) => ({
+    country,
+    pattern: new RegExp(`(?<![\\w.])${escapeRegExp(name)}(?![\\w])`, /^[A-Z.]+$/.test(name) ? 'g' : 'gi'),
+  }));
+
+/**
+ * Countries named in free text, e.g. a market question
+ */
+export function findCountriesInText(text: string): CountryInfo[] {
+  const found = new Set<CountryInfo>();
+  let remaining = text;
+  for (const { country, pattern } of NAME_PATTERNS) {
+    if (remaining.search(pattern) === -1) continue;
+    found.add(country);
+    remaining = remaining.replace(pattern, ' ');
+  }
+  return [...found];
+}
@@ -0,0 +1,235 @@
+/**
+ * Snapshot export
+ * CSV and JSON downloads of what the dashboard currently shows: the global
+ * index, every region's score and all signals under the region filter.
+ * The CLI (scripts/delta.ts) prints the same snapshot as a table or Markdown.
+ */
+
+import { GlobalRisk, Region, REGION_LABELS, Signal } from '@/types';
+import { filterSignalsByRegion, calculateRegionalRisk } from './signals';
+import { getRiskLevel } from './utils';
+import { getWeightingModel, liveCoverage } from './weighting';
+
+export interface SnapshotExport {
+  generatedAt: Date | null; // when the data was produced (the replayed time in replay mode)
+  exportedAt: Date;
+  region: Region; // filter the signals were exported under
+  replay: boolean;
+  globalRisk: GlobalRisk;
+  regionalScores: Record<Exclude<Region, 'global'>, number>;
+  signals: Signal[];
+  liveCoverage: number; // share (0-1) of the exported signals' weight backed by live data
+}
+
+export interface ExportInput {
+  signals: Signal[]; // unfiltered
+  globalRisk: GlobalRisk;
+  region: Region;
+  generatedAt: Date | null;
+  replay?: boolean;
+}
+
+export function buildExport({ signals, globalRisk, region, generatedAt, replay = false }: ExportInput): SnapshotExport {
+  const regions = (Object.keys(REGION_LABELS) as Region[]).filter(
+    (r): r is Exclude<Region, 'global'> => r !== 'global'
+  );
+  const filtered = filterSignalsByRegion(signals, region);
+
+  return {
+    generatedAt,
+    exportedAt: new Date(),
+    region,
+    replay,
+    globalRisk,
+    regionalScores: Object.fromEntries(
+      regions.map(r => [r, calculateRegionalRisk(signals, r)])
+    ) as Record<Exclude<Region, 'global'>, number>,
+    signals: filtered,
+    liveCoverage: liveCoverage(filtered, getWeightingModel(globalRisk.weighting?.id)),
+  };
+}
+
+/**
+ * The score the export is about: the global index, or the selected region's
+ */
+export function getExportScore(data: SnapshotExport): number {
+  return data.region === 'global' ? data.globalRisk.score : data.regionalScores[data.region];
+}
+
+// ============================================
+// JSON
+// ============================================
+
+export function toJson(data: SnapshotExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+// ============================================
+// CSV
+// ============================================
+
+type Row = Record<string, string>;
+
+/**
+ * Nested objects become dotted columns (metric.value, regions.europe.score);
+ * arrays such as evidence stay whole as a JSON cell
+ */
+function flatten(value: unknown, prefix: string, row: Row) {
+  if (value === undefined || value === null) return;
+  if (value instanceof Date) {
+    row[prefix] = value.toISOString();
+  } else if (Array.isArray(value)) {
+    row[prefix] = JSON.stringify(value);
+  } else if (typeof value === 'object') {
+    for (const [key, inner] of Object.entries(value)) {
+      flatten(inner, prefix ? `${prefix}.${key}` : key, row);
+    }
+  } else {
+    row[prefix] = String(value);
+  }
+}
+
+// Upstream text (headlines, market titles) must not run as a spreadsheet formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i;
+
+function csvCell(value: string): string {
+  const safe = FORMULA_START.test(value) && !NUMBER.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * One table: a `global` row, a row per region, then a row per signal.
+ * Columns are the union of all fields in first-seen order.
+ */
+export function toCsv(data: SnapshotExport): string {
+  const rows: Row[] = [];
+
+  const global: Row = { record: 'global', region: data.region };
+  flatten(data.globalRisk, '', global);
+  flatten(data.generatedAt, 'generatedAt', global);
+  flatten(data.replay, 'replay', global);
+  rows.push(global);
+
+  for (const [region, score] of Object.entries(data.regionalScores)) {
+    rows.push({ record: 'region', region, score: String(score) });
+  }
+
+  for (const signal of data.signals) {
+    const row: Row = { record: 'signal' };
+    flatten(signal, '', row);
+    rows.push(row);
+  }
+
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    }
+  }
+
+  return [
+    columns.map(csvCell).join(','),
+    ...rows.map(row => columns.map(c => csvCell(row[c] ?? '')).join(',')),
+  ].join('\r\n') + '\r\n';
+}
+
+// ============================================
+// Table / Markdown
+// ============================================
+
+function headline(data: SnapshotExport): string {
+  const score = getExportScore(data);
+  const global = data.region !== 'global' ? ` · global ${data.globalRisk.score}` : '';
+  return `${REGION_LABELS[data.region]} risk ${score}/100 ${getRiskLevel(score).label}${global}`;
+}
+
+function generatedLine(data: SnapshotExport): string {
+  const at = (data.generatedAt ?? data.exportedAt).toISOString();
+  const coverage = Math.round(data.liveCoverage * 100);
+  return `Generated ${at} · ${data.signals.length} signals · ${coverage}% live data · weighting ${data.globalRisk.weighting?.label ?? 'default'}`;
+}
+
+// Highest first, so the table reads like the dashboard's alert order
+function bySeverity(signals: Signal[]): Signal[] {
+  return [...signals].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Plain-text table for terminals
+ */
+export function toTable(data: SnapshotExport): string {
+  const header = ['SIGNAL', 'STATUS', 'SCORE', 'CONFIDENCE', 'QUALITY', 'REGION'];
+  const rows = bySeverity(data.signals).map(s => [
+    s.name,
+    s.status,
+    String(s.score),
+    s.confidence,
+    s.quality,
+    s.region,
+  ]);
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  // Right-align the score column
+  const format = (row: string[]) =>
+    row.map((cell, i) => (i === 2 ? cell.padStart(widths[i]) : cell.padEnd(widths[i]))).join('  ').trimEnd();
+
+  return [
+    headline(data),
+    generatedLine(data),
+    '',
+    format(header),
+    ...rows.map(format),
+  ].join('\n') + '\n';
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+export function toMarkdown(data: SnapshotExport): string {
+  return [
+    `## ${headline(data)}`,
+    '',
+    generatedLine(data),
+    '',
+    '| Signal | Status | Score | Confidence | Quality | Explanation | Source |',
+    '| --- | --- | ---: | --- | --- | --- | --- |',
+    ...bySeverity(data.signals).map(s =>
+      `| ${[s.name, s.status, String(s.score), s.confidence, s.quality, s.explanation, `[${s.sourceName}](${s.sourceUrl})`]
+        .map(markdownCell)
+        .join(' | ')} |`
+    ),
+  ].join('\n') + '\n';
+}
+
+// ============================================
+// Download
+// ============================================
+
+/**
+ * e.g. delta-snapshot-europe-20261019-1430
+ */
+export function exportFileName(data: SnapshotExport): string {
+  const at = data.generatedAt ?? data.exportedAt;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${at.getFullYear()}${pad(at.getMonth() + 1)}${pad(at.getDate())}-${pad(at.getHours())}${pad(at.getMinutes())}`;
+  return `delta-snapshot-${data.region}-${stamp}`;
+}
+
+/**
+ * Browser-only: saves the content through a temporary object URL
+ */
+export function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
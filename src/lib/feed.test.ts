@@ -0,0 +1,135 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { HistorySnapshot, Region, REGION_LABELS, Signal, SignalSnapshot } from '@/types';
+import { buildFeedEntries } from './feed';
+import { downsample, FileHistoryStore, HISTORY_RETENTION, toHistorySnapshot } from './history';
+import { scoreToStatus } from './sources';
+
+const HOUR = 60 * 60 * 1000;
+
+function signal(score: number, at: Date): Signal {
+  return {
+    id: 'vix-fear-index',
+    name: 'VIX',
+    region: 'global',
+    status: scoreToStatus(score),
+    score,
+    explanation: `score ${score}`,
+    baselineComparison: '',
+    confidence: 'high',
+    sourceUrl: 'https://example.com',
+    sourceName: 'Example',
+    lastUpdated: at,
+    category: 'markets',
+    scoringMode: 'formula',
+    quality: 'live',
+    observedAt: at,
+  };
+}
+
+function snapshot(iso: string, score: number): HistorySnapshot {
+  const timestamp = new Date(iso);
+  const regions = Object.keys(REGION_LABELS) as Region[];
+  return {
+    timestamp,
+    resolution: 'raw',
+    sampleCount: 1,
+    globalRisk: { score, trend: 'stable', lastUpdated: timestamp, signalCount: 1 },
+    regionalScores: Object.fromEntries(regions.map(r => [r, score])) as Record<Region, number>,
+    countryScores: {},
+    signals: [signal(score, timestamp)],
+  };
+}
+
+/**
+ * Polls as the history store receives them, each with its feed changes
+ */
+function record(polls: [iso: string, score: number][]): HistorySnapshot[] {
+  const stored: HistorySnapshot[] = [];
+  for (const [iso, score] of polls) {
+    const timestamp = new Date(iso);
+    const live: SignalSnapshot = {
+      signals: [signal(score, timestamp)],
+      globalRisk: { score, trend: 'stable', lastUpdated: timestamp, signalCount: 1 },
+      generatedAt: timestamp,
+      openCircuits: [],
+    };
+    stored.push(toHistorySnapshot(live, stored.at(-1) ?? null));
+  }
+  return stored;
+}
+
+const compact = (raw: HistorySnapshot[]) =>
+  downsample(raw, new Date(raw[raw.length - 1].timestamp.getTime() + 72 * HOUR), HISTORY_RETENTION);
+
+const ids = (snapshots: HistorySnapshot[]) => buildFeedEntries(snapshots).map(e => e.id).sort();
+
+describe('buildFeedEntries', () => {
+  it('keeps entry ids when the raw polls are compacted into hourly buckets', () => {
+    const raw = record([
+      ['2026-10-15T09:40:00Z', 20],
+      ['2026-10-15T09:50:00Z', 20],
+      ['2026-10-15T10:20:00Z', 50],
+      ['2026-10-15T10:40:00Z', 50],
+    ]);
+    const hourly = compact(raw);
+
+    assert.equal(hourly.length, 2);
+    assert.deepEqual(ids(hourly), ids(raw));
+    assert.deepEqual(ids(raw), [
+      'risk-level:global:2026-10-15T10:20:00.000Z:LOW-MODERATE',
+      'signal:vix-fear-index:global:2026-10-15T10:20:00.000Z:normal-elevated',
+    ]);
+  });
+
+  it('keeps a change that flaps back within the hour through compaction', () => {
+    const raw = record([
+      ['2026-10-15T09:50:00Z', 50],
+      ['2026-10-15T10:00:00Z', 50],
+      ['2026-10-15T10:10:00Z', 80],
+      ['2026-10-15T10:20:00Z', 50],
+      ['2026-10-15T10:30:00Z', 50],
+    ]);
+    const hourly = compact(raw);
+
+    // The 10:00 bucket averages to elevated, as if nothing had happened
+    assert.equal(hourly[1].signals[0].status, 'elevated');
+    assert.deepEqual(buildFeedEntries(hourly), buildFeedEntries(raw));
+
+    const changes = buildFeedEntries(hourly).filter(e => e.kind === 'signal');
+    assert.deepEqual(changes.map(e => e.id), [
+      'signal:vix-fear-index:global:2026-10-15T10:20:00.000Z:high-elevated',
+      'signal:vix-fear-index:global:2026-10-15T10:10:00.000Z:elevated-high',
+    ]);
+  });
+
+  it('keeps the changes through the file store', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'feed-'));
+    try {
+      const store = new FileHistoryStore(dir);
+      const raw = record([['2026-10-15T10:00:00Z', 50], ['2026-10-15T10:10:00Z', 80]]);
+      for (const s of raw) await store.append(s);
+
+      const read = await new FileHistoryStore(dir).getSnapshots({ from: raw[0].timestamp, to: raw[1].timestamp });
+      assert.deepEqual(buildFeedEntries(read), buildFeedEntries(raw));
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('compares consecutive snapshots in history written without changes', () => {
+    const entries = buildFeedEntries([
+      snapshot('2026-10-15T10:00:00Z', 20),
+      snapshot('2026-10-15T10:10:00Z', 50),
+      snapshot('2026-10-15T10:20:00Z', 20),
+    ]);
+
+    assert.deepEqual(entries.filter(e => e.kind === 'signal').map(e => e.title), [
+      'VIX: elevated → normal (easing)',
+      'VIX: normal → elevated',
+    ]);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Atom/RSS feed of status changes
+ * Built from stored history: an entry for every signal changing status and
+ * every change of the risk level label (getRiskLevel) of the global index,
+ * or of the region's score when the feed is filtered to one region.
+ *
+ * Entries are detected when a poll is written to history (detectFeedChanges)
+ * and stored with it, so a change that flaps back within an hour survives
+ * compaction into hourly buckets with the id and time readers have seen.
+ */
+
+import { FeedEntry, HistorySnapshot, Region, REGION_LABELS, Signal, SignalStatus } from '@/types';
+import { filterSignalsByRegion } from './signals';
+import { getRiskLevel, getTopDrivers, STATUS_RANK } from './utils';
+
+export interface FeedOptions {
+  region: Region;
+  minSeverity: SignalStatus;
+  limit: number;
+}
+
+export const DEFAULT_FEED_OPTIONS: FeedOptions = {
+  region: 'global',
+  minSeverity: 'normal',
+  limit: 50,
+};
+
+export interface FeedMeta {
+  title: string;
+  selfUrl: string;
+  siteUrl: string;
+  updated: Date;
+}
+
+// getRiskLevel labels on the signal status scale, for severity filtering
+const LEVEL_SEVERITY: Record<string, SignalStatus> = {
+  LOW: 'normal',
+  MODERATE: 'normal',
+  ELEVATED: 'elevated',
+  HIGH: 'high',
+};
+
+function moreSevere(a: SignalStatus, b: SignalStatus): SignalStatus {
+  return STATUS_RANK[a] >= STATUS_RANK[b] ? a : b;
+}
+
+function entryId(kind: FeedEntry['kind'], key: string, timestamp: Date, from: string, to: string): string {
+  return `${kind}:${key}:${timestamp.toISOString()}:${from}-${to}`;
+}
+
+function signalEntry(before: Signal, after: Signal, timestamp: Date): FeedEntry {
+  const escalated = STATUS_RANK[after.status] > STATUS_RANK[before.status];
+
+  return {
+    id: entryId('signal', `${after.id}:${after.region}`, timestamp, before.status, after.status),
+    kind: 'signal',
+    timestamp,
+    title: `${after.name}: ${before.status} → ${after.status}${escalated ? '' : ' (easing)'}`,
+    summary: after.explanation,
+    region: after.region,
+    severity: moreSevere(before.status, after.status),
+    scoreBefore: before.score,
+    scoreAfter: after.score,
+    link: after.sourceUrl,
+  };
+}
+
+function levelEntry(region: Region, before: number, after: number, snapshot: HistorySnapshot, signals: Signal[]): FeedEntry {
+  const from = getRiskLevel(before).label;
+  const to = getRiskLevel(after).label;
+  const name = region === 'global' ? 'Global risk index' : `${REGION_LABELS[region]} risk`;
+  const drivers = getTopDrivers(signals).map(s => `${s.name} (${s.score})`);
+
+  return {
+    id: entryId('risk-level', region, snapshot.timestamp, from, to),
+    kind: 'risk-level',
+    timestamp: snapshot.timestamp,
+    title: `${name}: ${from} → ${to}`,
+    summary: drivers.length > 0 ? `Top drivers: ${drivers.join(', ')}.` : 'No signals available.',
+    region,
+    severity: moreSevere(LEVEL_SEVERITY[from], LEVEL_SEVERITY[to]),
+    scoreBefore: before,
+    scoreAfter: after,
+    link: null,
+  };
+}
+
+/**
+ * Entries from `previous` to `snapshot` as seen from one region: signals as
+ * on the dashboard's region filter (regional components for multi-location
+ * signals), the level entry following the regional score
+ */
+function diffSnapshots(previous: HistorySnapshot, snapshot: HistorySnapshot, region: Region): FeedEntry[] {
+  const entries: FeedEntry[] = [];
+  const before = new Map(filterSignalsByRegion(previous.signals, region).map(s => [s.id, s]));
+  const signals = filterSignalsByRegion(snapshot.signals, region);
+
+  for (const signal of signals) {
+    const last = before.get(signal.id);
+    if (last && last.status !== signal.status) {
+      entries.push(signalEntry(last, signal, snapshot.timestamp));
+    }
+  }
+
+  const scoreOf = (s: HistorySnapshot) => (region === 'global' ? s.globalRisk.score : s.regionalScores[region]);
+  const [from, to] = [scoreOf(previous), scoreOf(snapshot)];
+  if (from !== undefined && to !== undefined && getRiskLevel(from).label !== getRiskLevel(to).label) {
+    entries.push(levelEntry(region, from, to, snapshot, signals));
+  }
+
+  return entries;
+}
+
+/**
+ * Entries for every region view between a stored poll and the next one,
+ * stored with the new poll (HistorySnapshot.changes)
+ */
+export function detectFeedChanges(previous: HistorySnapshot, snapshot: HistorySnapshot): Partial<Record<Region, FeedEntry[]>> {
+  const changes: Partial<Record<Region, FeedEntry[]>> = {};
+  for (const region of Object.keys(REGION_LABELS) as Region[]) {
+    const entries = diffSnapshots(previous, snapshot, region);
+    if (entries.length > 0) changes[region] = entries;
+  }
+  return changes;
+}
+
+/**
+ * Entries in the snapshots, newest first: the changes recorded with each
+ * poll, or for history written before they were recorded, the difference
+ * from the snapshot before it
+ */
+export function buildFeedEntries(snapshots: HistorySnapshot[], options: Partial<FeedOptions> = {}): FeedEntry[] {
+  const { region, minSeverity, limit } = { ...DEFAULT_FEED_OPTIONS, ...options };
+  const entries: FeedEntry[] = [];
+
+  snapshots.forEach((snapshot, i) => {
+    if (snapshot.changes) entries.push(...(snapshot.changes[region] ?? []));
+    else if (i > 0) entries.push(...diffSnapshots(snapshots[i - 1], snapshot, region));
+  });
+
+  return entries
+    .filter(entry => STATUS_RANK[entry.severity] >= STATUS_RANK[minSeverity])
+    .reverse()
+    .slice(0, limit);
+}
+
+// ============================================
+// Serialization
+// ============================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function entryText(entry: FeedEntry): string {
+  return [
+    entry.summary,
+    `Score ${entry.scoreBefore} → ${entry.scoreAfter}.`,
+    `Region: ${REGION_LABELS[entry.region]}.`,
+    entry.link && `Source: ${entry.link}`,
+  ].filter(Boolean).join(' ');
+}
+
+// Stable, globally unique entry ids that don't depend on the host
+function entryUrn(entry: FeedEntry): string {
+  return `urn:delta-intelligence:${entry.id.replace(/[^A-Za-z0-9:.-]/g, '-')}`;
+}
+
+export function toAtom(entries: FeedEntry[], meta: FeedMeta): string {
+  const items = entries.map(entry => `  <entry>
+    <id>${entryUrn(entry)}</id>
+    <title>${escapeXml(entry.title)}</title>
+    <updated>${entry.timestamp.toISOString()}</updated>
+    <link rel="alternate" href="${escapeXml(entry.link ?? meta.siteUrl)}"/>
+    <category term="${entry.region}" label="${escapeXml(REGION_LABELS[entry.region])}"/>
+    <category term="${entry.severity}" scheme="severity"/>
+    <summary>${escapeXml(entryText(entry))}</summary>
+  </entry>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(meta.selfUrl)}</id>
+  <title>${escapeXml(meta.title)}</title>
+  <updated>${(entries[0]?.timestamp ?? meta.updated).toISOString()}</updated>
+  <author><name>Delta Intelligence</name></author>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(meta.selfUrl)}"/>
+  <link rel="alternate" href="${escapeXml(meta.siteUrl)}"/>
+${items.join('\n')}
+</feed>
+`;
+}
+
+export function toRss(entries: FeedEntry[], meta: FeedMeta): string {
+  const items = entries.map(entry => `    <item>
+      <guid isPermaLink="false">${entryUrn(entry)}</guid>
+      <title>${escapeXml(entry.title)}</title>
+      <pubDate>${entry.timestamp.toUTCString()}</pubDate>
+      <link>${escapeXml(entry.link ?? meta.siteUrl)}</link>
+      <category>${escapeXml(REGION_LABELS[entry.region])}</category>
+      <category>${entry.severity}</category>
+      <description>${escapeXml(entryText(entry))}</description>
+    </item>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(meta.title)}</title>
+    <link>${escapeXml(meta.siteUrl)}</link>
+    <description>Status changes of Delta Intelligence risk signals</description>
+    <atom:link rel="self" type="application/rss+xml" href="${escapeXml(meta.selfUrl)}"/>
+    <lastBuildDate>${(entries[0]?.timestamp ?? meta.updated).toUTCString()}</lastBuildDate>
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
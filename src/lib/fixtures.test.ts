@@ -0,0 +1,152 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Signal } from '@/types';
+import { createRecordingTransport, createReplayTransport, Fixture, ScenarioManifest } from './fixtures';
+import { calculateGlobalRisk, calculateRegionalRisk, fetchAllSignals } from './signals';
+import { resetLastGoodSignals, scoreToStatus } from './sources';
+import { resetCircuitBreakers } from './circuit-breaker';
+import { getTransport, setTransport, Transport } from './http';
+
+const SCENARIOS = path.join(process.cwd(), 'fixtures', 'scenarios');
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true, recursive: true });
+  return entries.filter(e => e.isFile()).map(e => path.join(e.parentPath, e.name));
+}
+
+async function writeJson(file: string, value: unknown) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(value));
+}
+
+const fixture = (url: string, json: unknown): Fixture => ({ request: { method: 'GET', url }, response: { status: 200, json } });
+
+describe('fixture transports', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'fixtures-'));
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('records responses and failures without secrets, and replays them', async () => {
+    const recorded = path.join(dir, 'recorded');
+    const requests: string[] = [];
+    const upstream: Transport = async (url, init) => {
+      requests.push(`${init.method ?? 'GET'} ${url}`);
+      if (url.includes('down')) throw new TypeError('fetch failed');
+      return Response.json({ value: 42 }, { headers: { 'x-request-id': 'abc' } });
+    };
+    const record = createRecordingTransport(recorded, upstream);
+
+    const response = await record('https://api.example.com/series?b=2&api_key=secret&a=1', {});
+    assert.deepEqual(await response.json(), { value: 42 });
+    await assert.rejects(record('https://down.example.com/status', {}), /fetch failed/);
+    await record('https://api.example.com/hook', { method: 'POST' });
+    assert.equal(requests.length, 3);
+
+    const files = await listFiles(recorded);
+    assert.equal(files.length, 2); // POSTs pass through unsaved
+    const saved = await Promise.all(files.map(async file => JSON.parse(await fs.readFile(file, 'utf-8')) as Fixture));
+    const series = saved.find(f => f.response)!;
+    assert.equal(series.request.url, 'https://api.example.com/series?a=1&b=2');
+    assert.deepEqual(series.response!.headers, { 'content-type': 'application/json' });
+    assert.ok(!JSON.stringify(saved).includes('secret'));
+
+    // Replay matches on the normalized URL, with a different key
+    const replay = createReplayTransport(recorded);
+    const replayed = await replay('https://api.example.com/series?a=1&api_key=other&b=2', {});
+    assert.deepEqual(await replayed.json(), { value: 42 });
+    await assert.rejects(replay('https://down.example.com/status', {}), /fetch failed/);
+    await assert.rejects(replay('https://api.example.com/other', {}), /No fixture for GET https:\/\/api.example.com\/other/);
+  });
+
+  it('falls back to the extended scenario, then to the unmatched response', async () => {
+    const base = path.join(dir, 'base');
+    const child = path.join(dir, 'child');
+    await writeJson(path.join(base, 'a.json'), fixture('https://api.example.com/a', { from: 'base' }));
+    await writeJson(path.join(base, 'b.json'), fixture('https://api.example.com/b', { from: 'base' }));
+    await writeJson(path.join(child, 'b.json'), fixture('https://api.example.com/b', { from: 'child' }));
+    await writeJson(path.join(child, 'scenario.json'), {
+      name: 'Child',
+      description: 'Overrides b',
+      extends: 'base',
+      unmatched: { response: { status: 503, body: 'Service Unavailable' } },
+    } satisfies ScenarioManifest);
+
+    const replay = createReplayTransport(child);
+    assert.deepEqual(await (await replay('https://api.example.com/a', {})).json(), { from: 'base' });
+    assert.deepEqual(await (await replay('https://api.example.com/b', {})).json(), { from: 'child' });
+
+    const unmatched = await replay('https://api.example.com/c', {});
+    assert.equal(unmatched.status, 503);
+    assert.equal(await unmatched.text(), 'Service Unavailable');
+  });
+
+  it('rejects scenarios that extend each other in a cycle', async () => {
+    await writeJson(path.join(dir, 'x', 'scenario.json'), { name: 'X', description: '', extends: 'y' });
+    await writeJson(path.join(dir, 'y', 'scenario.json'), { name: 'Y', description: '', extends: 'x' });
+
+    await assert.rejects(createReplayTransport(path.join(dir, 'x'))('https://api.example.com/a', {}), /cycle/);
+  });
+});
+
+describe('scenarios', () => {
+  const transport = getTransport();
+
+  async function replay(scenario: string): Promise<Signal[]> {
+    setTransport(createReplayTransport(path.join(SCENARIOS, scenario)));
+    return fetchAllSignals();
+  }
+
+  const byId = (signals: Signal[]) => new Map(signals.map(s => [s.id, s]));
+
+  afterEach(() => {
+    setTransport(transport);
+    resetCircuitBreakers();
+    resetLastGoodSignals();
+  });
+
+  it('calm-day: every source live, nothing high, the index normal', async () => {
+    const signals = await replay('calm-day');
+
+    assert.ok(signals.length > 10);
+    assert.deepEqual(signals.filter(s => s.quality !== 'live').map(s => s.id), []);
+    assert.deepEqual(signals.filter(s => s.status === 'high').map(s => `${s.id} ${s.score}`), []);
+    assert.equal(scoreToStatus(calculateGlobalRisk(signals).score), 'normal');
+  });
+
+  it('market-crash: VIX and gold high, non-market sources as on calm-day', async () => {
+    const calm = byId(await replay('calm-day'));
+    resetLastGoodSignals();
+    const crash = byId(await replay('market-crash'));
+
+    assert.equal(crash.get('vix-fear-index')?.status, 'high');
+    assert.equal(crash.get('gold-safe-haven')?.status, 'high');
+    assert.equal(crash.get('seismic-activity')?.score, calm.get('seismic-activity')?.score);
+    assert.ok(calculateGlobalRisk([...crash.values()]).score > calculateGlobalRisk([...calm.values()]).score);
+  });
+
+  it('major-quake: seismic activity and outages high, Asia-Pacific risk up', async () => {
+    const calm = await replay('calm-day');
+    resetLastGoodSignals();
+    const quake = await replay('major-quake');
+    const signals = byId(quake);
+
+    assert.equal(signals.get('seismic-activity')?.status, 'high');
+    assert.equal(signals.get('internet-outages')?.status, 'high');
+    assert.ok(calculateRegionalRisk(quake, 'asia-pacific') > calculateRegionalRisk(calm, 'asia-pacific'));
+  });
+
+  it('all-sources-down: no live data, only fallback readings', async () => {
+    const signals = await replay('all-sources-down');
+
+    assert.ok(signals.length > 0);
+    assert.deepEqual(signals.filter(s => s.quality !== 'synthetic').map(s => s.id), []);
+    assert.equal(calculateGlobalRisk(signals).score, 0);
+  });
+});
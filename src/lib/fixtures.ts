@@ -0,0 +1,300 @@
+/**
+ * Record/replay fixtures for upstream requests
+ * FIXTURES_MODE=record saves every upstream response under FIXTURES_DIR, one
+ * JSON file per request; FIXTURES_MODE=replay serves those files instead of
+ * the network. Curated scenarios live in fixtures/scenarios.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { getTransport, setTransport, Transport } from './http';
+
+export interface FixtureResponse {
+  status: number;
+  headers?: Record<string, string>;
+  json?: unknown;
+  body?: string; // when the upstream body is not JSON
+}
+
+export interface Fixture {
+  request: { method: string; url: string }; // normalized, see normalizeUrl
+  recordedAt?: string;
+  response?: FixtureResponse;
+  error?: string; // network failure instead of a response
+}
+
+/**
+ * scenario.json in a fixtures directory
+ */
+export interface ScenarioManifest {
+  name: string;
+  description: string;
+  extends?: string; // sibling scenario that serves requests this one has no fixture for
+  unmatched?: Omit<Fixture, 'request'>; // served when no fixture matches
+}
+
+const MANIFEST_FILE = 'scenario.json';
+export const DEFAULT_FIXTURES_DIR = path.join('fixtures', 'recorded');
+
+// Response headers the fetchers read; everything else is dropped
+const KEPT_HEADERS = ['content-type', 'retry-after'];
+
+// ============================================
+// Request keys
+// ============================================
+
+// Credentials (FRED's api_key) are never written to disk or matched on
+const SECRET_PARAMS = ['api_key', 'apikey', 'key', 'token', 'access_token'];
+
+/**
+ * The URL a fixture is stored under: secrets removed, query sorted and
+ * dates in the path (Wikimedia's /YYYY/MM/DD, Frankfurter's YYYY-MM-DD..)
+ * replaced by {date} so a recording keeps matching on later days
+ */
+export function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  for (const param of SECRET_PARAMS) parsed.searchParams.delete(param);
+  parsed.searchParams.sort();
+
+  const pathname = parsed.pathname
+    .replace(/\/\d{4}\/\d{2}\/\d{2}(?=\/|$)/g, '/{date}')
+    .replace(/\d{4}-\d{2}-\d{2}/g, '{date}');
+  const query = parsed.searchParams.toString();
+
+  return `${parsed.origin}${pathname}${query ? `?${query}` : ''}`;
+}
+
+function requestKey(method: string, url: string): string {
+  return `${method.toUpperCase()} ${url}`;
+}
+
+/**
+ * <host>/<readable path>-<hash>.json
+ */
+function fixtureFile(dir: string, method: string, url: string): string {
+  const parsed = new URL(url);
+  const slug = `${parsed.pathname}${parsed.search}`
+    .replace(/%[0-9A-Fa-f]{2}/g, '-')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 60);
+  const hash = createHash('sha1').update(requestKey(method, url)).digest('hex').slice(0, 8);
+  return path.join(dir, parsed.hostname, `${slug || 'index'}-${hash}.json`);
+}
+
+// ============================================
+// Time placeholders
+// ============================================
+
+// {{now}}, {{now-2h}}, {{now-1d:date}}; a quoted :unix or :ms becomes a number
+const PLACEHOLDER = /("?)\{\{now(?:([+-])(\d+)([smhd]))?(?::(iso|date|unix|ms|compact))?\}\}("?)/g;
+
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000 };
+
+/**
+ * Curated fixtures stay fresh by writing timestamps relative to the time
+ * they are served; recordings keep the upstream's absolute times
+ */
+export function resolvePlaceholders(text: string, now = Date.now()): string {
+  return text.replace(PLACEHOLDER, (_match, open: string, sign?: string, amount?: string, unit?: string, format = 'iso', close?: string) => {
+    const offset = sign ? Number(amount) * UNIT_MS[unit!] * (sign === '-' ? -1 : 1) : 0;
+    const at = new Date(now + offset);
+
+    if (format === 'unix' || format === 'ms') {
+      const value = String(format === 'unix' ? Math.floor(at.getTime() / 1000) : at.getTime());
+      return open && close ? value : `${open}${value}${close}`;
+    }
+
+    const iso = at.toISOString();
+    const value = format === 'date'
+      ? iso.slice(0, 10)
+      : format === 'compact'
+        ? iso.replace(/[-:]|\.\d{3}/g, '') // GDELT's 20240115T143000Z
+        : iso;
+    return `${open}${value}${close}`;
+  });
+}
+
+// ============================================
+// Recording
+// ============================================
+
+// 204/304 responses can't be constructed with a body
+function responseBody(status: number, body: string): string | null {
+  return status === 204 || status === 304 ? null : body;
+}
+
+function toFixtureResponse(response: Response, text: string): FixtureResponse {
+  const headers: Record<string, string> = {};
+  for (const name of KEPT_HEADERS) {
+    const value = response.headers.get(name);
+    if (value !== null) headers[name] = value;
+  }
+
+  try {
+    return { status: response.status, headers, json: JSON.parse(text) };
+  } catch {
+    return { status: response.status, headers, body: text };
+  }
+}
+
+async function writeFixture(dir: string, fixture: Fixture) {
+  const file = fixtureFile(dir, fixture.request.method, fixture.request.url);
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+  } catch (error) {
+    console.error(`Fixture write failed for ${fixture.request.url}:`, error);
+  }
+}
+
+/**
+ * Passes requests to `inner` and saves each GET's response (or network
+ * failure) before returning it; the latest recording of a request wins.
+ * Other methods are passed through unsaved.
+ */
+export function createRecordingTransport(dir: string, inner: Transport): Transport {
+  return async (url, init) => {
+    const method = (init.method ?? 'GET').toUpperCase();
+    if (method !== 'GET') return inner(url, init);
+
+    const request = { method, url: normalizeUrl(url) };
+    try {
+      const response = await inner(url, init);
+      const text = await response.text();
+      await writeFixture(dir, {
+        request,
+        recordedAt: new Date().toISOString(),
+        response: toFixtureResponse(response, text),
+      });
+      // A fresh response rather than clone(): Node 20 can void the original's body once a clone is collected
+      return new Response(responseBody(response.status, text), {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    } catch (error) {
+      // Timeouts and cancellations say nothing about the upstream
+      if (!init.signal?.aborted) {
+        await writeFixture(dir, {
+          request,
+          recordedAt: new Date().toISOString(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      throw error;
+    }
+  };
+}
+
+// ============================================
+// Replay
+// ============================================
+
+interface Scenario {
+  fixtures: Map<string, string>; // request key -> fixture text, placeholders unresolved
+  unmatched?: Omit<Fixture, 'request'>;
+}
+
+async function readManifest(dir: string): Promise<ScenarioManifest | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, MANIFEST_FILE), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function listFixtureFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(entries.map(entry => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listFixtureFiles(file);
+    return entry.name.endsWith('.json') && entry.name !== MANIFEST_FILE ? [file] : [];
+  }));
+  return nested.flat();
+}
+
+/**
+ * A directory's fixtures on top of those of the scenario it extends
+ */
+async function loadScenario(dir: string, seen = new Set<string>()): Promise<Scenario> {
+  const resolved = path.resolve(dir);
+  if (seen.has(resolved)) throw new Error(`Fixture scenarios extend each other in a cycle at ${dir}`);
+  seen.add(resolved);
+
+  const manifest = await readManifest(resolved);
+  const base: Scenario = manifest?.extends
+    ? await loadScenario(path.join(path.dirname(resolved), manifest.extends), seen)
+    : { fixtures: new Map() };
+
+  const fixtures = new Map(base.fixtures);
+  for (const file of await listFixtureFiles(resolved)) {
+    const text = await fs.readFile(file, 'utf-8');
+    const fixture: Fixture = JSON.parse(text);
+    if (!fixture.request?.url) throw new Error(`Fixture without request.url: ${file}`);
+    fixtures.set(requestKey(fixture.request.method ?? 'GET', fixture.request.url), text);
+  }
+
+  return { fixtures, unmatched: manifest?.unmatched ?? base.unmatched };
+}
+
+function toResponse(fixture: Omit<Fixture, 'request'>, key: string): Response {
+  if (fixture.error) throw new TypeError(fixture.error);
+  if (!fixture.response) throw new TypeError(`Fixture for ${key} has neither response nor error`);
+
+  const { status, headers = {}, json, body } = fixture.response;
+  const content = json !== undefined ? JSON.stringify(json) : body ?? '';
+  return new Response(responseBody(status, content), {
+    status,
+    headers: json !== undefined ? { 'content-type': 'application/json', ...headers } : headers,
+  });
+}
+
+/**
+ * Serves the fixtures in `dir` (and the scenario it extends). Requests
+ * without a fixture get the manifest's `unmatched` response, else fail like
+ * an unreachable host - replay never touches the network.
+ */
+export function createReplayTransport(dir: string): Transport {
+  let scenario: Promise<Scenario> | null = null;
+
+  return async (url, init) => {
+    init.signal?.throwIfAborted();
+    scenario ??= loadScenario(dir);
+    const { fixtures, unmatched } = await scenario;
+
+    const key = requestKey(init.method ?? 'GET', normalizeUrl(url));
+    const text = fixtures.get(key);
+    if (text !== undefined) return toResponse(JSON.parse(resolvePlaceholders(text)), key);
+    if (unmatched) return toResponse(JSON.parse(resolvePlaceholders(JSON.stringify(unmatched))), key);
+    throw new TypeError(`No fixture for ${key}`);
+  };
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+let installed = false;
+
+/**
+ * Applies FIXTURES_MODE (record | replay) with FIXTURES_DIR once per process
+ */
+export function installFixtureTransport() {
+  if (installed) return;
+  installed = true;
+
+  const mode = process.env.FIXTURES_MODE;
+  if (!mode) return;
+  const dir = process.env.FIXTURES_DIR || path.join(process.cwd(), DEFAULT_FIXTURES_DIR);
+
+  if (mode === 'record') {
+    setTransport(createRecordingTransport(dir, getTransport()));
+  } else if (mode === 'replay') {
+    setTransport(createReplayTransport(dir));
+  } else {
+    console.error(`Unknown FIXTURES_MODE: ${mode} (record or replay)`);
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getOffshoreCacheSize, locatePoint } from './geo';
+
+describe('locatePoint', () => {
+  it('resolves land to its country and region', () => {
+    const paris = locatePoint(48.85, 2.35);
+    assert.equal(paris.country?.code, 'FR');
+    assert.equal(paris.region, 'europe');
+  });
+
+  it('resolves sea to the nearest region within range, otherwise global', () => {
+    assert.equal(locatePoint(37, 143).region, 'asia-pacific'); // off Honshu
+    assert.equal(locatePoint(-40, -130).region, 'global'); // South Pacific
+    assert.equal(locatePoint(37, 143, { mode: 'strict', maxOffshoreKm: 1000 }).region, 'global');
+  });
+
+  it('keeps the offshore cache bounded', () => {
+    // 101 x 101 quarter-degree cells of open ocean
+    for (let i = 0; i <= 100; i++) {
+      for (let j = 0; j <= 100; j++) locatePoint(-60 + i * 0.25, -150 + j * 0.25);
+    }
+    assert.equal(getOffshoreCacheSize(), 10000);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Bundled country geometry
+ * Country polygons from world-atlas (Natural Earth 1:110m), joined to the
+ * country reference table, plus point-in-polygon country and region lookup.
+ *
+ * Tie-breaks: country polygons don't overlap, but where the data does
+ * (disputed areas, enclaves) the smallest polygon wins. Points at sea
+ * resolve per REGION_DETECTION: the nearest country's region within
+ * maxOffshoreKm ('nearest'), otherwise 'global'.
+ */
+
+import { feature } from 'topojson-client';
+import type { Topology, GeometryCollection } from 'topojson-specification';
+import countriesTopology from 'world-atlas/countries-110m.json';
+import { Region } from '@/types';
+import { CountryInfo, getCountryByNumeric, findCountry } from './countries';
+import { REGION_DETECTION, RegionDetection } from './config';
+
+export interface CountryProperties {
+  code: string; // ISO-2
+  name: string;
+}
+
+export type CountryFeature = GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon, CountryProperties>;
+
+type Ring = GeoJSON.Position[];
+type BBox = [minLng: number, minLat: number, maxLng: number, maxLat: number];
+
+interface IndexedCountry {
+  country: CountryInfo;
+  polygons: Ring[][];
+  bbox: BBox;
+  area: number; // bbox area in square degrees, for tie-breaks
+}
+
+export interface PointLocation {
+  country?: CountryInfo; // set when the point is on land
+  region: Region;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+let features: CountryFeature[] | null = null;
+let index: IndexedCountry[] | null = null;
+
+/**
+ * Country polygons keyed by ISO-2 code. Breakaway territories without an
+ * ISO code (Somaliland, N. Cyprus) resolve by alias to the recognised state.
+ */
+export function getCountryFeatures(): CountryFeature[] {
+  if (features) return features;
+
+  const topology = countriesTopology as unknown as Topology<{
+    countries: GeometryCollection<{ name: string }>;
+  }>;
+  const collection = feature(topology, topology.objects.countries) as GeoJSON.FeatureCollection<
+    GeoJSON.Polygon | GeoJSON.MultiPolygon,
+    { name: string }
+  >;
+
+  features = collection.features.flatMap(f => {
+    const country = (f.id !== undefined && getCountryByNumeric(String(f.id))) || findCountry(f.properties.name);
+    if (!country) return [];
+    return [{ ...f, properties: { code: country.code, name: country.name } }];
+  });
+  return features;
+}
+
+function ringBBox(ring: Ring, bbox: BBox): BBox {
+  for (const [lng, lat] of ring) {
+    bbox = [Math.min(bbox[0], lng), Math.min(bbox[1], lat), Math.max(bbox[2], lng), Math.max(bbox[3], lat)];
+  }
+  return bbox;
+}
+
+function getIndex(): IndexedCountry[] {
+  if (index) return index;
+
+  index = getCountryFeatures().flatMap(f => {
+    const country = findCountry(f.properties.code);
+    if (!country) return [];
+    const polygons = f.geometry.type === 'Polygon' ? [f.geometry.coordinates] : f.geometry.coordinates;
+    const bbox = polygons.reduce<BBox>((box, rings) => ringBBox(rings[0], box), [Infinity, Infinity, -Infinity, -Infinity]);
+    return [{ country, polygons, bbox, area: (bbox[2] - bbox[0]) * (bbox[3] - bbox[1]) }];
+  });
+  return index;
+}
+
+// Ray casting; works in plain lng/lat, which is fine at this resolution
+function inRing(lng: number, lat: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function inPolygon(lng: number, lat: number, rings: Ring[]): boolean {
+  return inRing(lng, lat, rings[0]) && !rings.slice(1).some(hole => inRing(lng, lat, hole));
+}
+
+/**
+ * Country containing a point, if it falls on land
+ */
+export function countryAt(lat: number, lng: number): CountryInfo | undefined {
+  let match: IndexedCountry | undefined;
+  for (const entry of getIndex()) {
+    const { polygons, bbox } = entry;
+    if (lng < bbox[0] || lng > bbox[2] || lat < bbox[1] || lat > bbox[3]) continue;
+    if (match && entry.area >= match.area) continue;
+    if (polygons.some(rings => inPolygon(lng, lat, rings))) match = entry;
+  }
+  return match?.country;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Lower bound on the distance from a point to anything inside a bbox
+function bboxDistanceKm(lat: number, lng: number, bbox: BBox): number {
+  const nearLat = Math.min(Math.max(lat, bbox[1]), bbox[3]);
+  const nearLng = Math.min(Math.max(lng, bbox[0]), bbox[2]);
+  return Math.min(
+    distanceKm(lat, lng, nearLat, nearLng),
+    distanceKm(lat, lng, nearLat, nearLng + 360),
+    distanceKm(lat, lng, nearLat, nearLng - 360)
+  );
+}
+
+/**
+ * Country with the coastline vertex closest to a point, and how far it is
+ */
+function nearestCountry(lat: number, lng: number): { country: CountryInfo; km: number } | undefined {
+  let best: { country: CountryInfo; km: number } | undefined;
+
+  const candidates = getIndex()
+    .map(entry => ({ entry, bound: bboxDistanceKm(lat, lng, entry.bbox) }))
+    .sort((a, b) => a.bound - b.bound);
+
+  for (const { entry, bound } of candidates) {
+    if (best && bound >= best.km) break;
+    for (const rings of entry.polygons) {
+      for (const [vLng, vLat] of rings[0]) {
+        const km = distanceKm(lat, lng, vLat, vLng);
+        if (!best || km < best.km) best = { country: entry.country, km };
+      }
+    }
+  }
+  return best;
+}
+
+// Offshore lookups are cached on a quarter-degree grid, least recently used
+// cells evicted first so a long-running server's cache stays bounded
+const OFFSHORE_CELL = 0.25;
+const OFFSHORE_CACHE_SIZE = 10000;
+const offshoreCache = new Map<string, { country: CountryInfo; km: number } | null>();
+
+function nearestCountryCached(lat: number, lng: number): { country: CountryInfo; km: number } | null {
+  const key = `${Math.round(lat / OFFSHORE_CELL)},${Math.round(lng / OFFSHORE_CELL)}`;
+
+  if (offshoreCache.has(key)) {
+    const cached = offshoreCache.get(key)!;
+    // Re-insert to mark the cell as most recently used
+    offshoreCache.delete(key);
+    offshoreCache.set(key, cached);
+    return cached;
+  }
+
+  const nearest = nearestCountry(lat, lng) ?? null;
+  offshoreCache.set(key, nearest);
+  if (offshoreCache.size > OFFSHORE_CACHE_SIZE) {
+    offshoreCache.delete(offshoreCache.keys().next().value!);
+  }
+  return nearest;
+}
+
+/** Cached offshore cells; exposed for tests */
+export function getOffshoreCacheSize(): number {
+  return offshoreCache.size;
+}
+
+/**
+ * Country and region for a point. On land the country's region; at sea
+ * see REGION_DETECTION.
+ */
+export function locatePoint(lat: number, lng: number, options: RegionDetection = REGION_DETECTION): PointLocation {
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return { region: 'global' };
+
+  const country = countryAt(lat, lng);
+  if (country) return { country, region: country.region };
+  if (options.mode === 'strict') return { region: 'global' };
+
+  const nearest = nearestCountryCached(lat, lng);
+
+  return nearest && nearest.km <= options.maxOffshoreKm ? { region: nearest.country.region } : { region: 'global' };
+}
+
+export function regionAt(lat: number, lng: number, options?: RegionDetection): Region {
+  return locatePoint(lat, lng, options).region;
+}
@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HistorySnapshot, Region, REGION_LABELS, Signal } from '@/types';
+import { downsample, getSnapshotAt, MemoryHistoryStore, RetentionPolicy } from './history';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const POLICY: RetentionPolicy = { rawMs: 48 * HOUR, hourlyMs: 90 * 24 * HOUR };
+
+function signal(score: number, metric?: number): Signal {
+  return {
+    id: 'vix-fear-index',
+    name: 'VIX',
+    region: 'global',
+    status: 'normal',
+    score,
+    explanation: `score ${score}`,
+    baselineComparison: '',
+    confidence: 'high',
+    sourceUrl: 'https://example.com',
+    sourceName: 'Example',
+    lastUpdated: NOW,
+    category: 'markets',
+    scoringMode: 'formula',
+    quality: 'live',
+    observedAt: NOW,
+    ...(metric !== undefined && { metric: { value: metric, label: 'VIX level' } }),
+  };
+}
+
+function snapshot(hoursAgo: number, score: number, overrides: Partial<HistorySnapshot> = {}): HistorySnapshot {
+  const timestamp = new Date(NOW.getTime() - hoursAgo * HOUR);
+  const regions = Object.keys(REGION_LABELS) as Region[];
+  return {
+    timestamp,
+    resolution: 'raw',
+    sampleCount: 1,
+    globalRisk: { score, trend: 'stable', lastUpdated: timestamp, signalCount: 1 },
+    regionalScores: Object.fromEntries(regions.map(r => [r, score])) as Record<Region, number>,
+    countryScores: {},
+    signals: [signal(score, score / 2)],
+    ...overrides,
+  };
+}
+
+const times = (snapshots: HistorySnapshot[]) => snapshots.map(s => s.timestamp.toISOString());
+
+describe('MemoryHistoryStore', () => {
+  it('returns snapshots in time order whatever the append order', async () => {
+    const store = new MemoryHistoryStore();
+    for (const hoursAgo of [1, 5, 3, 4, 2]) await store.append(snapshot(hoursAgo, 10));
+
+    const all = await store.getSnapshots({ from: new Date(0), to: NOW });
+    assert.deepEqual(times(all), [5, 4, 3, 2, 1].map(h => new Date(NOW.getTime() - h * HOUR).toISOString()));
+  });
+
+  it('includes both ends of the range', async () => {
+    const store = new MemoryHistoryStore();
+    for (const hoursAgo of [1, 2, 3, 4, 5]) await store.append(snapshot(hoursAgo, 10));
+
+    const range = { from: new Date(NOW.getTime() - 4 * HOUR), to: new Date(NOW.getTime() - 2 * HOUR) };
+    assert.equal((await store.getSnapshots(range)).length, 3);
+    assert.equal((await store.getSnapshots({ from: NOW, to: NOW })).length, 0);
+  });
+
+  it('compacts with the retention policy', async () => {
+    const store = new MemoryHistoryStore();
+    await store.append(snapshot(1, 20));
+    await store.append(snapshot(72.5, 40));
+    await store.append(snapshot(72.25, 60));
+    await store.append(snapshot(100 * 24, 90));
+
+    await store.compact(NOW, POLICY);
+    const all = await store.getSnapshots({ from: new Date(0), to: NOW });
+
+    assert.deepEqual(all.map(s => [s.resolution, s.globalRisk.score]), [['hourly', 50], ['raw', 20]]);
+  });
+});
+
+describe('downsample', () => {
+  it('keeps raw polls inside the raw window untouched', () => {
+    const recent = [snapshot(3, 10), snapshot(2, 20), snapshot(1, 30)];
+    assert.deepEqual(downsample(recent, NOW, POLICY), recent);
+  });
+
+  it('merges older polls into hourly snapshots weighted by sample count', () => {
+    const [hourly] = downsample([
+      snapshot(50.75, 10, { sampleCount: 1 }),
+      snapshot(50.5, 40, { sampleCount: 3 }),
+    ], NOW, POLICY);
+
+    assert.equal(hourly.resolution, 'hourly');
+    assert.equal(hourly.sampleCount, 4);
+    assert.equal(hourly.timestamp.toISOString(), '2026-10-17T09:00:00.000Z');
+    assert.equal(hourly.globalRisk.score, 33); // (10 + 40*3) / 4
+    assert.equal(hourly.regionalScores.europe, 33);
+    assert.equal(hourly.signals[0].score, 33);
+    assert.equal(hourly.signals[0].status, 'normal');
+    assert.equal(hourly.signals[0].metric?.value, 16.25);
+    // Text comes from the latest poll in the bucket
+    assert.equal(hourly.signals[0].explanation, 'score 40');
+  });
+
+  it('drops data older than the hourly window', () => {
+    assert.deepEqual(downsample([snapshot(91 * 24, 50)], NOW, POLICY), []);
+  });
+
+  it('is stable when run again over its own output', () => {
+    const once = downsample([snapshot(60.5, 10), snapshot(60.25, 30), snapshot(1, 50)], NOW, POLICY);
+    assert.deepEqual(downsample(once, NOW, POLICY), once);
+  });
+
+  it('folds new polls into an existing hourly bucket by weight', () => {
+    const [merged] = downsample([
+      snapshot(60, 20, { resolution: 'hourly', sampleCount: 4 }),
+      snapshot(59.5, 70, { sampleCount: 1 }),
+    ], NOW, POLICY);
+
+    assert.equal(merged.sampleCount, 5);
+    assert.equal(merged.globalRisk.score, 30); // (20*4 + 70) / 5
+  });
+});
+
+describe('getSnapshotAt', () => {
+  it('returns the latest snapshot at or before the moment', async () => {
+    const store = new MemoryHistoryStore();
+    for (const hoursAgo of [3, 2, 1]) await store.append(snapshot(hoursAgo, hoursAgo * 10));
+
+    const at = await getSnapshotAt(store, new Date(NOW.getTime() - 1.5 * HOUR));
+    assert.equal(at?.globalRisk.score, 20);
+  });
+
+  it('returns null when nothing was stored within the lookback', async () => {
+    const store = new MemoryHistoryStore();
+    await store.append(snapshot(10, 50));
+
+    assert.equal(await getSnapshotAt(store, new Date(NOW.getTime() - 5 * HOUR)), null);
+  });
+});
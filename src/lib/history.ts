@@ -0,0 +1,512 @@
+/**
+ * Time-series history of signal snapshots
+ * Every poll is appended as a raw snapshot, with its feed entries against
+ * the poll before it. Compaction keeps raw data for 48h, merges older data
+ * into hourly snapshots (keeping every feed entry) and drops it after 90 days.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  Signal,
+  FeedEntry,
+  Region,
+  REGION_LABELS,
+  SignalSnapshot,
+  HistorySnapshot,
+  HistoryPoint,
+  SignalHistoryPoint,
+  StatusTransition,
+  ReplayTimeline,
+  Serialized,
+} from '@/types';
+import { calculateRegionalRisk, calculateCountryRisk } from './signals';
+import { scoreToStatus } from './sources';
+import { deserializeHistorySnapshot } from './serialize';
+import { detectFeedChanges } from './feed';
+import { BaselineProvider } from './baselines';
+
+export interface TimeRange {
+  from: Date;
+  to: Date;
+}
+
+export interface RetentionPolicy {
+  rawMs: number; // keep every poll for this long
+  hourlyMs: number; // keep hourly aggregates for this long
+}
+
+export const HISTORY_RETENTION: RetentionPolicy = {
+  rawMs: 48 * 60 * 60 * 1000,
+  hourlyMs: 90 * 24 * 60 * 60 * 1000,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface HistoryStore {
+  append(snapshot: HistorySnapshot): Promise<void>;
+  getSnapshots(range: TimeRange): Promise<HistorySnapshot[]>;
+  compact(now?: Date, policy?: RetentionPolicy): Promise<void>;
+}
+
+/**
+ * Build a raw history snapshot from a live snapshot; feed entries are
+ * recorded against `previous`, the last stored poll (none without one)
+ */
+export function toHistorySnapshot(snapshot: SignalSnapshot, previous: HistorySnapshot | null = null): HistorySnapshot {
+  const regions = Object.keys(REGION_LABELS) as Region[];
+  const regionalScores = Object.fromEntries(
+    regions.map(region => [
+      region,
+      region === 'global' ? snapshot.globalRisk.score : calculateRegionalRisk(snapshot.signals, region),
+    ])
+  ) as Record<Region, number>;
+
+  const stored: HistorySnapshot = {
+    timestamp: snapshot.generatedAt,
+    resolution: 'raw',
+    sampleCount: 1,
+    globalRisk: snapshot.globalRisk,
+    regionalScores,
+    countryScores: Object.fromEntries(calculateCountryRisk(snapshot.signals).map(c => [c.code, c.score])),
+    // Evidence lists are large and only shown live, so they are not kept
+    signals: snapshot.signals.map(signal => ({ ...signal, evidence: undefined })),
+  };
+
+  return { ...stored, changes: previous ? detectFeedChanges(previous, stored) : {} };
+}
+
+// ============================================
+// Downsampling
+// ============================================
+function weightedMean(values: { value: number; weight: number }[]): number {
+  const totalWeight = values.reduce((sum, v) => sum + v.weight, 0);
+  if (totalWeight === 0) return 0;
+  return Math.round(values.reduce((sum, v) => sum + v.value * v.weight, 0) / totalWeight);
+}
+
+/**
+ * Merge snapshots into one hourly snapshot, weighted by sample count.
+ * Text fields come from the most recent snapshot in the bucket.
+ */
+function mergeSnapshots(bucketStart: Date, snapshots: HistorySnapshot[]): HistorySnapshot {
+  const latest = snapshots[snapshots.length - 1];
+  const sampleCount = snapshots.reduce((sum, s) => sum + s.sampleCount, 0);
+
+  const regionalScores = { ...latest.regionalScores };
+  for (const region of Object.keys(regionalScores) as Region[]) {
+    regionalScores[region] = weightedMean(
+      snapshots.map(s => ({ value: s.regionalScores[region] ?? 0, weight: s.sampleCount }))
+    );
+  }
+
+  // Countries missing from a snapshot had no evidence then, i.e. a score of 0
+  const countryCodes = new Set(snapshots.flatMap(s => Object.keys(s.countryScores ?? {})));
+  const countryScores = Object.fromEntries(
+    [...countryCodes].map(code => [
+      code,
+      weightedMean(snapshots.map(s => ({ value: s.countryScores?.[code] ?? 0, weight: s.sampleCount }))),
+    ])
+  );
+
+  type Samples = { value: number; weight: number }[];
+  const signalsById = new Map<string, { signal: Signal; scores: Samples; metrics: Samples }>();
+  for (const snapshot of snapshots) {
+    for (const signal of snapshot.signals) {
+      const entry = signalsById.get(signal.id) || { signal, scores: [], metrics: [] };
+      entry.signal = signal;
+      entry.scores.push({ value: signal.score, weight: snapshot.sampleCount });
+      if (signal.metric) {
+        entry.metrics.push({ value: signal.metric.value, weight: snapshot.sampleCount });
+      }
+      signalsById.set(signal.id, entry);
+    }
+  }
+
+  // Feed entries of every merged poll, in order; history written before they
+  // were recorded has none to keep
+  let changes: HistorySnapshot['changes'];
+  for (const snapshot of snapshots) {
+    if (!snapshot.changes) continue;
+    changes ??= {};
+    for (const [region, entries] of Object.entries(snapshot.changes) as [Region, FeedEntry[]][]) {
+      changes[region] = [...(changes[region] ?? []), ...entries];
+    }
+  }
+
+  const signals = [...signalsById.values()].map(({ signal, scores, metrics }) => {
+    const score = weightedMean(scores);
+    const merged: Signal = { ...signal, score, status: scoreToStatus(score) };
+    if (signal.metric && metrics.length > 0) {
+      const totalWeight = metrics.reduce((sum, m) => sum + m.weight, 0);
+      merged.metric = {
+        ...signal.metric,
+        value: metrics.reduce((sum, m) => sum + m.value * m.weight, 0) / totalWeight,
+      };
+    }
+    return merged;
+  });
+
+  return {
+    timestamp: bucketStart,
+    resolution: 'hourly',
+    sampleCount,
+    globalRisk: {
+      ...latest.globalRisk,
+      score: weightedMean(snapshots.map(s => ({ value: s.globalRisk.score, weight: s.sampleCount }))),
+    },
+    regionalScores,
+    countryScores,
+    signals,
+    ...(changes && { changes }),
+  };
+}
+
+/**
+ * Apply the retention policy to a time-ordered list of snapshots
+ */
+export function downsample(
+  snapshots: HistorySnapshot[],
+  now: Date = new Date(),
+  policy: RetentionPolicy = HISTORY_RETENTION
+): HistorySnapshot[] {
+  const rawCutoff = now.getTime() - policy.rawMs;
+  const hourlyCutoff = now.getTime() - policy.hourlyMs;
+
+  const buckets = new Map<number, HistorySnapshot[]>();
+  const raw: HistorySnapshot[] = [];
+
+  for (const snapshot of snapshots) {
+    const time = snapshot.timestamp.getTime();
+    if (time < hourlyCutoff) continue;
+
+    if (time >= rawCutoff && snapshot.resolution === 'raw') {
+      raw.push(snapshot);
+      continue;
+    }
+
+    const bucket = Math.floor(time / HOUR_MS) * HOUR_MS;
+    const entries = buckets.get(bucket) || [];
+    entries.push(snapshot);
+    buckets.set(bucket, entries);
+  }
+
+  const hourly = [...buckets.entries()].map(([bucket, entries]) =>
+    entries.length === 1 && entries[0].resolution === 'hourly'
+      ? entries[0]
+      : mergeSnapshots(new Date(bucket), entries)
+  );
+
+  return [...hourly, ...raw].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+// ============================================
+// Time index
+// Both stores keep snapshots sorted by timestamp and binary-search them,
+// so range queries don't scan the whole history
+// ============================================
+
+/**
+ * First index with a timestamp at or after `time` (after it, with `after`)
+ */
+function bisect(snapshots: HistorySnapshot[], time: number, after = false): number {
+  let low = 0;
+  let high = snapshots.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    const midTime = snapshots[mid].timestamp.getTime();
+    if (midTime < time || (after && midTime === time)) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+function sliceRange(snapshots: HistorySnapshot[], range: TimeRange): HistorySnapshot[] {
+  return snapshots.slice(bisect(snapshots, range.from.getTime()), bisect(snapshots, range.to.getTime(), true));
+}
+
+// Polls normally arrive in order, so this is usually an append
+function insertSorted(snapshots: HistorySnapshot[], snapshot: HistorySnapshot) {
+  snapshots.splice(bisect(snapshots, snapshot.timestamp.getTime(), true), 0, snapshot);
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Score history of one signal over a time range
+ */
+export async function getSignalHistory(
+  store: HistoryStore,
+  signalId: string,
+  range: TimeRange
+): Promise<SignalHistoryPoint[]> {
+  const snapshots = await store.getSnapshots(range);
+
+  return snapshots.flatMap(snapshot => {
+    const signal = snapshot.signals.find(s => s.id === signalId);
+    if (!signal) return [];
+    return [{
+      timestamp: snapshot.timestamp,
+      score: signal.score,
+      status: signal.status,
+      resolution: snapshot.resolution,
+    }];
+  });
+}
+
+/**
+ * Risk score history of one region ('global' is the global index)
+ */
+export async function getRegionHistory(
+  store: HistoryStore,
+  region: Region,
+  range: TimeRange
+): Promise<HistoryPoint[]> {
+  const snapshots = await store.getSnapshots(range);
+
+  return snapshots.map(snapshot => ({
+    timestamp: snapshot.timestamp,
+    score: region === 'global' ? snapshot.globalRisk.score : snapshot.regionalScores[region] ?? 0,
+    resolution: snapshot.resolution,
+  }));
+}
+
+/**
+ * Country index history (ISO-2 code); snapshots without evidence for the
+ * country score 0
+ */
+export async function getCountryHistory(
+  store: HistoryStore,
+  code: string,
+  range: TimeRange
+): Promise<HistoryPoint[]> {
+  const snapshots = await store.getSnapshots(range);
+
+  return snapshots.map(snapshot => ({
+    timestamp: snapshot.timestamp,
+    score: snapshot.countryScores?.[code] ?? 0,
+    resolution: snapshot.resolution,
+  }));
+}
+
+/**
+ * Metric values of one signal, averaged per hour so dense raw polling
+ * does not outweigh older hourly aggregates
+ */
+export async function getMetricHistory(
+  store: HistoryStore,
+  signalId: string,
+  range: TimeRange
+): Promise<number[]> {
+  const snapshots = await store.getSnapshots(range);
+  const buckets = new Map<number, { sum: number; weight: number }>();
+
+  for (const snapshot of snapshots) {
+    const metric = snapshot.signals.find(s => s.id === signalId)?.metric;
+    if (!metric) continue;
+
+    const bucket = Math.floor(snapshot.timestamp.getTime() / HOUR_MS);
+    const entry = buckets.get(bucket) || { sum: 0, weight: 0 };
+    entry.sum += metric.value * snapshot.sampleCount;
+    entry.weight += snapshot.sampleCount;
+    buckets.set(bucket, entry);
+  }
+
+  return [...buckets.values()].map(b => b.sum / b.weight);
+}
+
+/**
+ * Baseline provider backed by a history store
+ */
+export function createBaselineProvider(store: HistoryStore): BaselineProvider {
+  return {
+    getMetricHistory: (signalId, since) =>
+      getMetricHistory(store, signalId, { from: since, to: new Date() }),
+  };
+}
+
+// ============================================
+// Replay
+// ============================================
+
+// How far back getSnapshotAt looks; hourly snapshots are an hour apart
+const SNAPSHOT_LOOKBACK_MS = 2 * HOUR_MS;
+
+/**
+ * Status changes between consecutive snapshots, oldest first. A signal's
+ * first appearance is not a transition.
+ */
+export function detectTransitions(snapshots: HistorySnapshot[]): StatusTransition[] {
+  const previous = new Map<string, Signal>();
+  const transitions: StatusTransition[] = [];
+
+  for (const snapshot of snapshots) {
+    for (const signal of snapshot.signals) {
+      const before = previous.get(signal.id);
+      if (before && before.status !== signal.status) {
+        transitions.push({
+          timestamp: snapshot.timestamp,
+          signalId: signal.id,
+          signalName: signal.name,
+          region: signal.region,
+          from: before.status,
+          to: signal.status,
+          score: signal.score,
+        });
+      }
+      previous.set(signal.id, signal);
+    }
+  }
+
+  return transitions;
+}
+
+/**
+ * Frames (global score per stored snapshot) and transitions for a range
+ */
+export async function getReplayTimeline(store: HistoryStore, range: TimeRange): Promise<ReplayTimeline> {
+  const snapshots = await store.getSnapshots(range);
+
+  return {
+    from: range.from,
+    to: range.to,
+    frames: snapshots.map(snapshot => ({
+      timestamp: snapshot.timestamp,
+      score: snapshot.globalRisk.score,
+      resolution: snapshot.resolution,
+    })),
+    events: detectTransitions(snapshots),
+  };
+}
+
+/**
+ * The dashboard as stored at a moment: the latest snapshot at or before
+ * it, or null if there is none within the lookback
+ */
+export async function getSnapshotAt(store: HistoryStore, at: Date): Promise<HistorySnapshot | null> {
+  const snapshots = await store.getSnapshots({ from: new Date(at.getTime() - SNAPSHOT_LOOKBACK_MS), to: at });
+  return snapshots[snapshots.length - 1] ?? null;
+}
+
+// ============================================
+// Adapters
+// ============================================
+
+/**
+ * In-memory store (tests, ephemeral deployments)
+ */
+export class MemoryHistoryStore implements HistoryStore {
+  private snapshots: HistorySnapshot[] = [];
+
+  async append(snapshot: HistorySnapshot) {
+    insertSorted(this.snapshots, snapshot);
+  }
+
+  async getSnapshots(range: TimeRange) {
+    return sliceRange(this.snapshots, range);
+  }
+
+  async compact(now?: Date, policy?: RetentionPolicy) {
+    this.snapshots = downsample(this.snapshots, now, policy);
+  }
+}
+
+/**
+ * JSON-lines file store. The file is loaded once and mirrored in memory
+ * (bounded by retention: hourly aggregates past 48h); appends are written
+ * through, compaction rewrites the file.
+ */
+export class FileHistoryStore implements HistoryStore {
+  private file: string;
+  private snapshots: HistorySnapshot[] | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(dir: string) {
+    this.file = path.join(dir, 'history.jsonl');
+  }
+
+  // Serialize file access so appends and compaction never interleave
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<HistorySnapshot[]> {
+    if (this.snapshots) return this.snapshots;
+
+    try {
+      const content = await fs.readFile(this.file, 'utf8');
+      this.snapshots = content
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => deserializeHistorySnapshot(JSON.parse(line) as Serialized<HistorySnapshot>))
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      this.snapshots = [];
+    }
+
+    return this.snapshots;
+  }
+
+  append(snapshot: HistorySnapshot) {
+    return this.enqueue(async () => {
+      const snapshots = await this.load();
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.appendFile(this.file, JSON.stringify(snapshot) + '\n');
+      insertSorted(snapshots, snapshot);
+    });
+  }
+
+  getSnapshots(range: TimeRange) {
+    return this.enqueue(async () => sliceRange(await this.load(), range));
+  }
+
+  compact(now?: Date, policy?: RetentionPolicy) {
+    return this.enqueue(async () => {
+      const compacted = downsample(await this.load(), now, policy);
+      const tmpFile = `${this.file}.tmp`;
+
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.writeFile(tmpFile, compacted.map(s => JSON.stringify(s)).join('\n') + (compacted.length ? '\n' : ''));
+      await fs.rename(tmpFile, this.file);
+      this.snapshots = compacted;
+    });
+  }
+}
+
+let historyStore: HistoryStore | null = null;
+
+/**
+ * Shared store: HISTORY_STORE=memory keeps history in-process,
+ * otherwise it is written under HISTORY_DIR (default .data/)
+ */
+export function getHistoryStore(): HistoryStore {
+  if (!historyStore) {
+    historyStore = process.env.HISTORY_STORE === 'memory'
+      ? new MemoryHistoryStore()
+      : new FileHistoryStore(process.env.HISTORY_DIR || path.join(process.cwd(), '.data'));
+  }
+  return historyStore;
+}
+
+/**
+ * Swap the shared store (e.g. a MemoryHistoryStore in tests)
+ */
+export function setHistoryStore(store: HistoryStore) {
+  historyStore = store;
+}
+
+/**
+ * Parse ?from=&to= (ISO dates); defaults to the last 24h
+ */
+export function parseTimeRange(params: URLSearchParams, defaultMs = 24 * HOUR_MS): TimeRange | null {
+  const to = params.get('to') ? new Date(params.get('to')!) : new Date();
+  const from = params.get('from') ? new Date(params.get('from')!) : new Date(to.getTime() - defaultMs);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) return null;
+  return { from, to };
+}
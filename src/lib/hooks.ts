@@ -1,19 +1,102 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Signal, Region, GlobalRisk, DashboardState } from '@/types';
-import { fetchAllSignals, calculateGlobalRisk, filterSignalsByRegion, calculateRegionalRisk } from './signals';
+import {
+  Signal,
+  Region,
+  GlobalRisk,
+  DashboardState,
+  SignalSnapshot,
+  SignalUpdate,
+  ConnectionMode,
+  OpenCircuit,
+  SourceHealth,
+  SourceErrorRecord,
+  HistoryPoint,
+  HistorySnapshot,
+  ReplayTimeline,
+  StatusTransition,
+  Serialized,
+} from '@/types';
+import { filterSignalsByRegion, calculateRegionalRisk } from './signals';
+import {
+  deserializeSnapshot,
+  deserializeSignalUpdate,
+  deserializeSourceHealth,
+  deserializeSourceError,
+  deserializeHistorySnapshot,
+  deserializeHistoryPoint,
+  deserializeReplayTimeline,
+} from './serialize';
 
-const POLL_INTERVAL = 60000; // 60 seconds
+const POLL_INTERVAL = 60000; // 60 seconds, used when streaming is unavailable
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+const SIGNALS_ENDPOINT = '/api/signals';
+const STREAM_ENDPOINT = '/api/signals/stream';
+const STORED_SNAPSHOT_ENDPOINT = '/api/history/snapshot';
+
+async function fetchSnapshot(): Promise<SignalSnapshot> {
+  const response = await fetch(SIGNALS_ENDPOINT, { cache: 'no-store' });
+  if (!response.ok) throw new Error(`Signals API error: ${response.status}`);
+
+  const data: Serialized<SignalSnapshot> = await response.json();
+  return deserializeSnapshot(data);
+}
+
+async function fetchStoredSnapshot(at: Date, signal?: AbortSignal): Promise<HistorySnapshot> {
+  const response = await fetch(`${STORED_SNAPSHOT_ENDPOINT}?at=${encodeURIComponent(at.toISOString())}`, {
+    cache: 'no-store',
+    signal,
+  });
+  if (!response.ok) throw new Error(`History API error: ${response.status}`);
+
+  const data: Serialized<{ snapshot: HistorySnapshot }> = await response.json();
+  return deserializeHistorySnapshot(data.snapshot);
+}
+
+/**
+ * Apply a stream update: changed signals replace their previous version
+ * in place, new ones are appended, removed ids are dropped
+ */
+function mergeSignals(current: Signal[], update: SignalUpdate): Signal[] {
+  const changed = new Map(update.signals.map(s => [s.id, s]));
+  const removed = new Set(update.removed);
+
+  const merged = current
+    .filter(s => !removed.has(s.id))
+    .map(s => changed.get(s.id) ?? s);
+  const existing = new Set(merged.map(s => s.id));
+
+  return [...merged, ...update.signals.filter(s => !existing.has(s.id))];
+}
+
+// Exponential backoff with jitter
+function reconnectDelay(attempt: number): number {
+  const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** attempt, RECONNECT_MAX_DELAY);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+interface UseDashboardOptions {
+  // stream: SSE with polling fallback; poll: fixed-interval polling only
+  mode?: 'stream' | 'poll';
+  // Show stored history instead of live data. at is the moment to show,
+  // null while there is nothing to show yet.
+  replay?: { at: Date | null } | null;
+}
 
 interface UseDashboardReturn extends DashboardState {
   refresh: () => Promise<void>;
   setSelectedRegion: (region: Region) => void;
   filteredSignals: Signal[];
   regionalScore: number;
+  connection: ConnectionMode;
+  openCircuits: OpenCircuit[];
+  countryScores: Record<string, number> | null; // stored country index while replaying
 }
 
-export function useDashboard(): UseDashboardReturn {
+export function useDashboard({ mode = 'stream', replay = null }: UseDashboardOptions = {}): UseDashboardReturn {
   const [signals, setSignals] = useState<Signal[]>([]);
   const [globalRisk, setGlobalRisk] = useState<GlobalRisk>({
     score: 0,
@@ -25,46 +108,145 @@ export function useDashboard(): UseDashboardReturn {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastFetched, setLastFetched] = useState<Date | null>(null);
+  const [connection, setConnection] = useState<ConnectionMode>(mode === 'stream' ? 'connecting' : 'polling');
+  const [openCircuits, setOpenCircuits] = useState<OpenCircuit[]>([]);
+  const [countryScores, setCountryScores] = useState<Record<string, number> | null>(null);
+
+  const replaying = replay !== null;
+  const replayTime = replay?.at?.getTime() ?? null;
 
-  const previousScoreRef = useRef<number | undefined>(undefined);
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
+  const applySnapshot = useCallback((snapshot: SignalSnapshot) => {
+    setSignals(snapshot.signals);
+    setGlobalRisk(snapshot.globalRisk);
+    setLastFetched(snapshot.generatedAt);
+    setOpenCircuits(snapshot.openCircuits);
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
   const fetchData = useCallback(async () => {
     try {
-      const newSignals = await fetchAllSignals();
-      const newGlobalRisk = calculateGlobalRisk(newSignals, previousScoreRef.current);
-
-      setSignals(newSignals);
-      setGlobalRisk(newGlobalRisk);
-      setLastFetched(new Date());
-      setError(null);
-
-      previousScoreRef.current = newGlobalRisk.score;
+      // Aggregation, caching and trend tracking happen server-side
+      applySnapshot(await fetchSnapshot());
     } catch (err) {
       setError('Failed to fetch signals. Check your connection.');
       console.error('Dashboard fetch error:', err);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [applySnapshot]);
+
+  // Stored snapshots carry no circuit state; evidence is not stored either,
+  // so the country index comes from the stored scores
+  const loadStored = useCallback(async (at: Date, signal?: AbortSignal) => {
+    try {
+      const snapshot = await fetchStoredSnapshot(at, signal);
+      applySnapshot({
+        signals: snapshot.signals,
+        globalRisk: snapshot.globalRisk,
+        generatedAt: snapshot.timestamp,
+        openCircuits: [],
+      });
+      setCountryScores(snapshot.countryScores ?? {});
+    } catch (err) {
+      if (signal?.aborted) return;
+      setError('No stored snapshot for this time.');
+      setIsLoading(false);
+      console.error('Replay fetch error:', err);
+    }
+  }, [applySnapshot]);
 
   const refresh = useCallback(async () => {
     setIsLoading(true);
-    await fetchData();
-  }, [fetchData]);
+    await (replayTime !== null ? loadStored(new Date(replayTime)) : fetchData());
+  }, [fetchData, loadStored, replayTime]);
 
-  // Initial fetch and polling
+  // Replay: load the stored snapshot for each new moment, dropping any
+  // request still in flight for the previous one
   useEffect(() => {
-    fetchData();
+    if (replayTime === null) return;
+    const controller = new AbortController();
+    loadStored(new Date(replayTime), controller.signal);
+    return () => controller.abort();
+  }, [replayTime, loadStored]);
 
-    pollIntervalRef.current = setInterval(fetchData, POLL_INTERVAL);
+  // Live stream with reconnect; polls while the stream is down
+  useEffect(() => {
+    if (replaying) {
+      setConnection('replay');
+      setIsLoading(true);
+      return;
+    }
 
-    return () => {
+    setCountryScores(null);
+    setConnection(mode === 'stream' ? 'connecting' : 'polling');
+
+    let eventSource: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let disposed = false;
+
+    const startPolling = () => {
+      if (pollIntervalRef.current) return;
+      fetchData();
+      pollIntervalRef.current = setInterval(fetchData, POLL_INTERVAL);
+    };
+
+    const stopPolling = () => {
       if (pollIntervalRef.current) {
         clearInterval(pollIntervalRef.current);
+        pollIntervalRef.current = null;
       }
     };
-  }, [fetchData]);
+
+    const handleDisconnect = () => {
+      eventSource?.close();
+      eventSource = null;
+      if (disposed) return;
+
+      setConnection('polling');
+      startPolling();
+      reconnectTimer = setTimeout(connect, reconnectDelay(attempts));
+      attempts += 1;
+    };
+
+    const connect = () => {
+      eventSource = new EventSource(STREAM_ENDPOINT);
+
+      eventSource.addEventListener('snapshot', (event) => {
+        attempts = 0;
+        stopPolling();
+        setConnection('stream');
+        applySnapshot(deserializeSnapshot(JSON.parse(event.data)));
+      });
+
+      eventSource.addEventListener('update', (event) => {
+        const update = deserializeSignalUpdate(JSON.parse(event.data));
+        setSignals(current => mergeSignals(current, update));
+        setGlobalRisk(update.globalRisk);
+        setLastFetched(update.generatedAt);
+        setOpenCircuits(update.openCircuits);
+      });
+
+      eventSource.addEventListener('failure', handleDisconnect);
+      eventSource.onerror = handleDisconnect;
+    };
+
+    if (mode === 'stream' && typeof EventSource !== 'undefined') {
+      connect();
+    } else {
+      startPolling();
+    }
+
+    return () => {
+      disposed = true;
+      eventSource?.close();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      stopPolling();
+    };
+  }, [mode, replaying, fetchData, applySnapshot]);
 
   // Computed values
   const filteredSignals = filterSignalsByRegion(signals, selectedRegion);
@@ -81,5 +263,277 @@ export function useDashboard(): UseDashboardReturn {
     setSelectedRegion,
     filteredSignals,
     regionalScore,
+    connection,
+    openCircuits,
+    countryScores,
+  };
+}
+
+// ============================================
+// Source Health
+// ============================================
+const HEALTH_ENDPOINT = '/api/health';
+
+interface SourceHealthData {
+  sources: SourceHealth[];
+  errors: SourceErrorRecord[];
+  totalErrors: number;
+}
+
+/**
+ * Poll /api/health while enabled; errors are limited to the last rangeMs
+ */
+export function useSourceHealth(rangeMs: number, enabled = true) {
+  const [data, setData] = useState<SourceHealthData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const from = new Date(Date.now() - rangeMs).toISOString();
+        const response = await fetch(`${HEALTH_ENDPOINT}?from=${encodeURIComponent(from)}`, { cache: 'no-store' });
+        if (!response.ok) throw new Error(`Health API error: ${response.status}`);
+
+        const json: Serialized<SourceHealthData> = await response.json();
+        if (cancelled) return;
+        setData({
+          sources: json.sources.map(deserializeSourceHealth),
+          errors: json.errors.map(deserializeSourceError),
+          totalErrors: json.totalErrors,
+        });
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError('Failed to load source health.');
+        console.error('Source health fetch error:', err);
+      }
+    };
+
+    load();
+    const interval = setInterval(load, POLL_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [rangeMs, enabled]);
+
+  return { data, error };
+}
+
+const HISTORY_ENDPOINT = '/api/history';
+
+/**
+ * Country index history over the rangeMs before `to` (default: now);
+ * null code disables it
+ */
+export function useCountryHistory(code: string | null, rangeMs: number, to?: Date) {
+  const [points, setPoints] = useState<HistoryPoint[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const toTime = to?.getTime() ?? null;
+
+  useEffect(() => {
+    if (!code) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const end = toTime ?? Date.now();
+        const from = new Date(end - rangeMs).toISOString();
+        const response = await fetch(
+          `${HISTORY_ENDPOINT}?country=${encodeURIComponent(code)}&from=${encodeURIComponent(from)}&to=${encodeURIComponent(new Date(end).toISOString())}`,
+          { cache: 'no-store' }
+        );
+        if (!response.ok) throw new Error(`History API error: ${response.status}`);
+
+        const json: Serialized<{ points: HistoryPoint[] }> = await response.json();
+        if (cancelled) return;
+        setPoints(json.points.map(deserializeHistoryPoint));
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError('Failed to load country history.');
+        console.error('Country history fetch error:', err);
+      }
+    };
+
+    setPoints(null);
+    load();
+    const interval = setInterval(load, POLL_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [code, rangeMs, toTime]);
+
+  return { points, error };
+}
+
+// ============================================
+// Replay
+// ============================================
+const REPLAY_ENDPOINT = '/api/history/replay';
+const REPLAY_TICK_MS = 250;
+
+export const REPLAY_SPEEDS = [10, 30, 100, 300, 1000] as const;
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number];
+
+// Raw snapshots are kept for 48h, hourly ones for 90 days
+export const REPLAY_RANGES = [
+  { label: '24h', ms: 24 * 60 * 60 * 1000 },
+  { label: '7d', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30d', ms: 30 * 24 * 60 * 60 * 1000 },
+  { label: '90d', ms: 90 * 24 * 60 * 60 * 1000 },
+] as const;
+
+/**
+ * Replay frames and transitions for the rangeMs up to now, loaded once
+ * per range while enabled
+ */
+export function useReplayTimeline(rangeMs: number, enabled: boolean) {
+  const [timeline, setTimeline] = useState<ReplayTimeline | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const from = new Date(Date.now() - rangeMs).toISOString();
+        const response = await fetch(`${REPLAY_ENDPOINT}?from=${encodeURIComponent(from)}`, { cache: 'no-store' });
+        if (!response.ok) throw new Error(`Replay API error: ${response.status}`);
+
+        const json: Serialized<ReplayTimeline> = await response.json();
+        if (cancelled) return;
+        setTimeline(deserializeReplayTimeline(json));
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError('Failed to load stored history.');
+        console.error('Replay timeline fetch error:', err);
+      }
+    };
+
+    setTimeline(null);
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeMs, enabled]);
+
+  return { timeline, error };
+}
+
+// Last frame at or before a time (the first frame if the time is earlier)
+function frameAt(frames: HistoryPoint[], time: number): HistoryPoint | null {
+  let low = 0;
+  let high = frames.length - 1;
+  let match = frames.length > 0 ? 0 : -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (frames[mid].timestamp.getTime() <= time) {
+      match = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return match >= 0 ? frames[match] : null;
+}
+
+export interface UseReplayReturn {
+  active: boolean;
+  start: () => void;
+  stop: () => void;
+  rangeMs: number;
+  setRangeMs: (rangeMs: number) => void;
+  timeline: ReplayTimeline | null;
+  error: string | null;
+  position: number | null; // scrubber time (ms)
+  frame: HistoryPoint | null; // stored snapshot shown at the position
+  seek: (time: number) => void;
+  playing: boolean;
+  setPlaying: (playing: boolean) => void;
+  speed: ReplaySpeed;
+  setSpeed: (speed: ReplaySpeed) => void;
+  previousEvent: StatusTransition | null;
+  nextEvent: StatusTransition | null;
+}
+
+/**
+ * Replay state: range, scrubber position and playback. Playback moves the
+ * position by speed × real time.
+ */
+export function useReplay(): UseReplayReturn {
+  const [active, setActive] = useState(false);
+  const [rangeMs, setRange] = useState<number>(REPLAY_RANGES[0].ms);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [playRequested, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<ReplaySpeed>(100);
+  const { timeline, error } = useReplayTimeline(rangeMs, active);
+
+  const frames = timeline?.frames ?? [];
+  const start = frames[0]?.timestamp.getTime() ?? null;
+  const end = frames[frames.length - 1]?.timestamp.getTime() ?? null;
+
+  // Until the user scrubs, the replay sits at the start of the range
+  const position = start === null || end === null ? null : Math.min(Math.max(cursor ?? start, start), end);
+  const frame = position === null ? null : frameAt(frames, position);
+  // Playback stops by itself at the last frame
+  const playing = playRequested && position !== null && position < end!;
+
+  useEffect(() => {
+    if (!playing || start === null || end === null) return;
+    const timer = setInterval(() => {
+      setCursor(current => Math.min((current ?? start) + REPLAY_TICK_MS * speed, end));
+    }, REPLAY_TICK_MS);
+    return () => clearInterval(timer);
+  }, [playing, speed, start, end]);
+
+  const frameTime = frame?.timestamp.getTime() ?? null;
+  const events = timeline?.events ?? [];
+  const previousEvent = frameTime === null ? null : events.filter(e => e.timestamp.getTime() < frameTime).pop() ?? null;
+  const nextEvent = frameTime === null ? null : events.find(e => e.timestamp.getTime() > frameTime) ?? null;
+
+  const seek = useCallback((time: number) => {
+    // Widen the range when seeking further back than it reaches
+    const age = Date.now() - time;
+    setRange(current => age <= current ? current : (REPLAY_RANGES.find(r => r.ms >= age)?.ms ?? current));
+    setCursor(time);
+  }, []);
+
+  const startReplay = useCallback(() => setActive(true), []);
+
+  const stopReplay = useCallback(() => {
+    setActive(false);
+    setPlaying(false);
+    setCursor(null);
+  }, []);
+
+  const setRangeMs = useCallback((ms: number) => {
+    setRange(ms);
+    setCursor(null);
+  }, []);
+
+  return {
+    active,
+    start: startReplay,
+    stop: stopReplay,
+    rangeMs,
+    setRangeMs,
+    timeline,
+    error,
+    position,
+    frame,
+    seek,
+    playing,
+    setPlaying,
+    speed,
+    setSpeed,
+    previousEvent,
+    nextEvent,
   };
 }
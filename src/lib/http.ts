@@ -0,0 +1,163 @@
+/**
+ * Shared HTTP client for source fetchers
+ * Adds per-attempt timeouts, jittered exponential retries on 5xx/429 and
+ * network failures, and honours Retry-After. Requests go out through a
+ * swappable transport so they can be recorded or replayed (see fixtures.ts).
+ */
+
+import { HTTP_DEFAULTS } from './config';
+import { SignalFetchError } from './logger';
+
+export interface HttpOptions {
+  timeoutMs?: number;
+  retries?: number; // extra attempts after the first
+  baseDelayMs?: number;
+  maxDelayMs?: number; // longer Retry-After waits fail fast instead
+}
+
+/**
+ * Error raised by source fetchers, carrying the logger error type,
+ * the HTTP status and any Retry-After delay from the upstream
+ */
+export class SourceFetchError extends Error {
+  errorType: SignalFetchError['errorType'];
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    errorType: SignalFetchError['errorType'] = 'network',
+    status?: number,
+    retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'SourceFetchError';
+    this.errorType = errorType;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Retry-After as milliseconds (delta-seconds or HTTP date)
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// "Full jitter": uniform between 0 and the exponential cap
+function backoffDelay(attempt: number, options: Required<HttpOptions>): number {
+  const cap = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.random() * cap;
+}
+
+// ============================================
+// Transport
+// ============================================
+
+/**
+ * Sends one request; the same contract as fetch()
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+const defaultTransport: Transport = (url, init) => fetch(url, init);
+
+let transport: Transport = defaultTransport;
+
+export function getTransport(): Transport {
+  return transport;
+}
+
+/**
+ * Replace the transport for all outbound requests; null restores fetch()
+ */
+export function setTransport(next: Transport | null) {
+  transport = next ?? defaultTransport;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function attemptFetch(url: string, init: RequestInit, label: string, timeoutMs: number): Promise<Response> {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const signal = init.signal ? AbortSignal.any([init.signal, timeout]) : timeout;
+
+  try {
+    return await getTransport()(url, { ...init, signal });
+  } catch (error) {
+    if (timeout.aborted) {
+      throw new SourceFetchError(`${label} timed out after ${timeoutMs}ms`, 'timeout');
+    }
+    if (init.signal?.aborted) throw error;
+    throw new SourceFetchError(
+      `${label} request failed: ${error instanceof Error ? error.message : String(error)}`,
+      'network'
+    );
+  }
+}
+
+/**
+ * fetch() with timeout and retries. Resolves with a 2xx response,
+ * otherwise throws SourceFetchError.
+ */
+export async function httpFetch(
+  url: string,
+  init: RequestInit,
+  label: string,
+  options: HttpOptions = {}
+): Promise<Response> {
+  const opts: Required<HttpOptions> = { ...HTTP_DEFAULTS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < opts.retries;
+    let failure: SourceFetchError;
+
+    try {
+      const response = await attemptFetch(url, init, label, opts.timeoutMs);
+      if (response.ok) return response;
+
+      failure = new SourceFetchError(
+        `${label} API error: ${response.status}`,
+        'network',
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+      if (!isRetryableStatus(response.status)) throw failure;
+    } catch (error) {
+      if (!(error instanceof SourceFetchError)) throw error;
+      failure = error;
+      if (failure.status !== undefined && !isRetryableStatus(failure.status)) throw failure;
+    }
+
+    // Upstream asked for a longer pause than we are willing to block for
+    if (!canRetry || (failure.retryAfterMs ?? 0) > opts.maxDelayMs) throw failure;
+
+    await sleep(failure.retryAfterMs ?? backoffDelay(attempt, opts));
+  }
+}
+
+/**
+ * Fetch and parse a JSON payload through httpFetch
+ */
+export async function fetchSourceJson<T>(
+  url: string,
+  init: RequestInit,
+  label: string,
+  options?: HttpOptions
+): Promise<T> {
+  const response = await httpFetch(url, init, label, options);
+  try {
+    return await response.json();
+  } catch {
+    throw new SourceFetchError(`${label} returned invalid JSON`, 'parsing');
+  }
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { LiveScheduler } from './live';
+import { SignalReading, SignalSource } from './sources';
+
+const INTERVAL = 60000;
+
+const source: SignalSource<SignalReading> = {
+  id: 'live-test-source',
+  name: 'Live test source',
+  category: 'markets',
+  defaultRegion: 'global',
+  refreshInterval: INTERVAL,
+  sourceName: 'Test',
+  sourceUrl: 'https://example.com',
+  fetch: async () => ({ score: 40, explanation: '', baselineComparison: '', confidence: 'high' }),
+  normalize: reading => reading,
+  fallback: { mode: 'omit' },
+};
+
+// Lets awaited refreshes and the reschedule after them run
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+/**
+ * Scheduler whose refreshes stay in flight until the test finishes them
+ */
+function testScheduler() {
+  const pending: (() => void)[] = [];
+  let runs = 0;
+  const scheduler = new LiveScheduler(() => {
+    runs++;
+    return new Promise<void>(resolve => pending.push(resolve));
+  }, () => [source]);
+
+  const finishAll = async () => {
+    pending.splice(0).forEach(resolve => resolve());
+    await settle();
+  };
+  return { scheduler, finishAll, runs: () => runs };
+}
+
+describe('LiveScheduler', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['setTimeout'] }));
+  afterEach(() => mock.timers.reset());
+
+  it('refreshes each source once per interval while a client is connected', async () => {
+    const { scheduler, finishAll, runs } = testScheduler();
+    const release = scheduler.acquire();
+
+    for (let i = 1; i <= 3; i++) {
+      mock.timers.tick(INTERVAL);
+      await finishAll();
+      assert.equal(runs(), i);
+    }
+
+    release();
+    mock.timers.tick(INTERVAL * 3);
+    assert.equal(runs(), 3);
+  });
+
+  it('keeps one chain per source across a stop and start during a refresh', async () => {
+    const { scheduler, finishAll, runs } = testScheduler();
+    const first = scheduler.acquire();
+    mock.timers.tick(INTERVAL); // refresh in flight
+
+    first(); // last client leaves
+    const second = scheduler.acquire(); // a new one arrives before the refresh finishes
+    await finishAll();
+
+    mock.timers.tick(INTERVAL);
+    await finishAll();
+    mock.timers.tick(INTERVAL);
+    await finishAll();
+
+    assert.equal(runs(), 3); // the first refresh plus one per interval
+    second();
+  });
+
+  it('shares one chain between clients and stops with the last one', async () => {
+    const { scheduler, finishAll, runs } = testScheduler();
+    const a = scheduler.acquire();
+    const b = scheduler.acquire();
+
+    mock.timers.tick(INTERVAL);
+    await finishAll();
+    a();
+    a(); // releasing twice counts once
+    mock.timers.tick(INTERVAL);
+    await finishAll();
+    assert.equal(runs(), 2);
+
+    b();
+    mock.timers.tick(INTERVAL);
+    assert.equal(runs(), 2);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Live refresh scheduler
+ * While at least one stream client is connected, every enabled source is
+ * re-run on its own refresh interval and merged into the shared snapshot.
+ */
+
+import { SignalSource, getEnabledSources, getRefreshInterval, runSource } from './sources';
+import { applySourceResult, createRunContext } from './snapshot';
+
+async function refreshSource(source: SignalSource) {
+  try {
+    const signal = await runSource(source, createRunContext());
+    await applySourceResult(source.id, signal);
+  } catch (error) {
+    console.error(`Live refresh failed for ${source.id}:`, error);
+  }
+}
+
+/**
+ * One timer chain per source while clients are connected. Each start()
+ * begins a new generation; a refresh that finishes after a stop only
+ * reschedules if its generation is still current, so a stop/start during
+ * an in-flight refresh never leaves two chains running for one source.
+ */
+export class LiveScheduler {
+  private timers = new Map<string, NodeJS.Timeout>();
+  private generation = 0;
+  private clients = 0;
+
+  constructor(
+    private refresh: (source: SignalSource) => Promise<void> = refreshSource,
+    private sources: () => SignalSource[] = getEnabledSources
+  ) {}
+
+  // Reschedule only after a run finishes so slow sources never overlap
+  private schedule(source: SignalSource, generation: number) {
+    const timer = setTimeout(async () => {
+      await this.refresh(source);
+      if (generation === this.generation) this.schedule(source, generation);
+    }, getRefreshInterval(source));
+
+    this.timers.set(source.id, timer);
+  }
+
+  private start() {
+    this.generation += 1;
+    for (const source of this.sources()) {
+      this.schedule(source, this.generation);
+    }
+  }
+
+  private stop() {
+    this.generation += 1;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Register a client; the scheduler runs while any are connected.
+   * Returns a release function.
+   */
+  acquire(): () => void {
+    this.clients += 1;
+    if (this.clients === 1) this.start();
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.clients -= 1;
+      if (this.clients === 0) this.stop();
+    };
+  }
+}
+
+const scheduler = new LiveScheduler();
+
+/**
+ * Register a stream client; the scheduler runs while any are connected.
+ * Returns a release function.
+ */
+export function acquireLiveRefresh(): () => void {
+  return scheduler.acquire();
+}
@@ -3,16 +3,21 @@
  * BUG #7 FIX: Adds error visibility and monitoring
  */
 
+import { FetchErrorType } from '@/types';
+
 export interface SignalFetchError {
   signalId: string;
   sourceName: string;
   error: string;
   timestamp: Date;
-  errorType: 'network' | 'parsing' | 'validation' | 'timeout' | 'unknown';
+  errorType: FetchErrorType;
 }
 
 const recentErrors: SignalFetchError[] = [];
 
+// Running totals since start, by signal and error type (exported as metrics)
+const errorTotals = new Map<string, Map<FetchErrorType, number>>();
+
 /**
  * Log a signal fetch error
  */
@@ -24,6 +29,10 @@ export function logSignalError(error: SignalFetchError) {
     recentErrors.shift();
   }
 
+  const byType = errorTotals.get(error.signalId) ?? new Map<FetchErrorType, number>();
+  byType.set(error.errorType, (byType.get(error.errorType) ?? 0) + 1);
+  errorTotals.set(error.signalId, byType);
+
   // Log to console in development
   if (typeof window !== 'undefined' && process.env.NODE_ENV === 'development') {
     console.warn(
@@ -59,6 +68,16 @@ export function getRecentErrors(): SignalFetchError[] {
  */
 export function clearErrorLog() {
   recentErrors.length = 0;
+  errorTotals.clear();
+}
+
+/**
+ * Errors logged since start per signal and error type; never trimmed
+ */
+export function getErrorTotals(): { signalId: string; errorType: FetchErrorType; count: number }[] {
+  return [...errorTotals].flatMap(([signalId, byType]) =>
+    [...byType].map(([errorType, count]) => ({ signalId, errorType, count }))
+  );
 }
 
 /**
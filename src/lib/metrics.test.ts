@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Signal } from '@/types';
+import { renderMetrics, SourceMetrics } from './metrics';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function signal(id: string, score: number, quality: Signal['quality']): Signal {
+  return {
+    id,
+    name: id,
+    region: 'global',
+    status: 'normal',
+    score,
+    explanation: '',
+    baselineComparison: '',
+    confidence: 'high',
+    sourceUrl: 'https://example.com',
+    sourceName: 'Example',
+    lastUpdated: NOW,
+    category: 'markets',
+    scoringMode: 'formula',
+    quality,
+    observedAt: NOW,
+  };
+}
+
+function render(signals: Signal[]): string[] {
+  const snapshot = {
+    signals,
+    globalRisk: { score: 30, trend: 'stable' as const, lastUpdated: NOW, signalCount: signals.length },
+    generatedAt: NOW,
+    openCircuits: [],
+  };
+  return renderMetrics({ snapshot, health: [], errors: [], sources: new SourceMetrics() }).split('\n');
+}
+
+describe('renderMetrics', () => {
+  it('labels signal scores by id, region and confidence only', () => {
+    const live = render([signal('vix', 40, 'live')]);
+    const cached = render([signal('vix', 40, 'cached')]);
+
+    assert.ok(live.includes('delta_signal_score{id="vix",region="global",confidence="high"} 40'));
+    assert.deepEqual(
+      live.filter(line => line.startsWith('delta_signal_score')),
+      cached.filter(line => line.startsWith('delta_signal_score'))
+    );
+  });
+
+  it('reports quality as one series per state', () => {
+    const lines = render([signal('vix', 40, 'stale')]).filter(line => line.startsWith('delta_signal_quality'));
+
+    assert.deepEqual(lines, [
+      'delta_signal_quality{id="vix",quality="live"} 0',
+      'delta_signal_quality{id="vix",quality="cached"} 0',
+      'delta_signal_quality{id="vix",quality="stale"} 1',
+      'delta_signal_quality{id="vix",quality="synthetic"} 0',
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Prometheus metrics
+ * Fetch latency histograms are accumulated from every source run; scores,
+ * fallback state and error totals are read at scrape time. Rendered in the
+ * Prometheus text exposition format for GET /metrics.
+ */
+
+import { DataQuality, FetchErrorType, Region, REGION_LABELS, SignalSnapshot, SourceHealth, SourceRunRecord } from '@/types';
+import { SourceRunRecorder } from './sources';
+import { calculateRegionalRisk } from './signals';
+
+// Seconds; fetches time out at 10s and may retry twice
+export const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30];
+
+interface Histogram {
+  buckets: number[]; // non-cumulative counts per LATENCY_BUCKETS bound
+  count: number;
+  sum: number;
+}
+
+type RunOutcome = 'ok' | 'error' | 'skipped';
+
+// Keyed by the union so the compiler rejects a missing or unknown quality
+const QUALITIES = Object.keys({ live: true, cached: true, stale: true, synthetic: true } satisfies Record<DataQuality, true>) as DataQuality[];
+
+/**
+ * Accumulates per-source fetch latency and run outcomes since start
+ */
+export class SourceMetrics implements SourceRunRecorder {
+  private latency = new Map<string, Histogram>();
+  private runs = new Map<string, Record<RunOutcome, number>>();
+
+  recordRun(run: SourceRunRecord) {
+    const outcome: RunOutcome = run.latencyMs === null ? 'skipped' : run.ok ? 'ok' : 'error';
+    const runs = this.runs.get(run.sourceId) ?? { ok: 0, error: 0, skipped: 0 };
+    runs[outcome]++;
+    this.runs.set(run.sourceId, runs);
+
+    // Circuit-skipped runs never made a request
+    if (run.latencyMs === null) return;
+
+    const seconds = run.latencyMs / 1000;
+    const histogram = this.latency.get(run.sourceId) ?? {
+      buckets: LATENCY_BUCKETS.map(() => 0),
+      count: 0,
+      sum: 0,
+    };
+    const bucket = LATENCY_BUCKETS.findIndex(bound => seconds <= bound);
+    if (bucket >= 0) histogram.buckets[bucket]++;
+    histogram.count++;
+    histogram.sum += seconds;
+    this.latency.set(run.sourceId, histogram);
+  }
+
+  getLatency(): Map<string, Histogram> {
+    return this.latency;
+  }
+
+  getRuns(): Map<string, Record<RunOutcome, number>> {
+    return this.runs;
+  }
+}
+
+let sourceMetrics: SourceMetrics | null = null;
+
+export function getSourceMetrics(): SourceMetrics {
+  if (!sourceMetrics) sourceMetrics = new SourceMetrics();
+  return sourceMetrics;
+}
+
+// ============================================
+// Exposition
+// ============================================
+
+export interface MetricsInput {
+  snapshot: SignalSnapshot;
+  health: SourceHealth[];
+  errors: { signalId: string; errorType: FetchErrorType; count: number }[];
+  sources: SourceMetrics;
+}
+
+type Labels = Record<string, string>;
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  const pairs = Object.entries(labels).map(([key, v]) => `${key}="${escapeLabel(v)}"`);
+  return `${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${Number.isFinite(value) ? value : 'NaN'}`;
+}
+
+function family(name: string, type: 'gauge' | 'counter' | 'histogram', help: string, samples: string[]): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples];
+}
+
+function histogramSamples(name: string, labels: Labels, histogram: Histogram): string[] {
+  let cumulative = 0;
+  const buckets = LATENCY_BUCKETS.map((bound, i) => {
+    cumulative += histogram.buckets[i];
+    return sample(`${name}_bucket`, { ...labels, le: String(bound) }, cumulative);
+  });
+
+  return [
+    ...buckets,
+    sample(`${name}_bucket`, { ...labels, le: '+Inf' }, histogram.count),
+    sample(`${name}_sum`, labels, histogram.sum),
+    sample(`${name}_count`, labels, histogram.count),
+  ];
+}
+
+export function renderMetrics({ snapshot, health, errors, sources }: MetricsInput): string {
+  const regions = (Object.keys(REGION_LABELS) as Region[]).filter(r => r !== 'global');
+
+  const lines = [
+    ...family('delta_global_risk_score', 'gauge', 'Global risk index (0-100).', [
+      sample('delta_global_risk_score', {}, snapshot.globalRisk.score),
+    ]),
+    ...family('delta_regional_risk_score', 'gauge', 'Regional risk score (0-100).',
+      regions.map(region => sample('delta_regional_risk_score', { region }, calculateRegionalRisk(snapshot.signals, region)))
+    ),
+    // Quality flips whenever a source degrades; as a label it would split the
+    // score into a new series each time, so it has its own gauge
+    ...family('delta_signal_score', 'gauge', 'Signal score (0-100).',
+      snapshot.signals.map(s => sample('delta_signal_score', { id: s.id, region: s.region, confidence: s.confidence }, s.score))
+    ),
+    ...family('delta_signal_quality', 'gauge', '1 for the signal\'s current data quality, 0 for the others.',
+      snapshot.signals.flatMap(s =>
+        QUALITIES.map(quality => sample('delta_signal_quality', { id: s.id, quality }, s.quality === quality ? 1 : 0))
+      )
+    ),
+    ...family('delta_snapshot_timestamp_seconds', 'gauge', 'When the current snapshot was generated (Unix time).', [
+      sample('delta_snapshot_timestamp_seconds', {}, snapshot.generatedAt.getTime() / 1000),
+    ]),
+    ...family('delta_source_fetch_duration_seconds', 'histogram', 'Upstream fetch latency per source, retries included.',
+      [...sources.getLatency()].flatMap(([source, histogram]) =>
+        histogramSamples('delta_source_fetch_duration_seconds', { source }, histogram)
+      )
+    ),
+    ...family('delta_source_runs_total', 'counter', 'Source runs by outcome (skipped: circuit open).',
+      [...sources.getRuns()].flatMap(([source, runs]) =>
+        (Object.keys(runs) as RunOutcome[]).map(outcome => sample('delta_source_runs_total', { source, outcome }, runs[outcome]))
+      )
+    ),
+    ...family('delta_source_errors_total', 'counter', 'Source fetch errors by error type.',
+      errors.map(e => sample('delta_source_errors_total', { source: e.signalId, error_type: e.errorType }, e.count))
+    ),
+    ...family('delta_source_fallback', 'gauge', '1 while the source\'s last run fell back to a substitute reading.',
+      health.filter(h => h.enabled).map(h => sample('delta_source_fallback', { source: h.sourceId }, h.inFallback ? 1 : 0))
+    ),
+    ...family('delta_source_circuit_open', 'gauge', '1 while the source\'s circuit breaker is not closed.',
+      health.filter(h => h.enabled).map(h => sample('delta_source_circuit_open', { source: h.sourceId }, h.circuit === 'closed' ? 0 : 1))
+    ),
+  ];
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,103 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GlobalRisk, Signal } from '@/types';
+import { buildOpenApiDocument } from './openapi';
+import { calculateGlobalRisk, fetchAllSignals } from './signals';
+import { createReplayTransport } from './fixtures';
+import { getTransport, setTransport } from './http';
+
+type Schema = Record<string, unknown>;
+
+const document = buildOpenApiDocument('test');
+const SCHEMAS = document.components.schemas as Record<string, Schema>;
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Errors for `value` against the subset of JSON Schema the spec uses.
+ * Properties the schema doesn't declare are errors too, so a field added
+ * to the types but not to the spec fails here.
+ */
+function validate(value: unknown, schema: Schema, at = '$'): string[] {
+  if (typeof schema.$ref === 'string') {
+    return validate(value, SCHEMAS[schema.$ref.replace('#/components/schemas/', '')], at);
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter(option => validate(value, option as Schema, at).length === 0).length;
+    return matches === 1 ? [] : [`${at}: matches ${matches} of oneOf`];
+  }
+
+  const type = typeOf(value);
+  if (schema.type && schema.type !== type && !(schema.type === 'number' && type === 'integer')) {
+    return [`${at}: expected ${schema.type}, got ${type}`];
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) return [`${at}: ${JSON.stringify(value)} not in enum`];
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) return [`${at}: below ${schema.minimum}`];
+    if (typeof schema.maximum === 'number' && value > schema.maximum) return [`${at}: above ${schema.maximum}`];
+  }
+  if (typeof value === 'string') {
+    if (schema.format === 'date-time' && !/^\d{4}-\d{2}-\d{2}T[\d:.]+Z$/.test(value)) return [`${at}: not a date-time`];
+    if (schema.format === 'uri' && !URL.canParse(value)) return [`${at}: not a URI`];
+  }
+
+  if (type === 'array' && schema.items) {
+    return (value as unknown[]).flatMap((item, i) => validate(item, schema.items as Schema, `${at}[${i}]`));
+  }
+  if (type === 'object' && schema.properties) {
+    const properties = schema.properties as Record<string, Schema>;
+    const object = value as Record<string, unknown>;
+    return [
+      ...((schema.required as string[] | undefined) ?? []).filter(key => !(key in object)).map(key => `${at}.${key}: missing`),
+      ...Object.entries(object).flatMap(([key, child]) =>
+        properties[key] ? validate(child, properties[key], `${at}.${key}`) : [`${at}.${key}: not in the spec`]
+      ),
+    ];
+  }
+  return [];
+}
+
+// Dates become ISO strings, as in the API responses
+const serialize = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+describe('OpenAPI schemas', () => {
+  let signals: Signal[];
+  let globalRisk: GlobalRisk;
+  const transport = getTransport();
+
+  before(async () => {
+    // Every source scored from a recorded scenario, with evidence and regional breakdowns
+    setTransport(createReplayTransport('fixtures/scenarios/major-quake'));
+    signals = await fetchAllSignals();
+    globalRisk = calculateGlobalRisk(signals);
+  });
+
+  after(() => setTransport(transport));
+
+  it('describe every serialized Signal', () => {
+    assert.ok(signals.length > 10);
+    for (const field of ['evidence', 'regions', 'metric', 'baseline'] as const) {
+      assert.ok(signals.some(s => s[field]), `no signal with ${field}`);
+    }
+
+    for (const signal of signals) {
+      assert.deepEqual(validate(serialize(signal), SCHEMAS.Signal, signal.id), []);
+    }
+  });
+
+  it('describe the serialized GlobalRisk', () => {
+    assert.ok(globalRisk.weighting);
+    assert.deepEqual(validate(serialize(globalRisk), SCHEMAS.GlobalRisk), []);
+  });
+
+  it('catch a field the spec does not declare', () => {
+    const signal = { ...serialize(signals[0]), severity: 'high', score: 120 };
+    assert.deepEqual(validate(signal, SCHEMAS.Signal), ['$.score: above 100', '$.severity: not in the spec']);
+  });
+});
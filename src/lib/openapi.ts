@@ -0,0 +1,273 @@
+/**
+ * OpenAPI 3.1 document for the public v1 API
+ * Paths are built from the endpoint table below; the schemas are written by
+ * hand to mirror src/types and must be updated with them. Enums are checked
+ * against the TypeScript unions at compile time (see enumOf), and
+ * openapi.test.ts validates Signals and GlobalRisk scored from a fixture
+ * scenario against the schemas, including undeclared fields.
+ */
+
+import { REGION_LABELS, CATEGORY_LABELS, ConfidenceLevel, DataQuality, SignalStatus } from '@/types';
+import { API_RATE_LIMIT } from './config';
+
+type Schema = Record<string, unknown>;
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query';
+  description: string;
+  schema: Schema;
+  required?: boolean;
+}
+
+interface Endpoint {
+  path: string;
+  operationId: string;
+  summary: string;
+  parameters: Parameter[];
+  response: Schema;
+  notFound?: string;
+}
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const dateTime: Schema = { type: 'string', format: 'date-time' };
+const score: Schema = { type: 'integer', minimum: 0, maximum: 100 };
+const nullable = (schema: Schema): Schema => ({ oneOf: [schema, { type: 'null' }] });
+
+function object(properties: Record<string, Schema>, optional: string[] = []): Schema {
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties).filter(key => !optional.includes(key)),
+  };
+}
+
+/**
+ * Enum values from a record keyed by the union, so the compiler rejects a
+ * missing or unknown member
+ */
+function enumOf<T extends string>(members: Record<T, true>): Schema {
+  return { type: 'string', enum: Object.keys(members) };
+}
+
+// REGION_LABELS is a Record<Region, string>, so it is exhaustive too
+const REGIONS = Object.keys(REGION_LABELS);
+const LOCATED_REGIONS = REGIONS.filter(r => r !== 'global');
+
+// ============================================
+// Schemas (mirror src/types)
+// ============================================
+
+const SCHEMAS: Record<string, Schema> = {
+  Region: { type: 'string', enum: REGIONS },
+  SignalStatus: enumOf<SignalStatus>({ normal: true, elevated: true, high: true }),
+  ConfidenceLevel: enumOf<ConfidenceLevel>({ low: true, medium: true, high: true }),
+  SignalCategory: { type: 'string', enum: Object.keys(CATEGORY_LABELS) },
+  DataQuality: enumOf<DataQuality>({ live: true, cached: true, stale: true, synthetic: true }),
+  SignalMetric: object({
+    value: { type: 'number' },
+    label: { type: 'string' },
+    unit: { type: 'string' },
+    riskDirection: { type: 'string', enum: ['up', 'down'] },
+  }, ['unit', 'riskDirection']),
+  SignalBaseline: object({
+    mean: { type: 'number' },
+    median: { type: 'number' },
+    stdDev: { type: 'number' },
+    sampleSize: { type: 'integer' },
+    windowDays: { type: 'number' },
+    deviationPct: nullable({ type: 'number' }),
+    zScore: nullable({ type: 'number' }),
+    source: { type: 'string', enum: ['history', 'upstream'] },
+  }),
+  RegionalComponent: object({
+    score,
+    count: { type: 'integer' },
+    topItem: { type: 'string' },
+    explanation: { type: 'string' },
+  }, ['topItem']),
+  EvidenceItem: object({
+    title: { type: 'string' },
+    url: { type: 'string', format: 'uri' },
+    timestamp: nullable(dateTime),
+    region: ref('Region'),
+    countries: { type: 'array', items: { type: 'string', description: 'ISO 3166-1 alpha-2' } },
+    coordinates: object({ lat: { type: 'number' }, lng: { type: 'number' } }),
+    magnitude: object({ value: { type: 'number' }, label: { type: 'string' } }),
+    probability: { type: 'number', minimum: 0, maximum: 1 },
+    contribution: { type: 'number', description: "Points this item adds to the signal's formula score" },
+  }, ['url', 'region', 'countries', 'coordinates', 'magnitude', 'probability']),
+  Signal: object({
+    id: { type: 'string' },
+    name: { type: 'string' },
+    region: ref('Region'),
+    status: ref('SignalStatus'),
+    score,
+    explanation: { type: 'string' },
+    baselineComparison: { type: 'string' },
+    confidence: ref('ConfidenceLevel'),
+    sourceUrl: { type: 'string' },
+    sourceName: { type: 'string' },
+    lastUpdated: dateTime,
+    category: ref('SignalCategory'),
+    scoringMode: { type: 'string', enum: ['formula', 'anomaly'] },
+    quality: ref('DataQuality'),
+    observedAt: nullable(dateTime),
+    circuit: { type: 'string', enum: ['closed', 'open', 'half-open'] },
+    metric: ref('SignalMetric'),
+    baseline: ref('SignalBaseline'),
+    regions: {
+      type: 'object',
+      properties: Object.fromEntries(LOCATED_REGIONS.map(r => [r, ref('RegionalComponent')])),
+    },
+    evidence: { type: 'array', items: ref('EvidenceItem') },
+  }, ['circuit', 'metric', 'baseline', 'regions', 'evidence']),
+  GlobalRisk: object({
+    score,
+    trend: { type: 'string', enum: ['up', 'down', 'stable'] },
+    lastUpdated: dateTime,
+    signalCount: { type: 'integer' },
+    weighting: object({
+      id: { type: 'string' },
+      label: { type: 'string' },
+      method: { type: 'string', enum: ['weighted-mean', 'power-mean', 'max-of-categories'] },
+    }),
+    liveCoverage: { type: 'number', minimum: 0, maximum: 1 },
+  }, ['weighting', 'liveCoverage']),
+  SignalHistoryPoint: object({
+    timestamp: dateTime,
+    score,
+    status: ref('SignalStatus'),
+    resolution: { type: 'string', enum: ['raw', 'hourly'] },
+  }),
+  Error: object({ error: { type: 'string' } }),
+};
+
+// ============================================
+// Endpoints
+// ============================================
+
+const idParam: Parameter = { name: 'id', in: 'path', required: true, description: 'Signal id', schema: { type: 'string' } };
+
+const ENDPOINTS: Endpoint[] = [
+  {
+    path: '/risk',
+    operationId: 'getRisk',
+    summary: 'Global risk index and every region\'s score',
+    parameters: [],
+    response: object({
+      generatedAt: dateTime,
+      globalRisk: ref('GlobalRisk'),
+      regions: { type: 'object', properties: Object.fromEntries(LOCATED_REGIONS.map(r => [r, score])) },
+    }),
+  },
+  {
+    path: '/signals',
+    operationId: 'listSignals',
+    summary: 'Current signals, optionally filtered',
+    parameters: [
+      { name: 'region', in: 'query', description: 'Signals in a region, scored by their regional component', schema: ref('Region') },
+      { name: 'category', in: 'query', description: 'Only this category', schema: ref('SignalCategory') },
+      { name: 'status', in: 'query', description: 'Only signals at or above this status', schema: ref('SignalStatus') },
+    ],
+    response: object({
+      generatedAt: dateTime,
+      signals: { type: 'array', items: ref('Signal') },
+    }),
+  },
+  {
+    path: '/signals/{id}',
+    operationId: 'getSignal',
+    summary: 'One current signal',
+    parameters: [idParam],
+    response: object({ generatedAt: dateTime, signal: ref('Signal') }),
+    notFound: 'No current signal with this id',
+  },
+  {
+    path: '/signals/{id}/history',
+    operationId: 'getSignalHistory',
+    summary: 'Score history of a signal (raw polls for 48h, hourly averages for 90 days)',
+    parameters: [
+      idParam,
+      { name: 'from', in: 'query', description: 'Start, default 24h before `to`', schema: dateTime },
+      { name: 'to', in: 'query', description: 'End, default now', schema: dateTime },
+    ],
+    response: object({
+      signalId: { type: 'string' },
+      from: dateTime,
+      to: dateTime,
+      points: { type: 'array', items: ref('SignalHistoryPoint') },
+    }),
+  },
+  {
+    path: '/regions/{region}',
+    operationId: 'getRegion',
+    summary: 'A region\'s risk score and its signals',
+    parameters: [{ name: 'region', in: 'path', required: true, description: 'Region id', schema: ref('Region') }],
+    response: object({
+      generatedAt: dateTime,
+      region: ref('Region'),
+      label: { type: 'string' },
+      score,
+      signals: { type: 'array', items: ref('Signal') },
+    }),
+    notFound: 'Unknown region',
+  },
+];
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+});
+
+function operation(endpoint: Endpoint) {
+  return {
+    operationId: endpoint.operationId,
+    summary: endpoint.summary,
+    parameters: [
+      ...endpoint.parameters,
+      { name: 'If-None-Match', in: 'header', description: 'ETag from an earlier response', schema: { type: 'string' } },
+    ],
+    responses: {
+      200: {
+        description: 'OK',
+        headers: {
+          ETag: { schema: { type: 'string' } },
+          'X-RateLimit-Limit': { schema: { type: 'integer' } },
+          'X-RateLimit-Remaining': { schema: { type: 'integer' } },
+          'X-RateLimit-Reset': { description: 'Unix time the window resets', schema: { type: 'integer' } },
+        },
+        content: { 'application/json': { schema: endpoint.response } },
+      },
+      304: { description: 'Not modified since the ETag in If-None-Match' },
+      400: errorResponse('Invalid parameter'),
+      401: errorResponse('Missing or invalid API key'),
+      ...(endpoint.notFound && { 404: errorResponse(endpoint.notFound) }),
+      429: {
+        ...errorResponse(`More than ${API_RATE_LIMIT.requests} requests in ${API_RATE_LIMIT.windowMs / 1000}s for this key`),
+        headers: { 'Retry-After': { schema: { type: 'integer' } } },
+      },
+    },
+  };
+}
+
+export function buildOpenApiDocument(version: string) {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Delta Intelligence API',
+      version,
+      description: 'Read-only access to the risk index and its signals. Timestamps are ISO 8601 (UTC).',
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths: Object.fromEntries(ENDPOINTS.map(endpoint => [endpoint.path, { get: operation(endpoint) }])),
+    components: {
+      schemas: SCHEMAS,
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+    },
+  };
+}
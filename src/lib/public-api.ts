@@ -0,0 +1,168 @@
+/**
+ * Public v1 API plumbing
+ * API-key authentication, per-key fixed-window rate limiting and
+ * ETag/conditional GET for the read-only /api/v1 routes.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+import { API_RATE_LIMIT } from './config';
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// ============================================
+// Authentication
+// ============================================
+
+function getApiKeys(): string[] {
+  return (process.env.API_KEYS ?? '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean);
+}
+
+// Compare digests so the check takes the same time for every wrong key
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Key from `Authorization: Bearer <key>` or `X-API-Key`; throws 401 when it
+ * is missing or unknown (and while API_KEYS is not configured at all)
+ */
+export function authenticate(request: NextRequest): string {
+  const header = request.headers.get('authorization');
+  const key = header?.match(/^Bearer\s+(.+)$/i)?.[1].trim() ?? request.headers.get('x-api-key')?.trim();
+  const challenge = { 'WWW-Authenticate': 'Bearer realm="delta-api"' };
+
+  if (!key) throw new ApiError(401, 'Missing API key', challenge);
+
+  const candidate = digest(key);
+  const known = getApiKeys().some(k => timingSafeEqual(digest(k), candidate));
+  if (!known) throw new ApiError(401, 'Invalid API key', challenge);
+
+  return key;
+}
+
+// ============================================
+// Rate limiting
+// ============================================
+
+interface RateWindow {
+  start: number;
+  count: number;
+}
+
+const rateWindows = new Map<string, RateWindow>();
+
+/**
+ * Counts one request against the key's current window; throws 429 once the
+ * window is used up. Returns the X-RateLimit-* headers either way.
+ */
+export function consumeRateLimit(key: string, now = Date.now(), limit = API_RATE_LIMIT): Record<string, string> {
+  let window = rateWindows.get(key);
+  if (!window || now - window.start >= limit.windowMs) {
+    window = { start: now, count: 0 };
+    rateWindows.set(key, window);
+  }
+
+  const resetMs = window.start + limit.windowMs - now;
+  const headers = {
+    'X-RateLimit-Limit': String(limit.requests),
+    'X-RateLimit-Remaining': String(Math.max(limit.requests - window.count - 1, 0)),
+    'X-RateLimit-Reset': String(Math.ceil((window.start + limit.windowMs) / 1000)),
+  };
+
+  if (window.count >= limit.requests) {
+    throw new ApiError(429, 'Rate limit exceeded', {
+      ...headers,
+      'X-RateLimit-Remaining': '0',
+      'Retry-After': String(Math.ceil(resetMs / 1000)),
+    });
+  }
+
+  window.count++;
+  return headers;
+}
+
+export function resetRateLimits() {
+  rateWindows.clear();
+}
+
+// ============================================
+// Responses
+// ============================================
+
+export function computeEtag(body: string): string {
+  return `"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+// If-None-Match may list several tags, or *; weak tags compare by value
+function matchesEtag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.split(',').some(tag => {
+    const value = tag.trim().replace(/^W\//, '');
+    return value === '*' || value === etag;
+  });
+}
+
+/**
+ * JSON response with an ETag (Dates serialize as ISO strings); 304 with no
+ * body when the client already holds this representation. The tag covers the
+ * whole body unless `etagBasis` names the part that identifies it.
+ */
+export function jsonWithEtag(
+  request: NextRequest,
+  data: unknown,
+  headers: Record<string, string> = {},
+  etagBasis?: unknown
+): Response {
+  const body = JSON.stringify(data);
+  const etag = computeEtag(etagBasis === undefined ? body : JSON.stringify(etagBasis));
+  const responseHeaders = {
+    ...headers,
+    ETag: etag,
+    'Cache-Control': 'private, no-cache',
+  };
+
+  if (matchesEtag(request.headers.get('if-none-match'), etag)) {
+    return new Response(null, { status: 304, headers: responseHeaders });
+  }
+  return new Response(body, {
+    status: 200,
+    headers: { ...responseHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function errorResponse(error: ApiError): Response {
+  return Response.json({ error: error.message }, { status: error.status, headers: error.headers });
+}
+
+/**
+ * Runs a v1 handler behind authentication and rate limiting. Handlers
+ * return the payload or throw ApiError for 4xx responses; `etagOf` picks
+ * the part of the payload the ETag is computed from.
+ */
+export async function handleApiRequest<T>(
+  request: NextRequest,
+  handler: () => Promise<T>,
+  etagOf?: (data: T) => unknown
+): Promise<Response> {
+  let rateHeaders: Record<string, string> = {};
+  try {
+    rateHeaders = consumeRateLimit(authenticate(request));
+    const data = await handler();
+    return jsonWithEtag(request, data, rateHeaders, etagOf?.(data));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return errorResponse(new ApiError(error.status, error.message, { ...rateHeaders, ...error.headers }));
+    }
+    console.error(`API error for ${request.nextUrl.pathname}:`, error);
+    return Response.json({ error: 'Internal error' }, { status: 500, headers: rateHeaders });
+  }
+}
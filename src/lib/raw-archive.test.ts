@@ -0,0 +1,77 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { RawArchive, readRawArchive, scoreLatestResponses } from './raw-archive';
+import { SignalSource } from './sources';
+
+const at = (iso: string) => new Date(iso);
+
+function testSource(id: string): SignalSource<{ score: number }> {
+  return {
+    id,
+    name: id,
+    category: 'markets',
+    defaultRegion: 'global',
+    refreshInterval: 60 * 60 * 1000,
+    sourceName: 'Test',
+    sourceUrl: 'https://example.com',
+    fetch: async () => ({ score: 0 }),
+    normalize: raw => {
+      if (typeof raw.score !== 'number') throw new Error('no score');
+      return { score: raw.score, explanation: `score ${raw.score}`, baselineComparison: '', confidence: 'high' };
+    },
+    fallback: { mode: 'omit' },
+  };
+}
+
+describe('raw archive', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'raw-archive-'));
+    const archive = new RawArchive(dir);
+    archive.recordRaw('vix', at('2026-10-17T23:00:00Z'), { score: 10 });
+    archive.recordRaw('vix', at('2026-10-18T06:00:00Z'), { score: 20 });
+    archive.recordRaw('vix', at('2026-10-18T18:00:00Z'), { score: 30 });
+    archive.recordRaw('vix', at('2026-10-19T06:00:00Z'), { score: 40 });
+    archive.recordRaw('oil', at('2026-10-18T12:00:00Z'), { price: 'n/a' });
+    await archive.flush();
+
+    // A line cut short by a crash mid-write, and a file that isn't a day
+    await fs.appendFile(path.join(dir, 'vix', '2026-10-18.jsonl'), '{"fetchedAt":"2026-10-18T20:00:00Z","raw":{"sc');
+    await fs.writeFile(path.join(dir, 'vix', 'notes.txt'), 'not a day file');
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('reads every source oldest first and skips truncated lines', async () => {
+    const archive = await readRawArchive(dir);
+
+    assert.deepEqual([...archive.keys()].sort(), ['oil', 'vix']);
+    assert.deepEqual(archive.get('vix')!.map(r => (r.raw as { score: number }).score), [10, 20, 30, 40]);
+    assert.deepEqual(archive.get('vix')![0].fetchedAt, at('2026-10-17T23:00:00Z'));
+  });
+
+  it('filters to a range open at either end', async () => {
+    const scores = async (range: { from?: Date; to?: Date }) =>
+      (await readRawArchive(dir, range)).get('vix')?.map(r => (r.raw as { score: number }).score);
+
+    assert.deepEqual(await scores({ from: at('2026-10-18T00:00:00Z') }), [20, 30, 40]);
+    assert.deepEqual(await scores({ to: at('2026-10-18T12:00:00Z') }), [10, 20]);
+    assert.deepEqual(await scores({ from: at('2026-10-18T12:00:00Z'), to: at('2026-10-18T23:59:59Z') }), [30]);
+    assert.equal(await scores({ from: at('2026-10-20T00:00:00Z') }), undefined);
+  });
+
+  it('scores the latest response per source and lists the ones that fail', async () => {
+    const archive = await readRawArchive(dir);
+    const { signals, failed } = scoreLatestResponses(archive, [testSource('vix'), testSource('oil'), testSource('gold')]);
+
+    assert.equal(signals.length, 1);
+    assert.equal(signals[0].id, 'vix');
+    assert.equal(signals[0].score, 40);
+    assert.deepEqual(signals[0].observedAt, at('2026-10-19T06:00:00Z'));
+    assert.deepEqual(failed, ['oil']);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Raw response archive
+ * With RAW_ARCHIVE_DIR set, every successful upstream response is appended
+ * unscored to <dir>/<sourceId>/<YYYY-MM-DD>.jsonl, so scoring changes can be
+ * replayed against real data later (see backtest.ts).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Signal } from '@/types';
+import { RawResponseRecorder, SignalSource, toSignal } from './sources';
+import { TimeRange } from './history';
+
+export interface ArchivedResponse {
+  sourceId: string;
+  fetchedAt: Date;
+  raw: unknown;
+}
+
+const DAY_FILE = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+/**
+ * Append-only writer; write failures are logged and never affect the run
+ */
+export class RawArchive implements RawResponseRecorder {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private dir: string) {}
+
+  recordRaw(sourceId: string, fetchedAt: Date, raw: unknown) {
+    const file = path.join(this.dir, sourceId, `${fetchedAt.toISOString().slice(0, 10)}.jsonl`);
+    const line = JSON.stringify({ fetchedAt, raw }) + '\n';
+
+    this.queue = this.queue
+      .then(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.appendFile(file, line);
+      })
+      .catch(error => console.error(`Raw archive write failed for ${sourceId}:`, error));
+  }
+
+  /** Resolves once queued writes are on disk */
+  flush(): Promise<unknown> {
+    return this.queue;
+  }
+}
+
+let rawArchive: RawArchive | null | undefined;
+
+/**
+ * Shared archive, or null when RAW_ARCHIVE_DIR is not set
+ */
+export function getRawArchive(): RawArchive | null {
+  if (rawArchive === undefined) {
+    rawArchive = process.env.RAW_ARCHIVE_DIR ? new RawArchive(process.env.RAW_ARCHIVE_DIR) : null;
+  }
+  return rawArchive;
+}
+
+/**
+ * Archived responses per source id, oldest first, optionally limited to a
+ * range that may be open at either end. Day files outside it are not read.
+ */
+export async function readRawArchive(dir: string, range: Partial<TimeRange> = {}): Promise<Map<string, ArchivedResponse[]>> {
+  const archive = new Map<string, ArchivedResponse[]>();
+  const fromDay = range.from?.toISOString().slice(0, 10);
+  const toDay = range.to?.toISOString().slice(0, 10);
+
+  const sourceDirs = await fs.readdir(dir, { withFileTypes: true });
+  for (const entry of sourceDirs) {
+    if (!entry.isDirectory()) continue;
+    const sourceId = entry.name;
+    const responses: ArchivedResponse[] = [];
+
+    const days = (await fs.readdir(path.join(dir, sourceId)))
+      .map(name => name.match(DAY_FILE)?.[1])
+      .filter((day): day is string => !!day && (!fromDay || day >= fromDay) && (!toDay || day <= toDay))
+      .sort();
+
+    for (const day of days) {
+      const content = await fs.readFile(path.join(dir, sourceId, `${day}.jsonl`), 'utf8');
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const { fetchedAt, raw } = JSON.parse(line) as { fetchedAt: string; raw: unknown };
+          const time = new Date(fetchedAt);
+          if ((range.from && time < range.from) || (range.to && time > range.to)) continue;
+          responses.push({ sourceId, fetchedAt: time, raw });
+        } catch {
+          // A line cut short by a crash; skip it
+        }
+      }
+    }
+
+    if (responses.length > 0) {
+      archive.set(sourceId, responses.sort((a, b) => a.fetchedAt.getTime() - b.fetchedAt.getTime()));
+    }
+  }
+
+  return archive;
+}
+
+/**
+ * Signals scored from each source's latest archived response (offline runs);
+ * sources without a response are left out, failed ones are listed by id
+ */
+export function scoreLatestResponses(
+  archive: Map<string, ArchivedResponse[]>,
+  sources: SignalSource[]
+): { signals: Signal[]; failed: string[] } {
+  const signals: Signal[] = [];
+  const failed: string[] = [];
+
+  for (const source of sources) {
+    const latest = archive.get(source.id)?.at(-1);
+    if (!latest) continue;
+
+    try {
+      const signal = toSignal(source, source.normalize(latest.raw));
+      signals.push({ ...signal, lastUpdated: latest.fetchedAt, observedAt: latest.fetchedAt });
+    } catch {
+      failed.push(source.id);
+    }
+  }
+
+  return { signals, failed };
+}
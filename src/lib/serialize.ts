@@ -0,0 +1,122 @@
+/**
+ * Revive API payloads into typed objects (ISO strings back to Dates)
+ */
+
+import {
+  Signal,
+  GlobalRisk,
+  SignalSnapshot,
+  SignalUpdate,
+  OpenCircuit,
+  HistorySnapshot,
+  HistoryPoint,
+  FeedEntry,
+  StatusTransition,
+  ReplayTimeline,
+  SourceHealth,
+  SourceErrorRecord,
+  Serialized,
+} from '@/types';
+
+export function deserializeSignal(signal: Serialized<Signal>): Signal {
+  return {
+    ...signal,
+    lastUpdated: new Date(signal.lastUpdated),
+    quality: signal.quality ?? 'live', // history written before quality tracking
+    observedAt: signal.observedAt ? new Date(signal.observedAt) : null,
+    evidence: signal.evidence?.map(item => ({
+      ...item,
+      timestamp: item.timestamp ? new Date(item.timestamp) : null,
+    })),
+  };
+}
+
+export function deserializeGlobalRisk(risk: Serialized<GlobalRisk>): GlobalRisk {
+  return {
+    ...risk,
+    lastUpdated: new Date(risk.lastUpdated),
+  };
+}
+
+export function deserializeOpenCircuit(circuit: Serialized<OpenCircuit>): OpenCircuit {
+  return {
+    ...circuit,
+    retryAt: new Date(circuit.retryAt),
+  };
+}
+
+export function deserializeSnapshot(snapshot: Serialized<SignalSnapshot>): SignalSnapshot {
+  return {
+    signals: snapshot.signals.map(deserializeSignal),
+    globalRisk: deserializeGlobalRisk(snapshot.globalRisk),
+    generatedAt: new Date(snapshot.generatedAt),
+    openCircuits: (snapshot.openCircuits ?? []).map(deserializeOpenCircuit),
+  };
+}
+
+export function deserializeSignalUpdate(update: Serialized<SignalUpdate>): SignalUpdate {
+  return {
+    signals: update.signals.map(deserializeSignal),
+    removed: update.removed,
+    globalRisk: deserializeGlobalRisk(update.globalRisk),
+    generatedAt: new Date(update.generatedAt),
+    openCircuits: update.openCircuits.map(deserializeOpenCircuit),
+  };
+}
+
+export function deserializeFeedEntry(entry: Serialized<FeedEntry>): FeedEntry {
+  return {
+    ...entry,
+    timestamp: new Date(entry.timestamp),
+  };
+}
+
+export function deserializeHistorySnapshot(snapshot: Serialized<HistorySnapshot>): HistorySnapshot {
+  return {
+    ...snapshot,
+    timestamp: new Date(snapshot.timestamp),
+    globalRisk: deserializeGlobalRisk(snapshot.globalRisk),
+    signals: snapshot.signals.map(deserializeSignal),
+    changes: snapshot.changes && Object.fromEntries(
+      Object.entries(snapshot.changes).map(([region, entries]) => [region, entries!.map(deserializeFeedEntry)])
+    ),
+  };
+}
+
+export function deserializeHistoryPoint(point: Serialized<HistoryPoint>): HistoryPoint {
+  return {
+    ...point,
+    timestamp: new Date(point.timestamp),
+  };
+}
+
+export function deserializeTransition(transition: Serialized<StatusTransition>): StatusTransition {
+  return {
+    ...transition,
+    timestamp: new Date(transition.timestamp),
+  };
+}
+
+export function deserializeReplayTimeline(timeline: Serialized<ReplayTimeline>): ReplayTimeline {
+  return {
+    from: new Date(timeline.from),
+    to: new Date(timeline.to),
+    frames: timeline.frames.map(deserializeHistoryPoint),
+    events: timeline.events.map(deserializeTransition),
+  };
+}
+
+export function deserializeSourceError(error: Serialized<SourceErrorRecord>): SourceErrorRecord {
+  return {
+    ...error,
+    timestamp: new Date(error.timestamp),
+  };
+}
+
+export function deserializeSourceHealth(health: Serialized<SourceHealth>): SourceHealth {
+  return {
+    ...health,
+    lastSuccess: health.lastSuccess ? new Date(health.lastSuccess) : null,
+    lastError: health.lastError ? deserializeSourceError(health.lastError) : null,
+  };
+}
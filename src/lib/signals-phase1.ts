@@ -1,12 +1,61 @@
-import { Signal, ConfidenceLevel, Region } from '@/types';
 import { clamp } from './utils';
-import { logSignalError } from './logger';
+import { SignalSource } from './sources';
+import { fetchSourceJson, SourceFetchError } from './http';
 
-// Helper to determine status from score
-function scoreToStatus(score: number) {
-  if (score < 35) return 'normal';
-  if (score < 65) return 'elevated';
-  return 'high';
+// ============================================
+// Yahoo Finance chart API (shared by market signals)
+// ============================================
+interface YahooChartResult {
+  meta?: {
+    regularMarketPrice?: number;
+    previousClose?: number;
+    regularMarketTime?: number; // unix seconds
+  };
+  indicators?: {
+    quote?: { close?: (number | null)[] }[];
+  };
+}
+
+interface YahooChartResponse {
+  chart?: { result?: YahooChartResult[] };
+}
+
+const HISTORY_RANGE = '1mo';
+const HISTORY_WINDOW_DAYS = 30;
+
+// Markets close overnight and at weekends; only flag quotes older than a long weekend
+const MARKET_MAX_DATA_AGE = 4 * 24 * 60 * 60 * 1000;
+
+function fetchYahooChart(symbol: string, range: string, revalidate: number): Promise<YahooChartResponse> {
+  return fetchSourceJson(
+    `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?interval=1d&range=${range}`,
+    {
+      next: { revalidate },
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; signal-fetcher/1.0)' }
+    },
+    'Yahoo Finance'
+  );
+}
+
+// Daily closes, oldest first
+function getCloses(result: YahooChartResult): number[] {
+  return result.indicators?.quote?.[0]?.close?.filter((c): c is number => c !== null) || [];
+}
+
+// Upstream history for the baseline engine: prior closes in the chart range
+function closesHistory(closes: number[]) {
+  return { values: closes.slice(0, -1), windowDays: HISTORY_WINDOW_DAYS };
+}
+
+// Time of the quote, when Yahoo reports it
+function marketTime(result: YahooChartResult | undefined): Date | undefined {
+  const seconds = result?.meta?.regularMarketTime;
+  return seconds ? new Date(seconds * 1000) : undefined;
+}
+
+// Close from five sessions ago, for 5-day momentum
+function fiveDayClose(closes: number[], fallback: number): number {
+  return closes.length > 5 ? closes[closes.length - 6] : closes.length > 1 ? closes[0] : fallback;
 }
 
 // ============================================
@@ -16,28 +65,26 @@ function scoreToStatus(score: number) {
  * VIX signal - Market volatility/fear gauge
  * Uses Yahoo Finance API (free, no auth required)
  */
-export async function fetchVIXSignal(): Promise<Signal | null> {
-  try {
-    // Yahoo Finance API for VIX - free and reliable
-    const response = await fetch(
-      'https://query1.finance.yahoo.com/v8/finance/chart/%5EVIX?interval=1d&range=1d',
-      {
-        next: { revalidate: 300 }, // Cache for 5 minutes
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; signal-fetcher/1.0)'
-        }
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Yahoo Finance API error: ${response.status}`);
-    }
-
-    const data = await response.json();
+export const vixSource: SignalSource<YahooChartResponse> = {
+  id: 'vix-fear-index',
+  name: 'Market Volatility Index (VIX)',
+  category: 'markets',
+  defaultRegion: 'global',
+  refreshInterval: 300000,
+  maxDataAge: MARKET_MAX_DATA_AGE,
+  sourceName: 'Yahoo Finance (VIX)',
+  sourceUrl: 'https://finance.yahoo.com/quote/%5EVIX',
+
+  fetch() {
+    // Yahoo Finance API for VIX - free and reliable, cached for 5 minutes
+    return fetchYahooChart('%5EVIX', HISTORY_RANGE, 300);
+  },
+
+  normalize(data) {
     const result = data?.chart?.result?.[0];
 
     if (!result) {
-      throw new Error('No VIX data in response');
+      throw new SourceFetchError('No VIX data in response', 'validation');
     }
 
     // Get the most recent close price
@@ -45,18 +92,14 @@ export async function fetchVIXSignal(): Promise<Signal | null> {
     const vixLevel = meta?.regularMarketPrice || meta?.previousClose;
 
     if (!vixLevel || isNaN(vixLevel)) {
-      throw new Error('Could not parse VIX value');
+      throw new SourceFetchError('Could not parse VIX value', 'validation');
     }
 
     // VIX baseline: 15-20 is normal, >25 is elevated, >30 is high anxiety
     const score = clamp((vixLevel / 40) * 100, 0, 100);
 
     return {
-      id: 'vix-fear-index',
-      name: 'Market Volatility Index (VIX)',
-      region: 'global' as Region,
-      status: scoreToStatus(score),
-      score: Math.round(score),
+      score,
       explanation: `VIX at ${vixLevel.toFixed(1)}. ${
         vixLevel > 30
           ? 'High market anxiety - fear in markets.'
@@ -67,66 +110,80 @@ export async function fetchVIXSignal(): Promise<Signal | null> {
           : 'Normal market conditions.'
       }`,
       baselineComparison: `${((vixLevel - 17.5) / 17.5 * 100).toFixed(1)}% vs historical avg (17.5)`,
-      confidence: 'high' as ConfidenceLevel,
-      sourceUrl: 'https://finance.yahoo.com/quote/%5EVIX',
-      sourceName: 'Yahoo Finance (VIX)',
-      lastUpdated: new Date(),
+      confidence: 'high',
+      metric: { value: vixLevel, label: 'VIX level' },
+      history: closesHistory(getCloses(result)),
+      observedAt: marketTime(result),
     };
-  } catch (error) {
-    logSignalError({
-      signalId: 'vix-fear-index',
-      sourceName: 'Yahoo Finance VIX',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: 'network',
-    });
-    return null;
-  }
-}
+  },
+
+  fallback: { mode: 'omit' },
+};
 
 // ============================================
 // PHASE 1: Credit Market Spreads (10Y-2Y Yield)
 // ============================================
+interface FredObservationsResponse {
+  observations?: { date: string; value: string }[];
+}
+
+type CreditSpreadRaw =
+  | { provider: 'yahoo'; chart: YahooChartResponse }
+  | { provider: 'fred'; tenYear: FredObservationsResponse; twoYear: FredObservationsResponse };
+
 /**
  * Credit spreads signal - Yield curve inversion indicator
  * Uses FRED API with observations endpoint
  * Inverted yield curve (spread < 0) predicts recessions
  */
-export async function fetchCreditSpreadSignal(): Promise<Signal | null> {
-  try {
+export const creditSpreadSource: SignalSource<CreditSpreadRaw> = {
+  id: 'credit-spreads',
+  name: 'Yield Curve Spread (10Y-2Y)',
+  category: 'markets',
+  defaultRegion: 'global',
+  refreshInterval: 3600000,
+  maxDataAge: MARKET_MAX_DATA_AGE,
+  sourceName: 'FRED (Federal Reserve)',
+  sourceUrl: 'https://fred.stlouisfed.org/',
+
+  async fetch() {
     const fredKey = process.env.FRED_API_KEY;
 
     // If no FRED key, use Treasury yield spread from Yahoo Finance
     if (!fredKey) {
       // Use Yahoo Finance for 10Y Treasury yield
-      const response = await fetch(
-        'https://query1.finance.yahoo.com/v8/finance/chart/%5ETNX?interval=1d&range=5d',
-        {
-          next: { revalidate: 3600 },
-          headers: { 'User-Agent': 'Mozilla/5.0 (compatible; signal-fetcher/1.0)' }
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error('Yahoo Finance unavailable');
-      }
-
-      const data = await response.json();
-      const meta = data?.chart?.result?.[0]?.meta;
+      return { provider: 'yahoo', chart: await fetchYahooChart('%5ETNX', HISTORY_RANGE, 3600) };
+    }
+
+    // Use FRED with proper observations endpoint
+    const [tenYear, twoYear] = await Promise.all(
+      ['DGS10', 'DGS2'].map(series =>
+        fetchSourceJson<FredObservationsResponse>(
+          `https://api.stlouisfed.org/fred/series/observations?series_id=${series}&api_key=${fredKey}&file_type=json&limit=${HISTORY_WINDOW_DAYS}&sort_order=desc`,
+          { next: { revalidate: 86400 } },
+          `FRED ${series}`
+        )
+      )
+    );
+
+    return { provider: 'fred', tenYear, twoYear };
+  },
+
+  normalize(raw) {
+    if (raw.provider === 'yahoo') {
+      const result = raw.chart?.chart?.result?.[0];
+      const meta = result?.meta;
       const yield10y = meta?.regularMarketPrice || meta?.previousClose;
 
-      if (!yield10y) throw new Error('No yield data');
+      if (!yield10y) throw new SourceFetchError('No yield data', 'validation');
 
-      // 10Y yield indicator (not spread, but still useful)
-      // High yields (>4.5%) indicate tighter financial conditions
-      const score = clamp((yield10y / 6) * 100, 0, 100);
+      // 10Y yield indicator (not spread, but still useful). Scored on the
+      // bands of the explanation below: elevated from 4.5%, high from 5%
+      const score = clamp(35 + (yield10y - 4.5) * 60, 0, 100);
 
       return {
-        id: 'credit-spreads',
+        score,
         name: 'Treasury Yield (10Y)',
-        region: 'global' as Region,
-        status: scoreToStatus(score),
-        score: Math.round(score),
         explanation: `10Y Treasury yield at ${yield10y.toFixed(2)}%. ${
           yield10y > 5
             ? 'Very high rates - tight financial conditions.'
@@ -135,56 +192,43 @@ export async function fetchCreditSpreadSignal(): Promise<Signal | null> {
             : 'Normal rate environment.'
         }`,
         baselineComparison: `${((yield10y - 4.0) / 4.0 * 100).toFixed(1)}% vs baseline (4.0%)`,
-        confidence: 'medium' as ConfidenceLevel,
+        confidence: 'medium',
         sourceUrl: 'https://finance.yahoo.com/quote/%5ETNX',
         sourceName: 'Yahoo Finance (10Y Yield)',
-        lastUpdated: new Date(),
+        metric: { value: yield10y, label: '10Y yield', unit: '%' },
+        history: result ? closesHistory(getCloses(result)) : undefined,
+        observedAt: marketTime(result),
       };
     }
 
-    // Use FRED with proper observations endpoint
-    const res10y = await fetch(
-      `https://api.stlouisfed.org/fred/series/observations?series_id=DGS10&api_key=${fredKey}&file_type=json&limit=1&sort_order=desc`,
-      { next: { revalidate: 86400 } }
-    );
-
-    const res2y = await fetch(
-      `https://api.stlouisfed.org/fred/series/observations?series_id=DGS2&api_key=${fredKey}&file_type=json&limit=1&sort_order=desc`,
-      { next: { revalidate: 86400 } }
-    );
-
-    if (!res10y.ok || !res2y.ok) {
-      throw new Error(`FRED API error: 10Y=${res10y.status}, 2Y=${res2y.status}`);
-    }
-
-    const data10y = await res10y.json();
-    const data2y = await res2y.json();
-
-    const obs10y = data10y.observations || [];
-    const obs2y = data2y.observations || [];
+    const obs10y = raw.tenYear.observations || [];
+    const obs2y = raw.twoYear.observations || [];
 
     if (obs10y.length === 0 || obs2y.length === 0) {
-      throw new Error('No observations from FRED');
+      throw new SourceFetchError('No observations from FRED', 'validation');
     }
 
     const yield10y = parseFloat(obs10y[0].value);
     const yield2y = parseFloat(obs2y[0].value);
 
     if (isNaN(yield10y) || isNaN(yield2y)) {
-      throw new Error('Invalid yield data');
+      throw new SourceFetchError('Invalid yield data', 'validation');
     }
 
     const spread = yield10y - yield2y;
 
+    // Past spreads from observations both series have (FRED marks gaps with '.')
+    const twoYearByDate = new Map(obs2y.map(o => [o.date, parseFloat(o.value)]));
+    const pastSpreads = obs10y
+      .slice(1)
+      .map(o => parseFloat(o.value) - (twoYearByDate.get(o.date) ?? NaN))
+      .filter(v => !isNaN(v));
+
     // Inverted yield curve (spread < 0) is recession signal
     const score = clamp(50 - spread * 30, 0, 100);
 
     return {
-      id: 'credit-spreads',
-      name: 'Yield Curve Spread (10Y-2Y)',
-      region: 'global' as Region,
-      status: scoreToStatus(score),
-      score: Math.round(score),
+      score,
       explanation: `10Y-2Y spread at ${(spread * 100).toFixed(0)}bps. ${
         spread < 0
           ? 'Inverted yield curve - recession warning.'
@@ -193,22 +237,15 @@ export async function fetchCreditSpreadSignal(): Promise<Signal | null> {
           : 'Normal yield curve.'
       }`,
       baselineComparison: `10Y: ${yield10y.toFixed(2)}%, 2Y: ${yield2y.toFixed(2)}%`,
-      confidence: 'high' as ConfidenceLevel,
-      sourceUrl: 'https://fred.stlouisfed.org/',
-      sourceName: 'FRED (Federal Reserve)',
-      lastUpdated: new Date(),
+      confidence: 'high',
+      metric: { value: spread, label: '10Y-2Y spread', unit: '%', riskDirection: 'down' },
+      history: { values: pastSpreads, windowDays: HISTORY_WINDOW_DAYS },
+      observedAt: new Date(obs10y[0].date),
     };
-  } catch (error) {
-    logSignalError({
-      signalId: 'credit-spreads',
-      sourceName: 'FRED/Yahoo Finance',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: 'network',
-    });
-    return null;
-  }
-}
+  },
+
+  fallback: { mode: 'omit' },
+};
 
 // ============================================
 // PHASE 1: Oil Price (WTI Crude)
@@ -217,33 +254,33 @@ export async function fetchCreditSpreadSignal(): Promise<Signal | null> {
  * Oil price signal - Supply disruption and geopolitical stress
  * Uses Yahoo Finance for WTI crude oil futures
  */
-export async function fetchOilPriceSignal(): Promise<Signal | null> {
-  try {
+export const oilPriceSource: SignalSource<YahooChartResponse> = {
+  id: 'oil-prices',
+  name: 'WTI Crude Oil Price',
+  category: 'markets',
+  defaultRegion: 'global',
+  refreshInterval: 300000,
+  maxDataAge: MARKET_MAX_DATA_AGE,
+  sourceName: 'Yahoo Finance (WTI Crude)',
+  sourceUrl: 'https://finance.yahoo.com/quote/CL=F',
+
+  fetch() {
     // Yahoo Finance for WTI Crude Oil futures (CL=F)
-    const response = await fetch(
-      'https://query1.finance.yahoo.com/v8/finance/chart/CL=F?interval=1d&range=1d',
-      {
-        next: { revalidate: 300 },
-        headers: { 'User-Agent': 'Mozilla/5.0 (compatible; signal-fetcher/1.0)' }
-      }
-    );
+    return fetchYahooChart('CL=F', HISTORY_RANGE, 300);
+  },
 
-    if (!response.ok) {
-      throw new Error(`Yahoo Finance API error: ${response.status}`);
-    }
-
-    const data = await response.json();
+  normalize(data) {
     const result = data?.chart?.result?.[0];
 
     if (!result) {
-      throw new Error('No oil price data');
+      throw new SourceFetchError('No oil price data', 'validation');
     }
 
     const meta = result.meta;
     const currentPrice = meta?.regularMarketPrice || meta?.previousClose;
 
     if (!currentPrice || isNaN(currentPrice)) {
-      throw new Error('Could not parse oil price');
+      throw new SourceFetchError('Could not parse oil price', 'validation');
     }
 
     // Baseline: ~$70-75/barrel is normal
@@ -254,11 +291,7 @@ export async function fetchOilPriceSignal(): Promise<Signal | null> {
     const score = clamp(45 + priceDeviation * 0.6, 0, 100);
 
     return {
-      id: 'oil-prices',
-      name: 'WTI Crude Oil Price',
-      region: 'global' as Region,
-      status: scoreToStatus(score),
-      score: Math.round(score),
+      score,
       explanation: `WTI crude at $${currentPrice.toFixed(2)}/barrel. ${
         currentPrice > 100
           ? 'Extreme prices - major supply disruption.'
@@ -271,22 +304,15 @@ export async function fetchOilPriceSignal(): Promise<Signal | null> {
           : 'Normal price range.'
       }`,
       baselineComparison: `${priceDeviation > 0 ? '+' : ''}${priceDeviation.toFixed(1)}% vs baseline ($${baseline}/bbl)`,
-      confidence: 'high' as ConfidenceLevel,
-      sourceUrl: 'https://finance.yahoo.com/quote/CL=F',
-      sourceName: 'Yahoo Finance (WTI Crude)',
-      lastUpdated: new Date(),
+      confidence: 'high',
+      metric: { value: currentPrice, label: 'WTI price', unit: 'USD/bbl' },
+      history: closesHistory(getCloses(result)),
+      observedAt: marketTime(result),
     };
-  } catch (error) {
-    logSignalError({
-      signalId: 'oil-prices',
-      sourceName: 'Yahoo Finance Oil',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: 'network',
-    });
-    return null;
-  }
-}
+  },
+
+  fallback: { mode: 'omit' },
+};
 
 // ============================================
 // PHASE 1: Gold Price (Safe Haven)
@@ -295,41 +321,40 @@ export async function fetchOilPriceSignal(): Promise<Signal | null> {
  * Gold price signal - Safe haven demand indicator
  * Rising gold = increased fear/uncertainty
  */
-export async function fetchGoldPriceSignal(): Promise<Signal | null> {
-  try {
+export const goldPriceSource: SignalSource<YahooChartResponse> = {
+  id: 'gold-safe-haven',
+  name: 'Gold Price (Safe Haven)',
+  category: 'markets',
+  defaultRegion: 'global',
+  refreshInterval: 300000,
+  maxDataAge: MARKET_MAX_DATA_AGE,
+  sourceName: 'Yahoo Finance (Gold)',
+  sourceUrl: 'https://finance.yahoo.com/quote/GC=F',
+
+  fetch() {
     // Yahoo Finance for Gold futures (GC=F)
-    const response = await fetch(
-      'https://query1.finance.yahoo.com/v8/finance/chart/GC=F?interval=1d&range=5d',
-      {
-        next: { revalidate: 300 },
-        headers: { 'User-Agent': 'Mozilla/5.0 (compatible; signal-fetcher/1.0)' }
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Yahoo Finance API error: ${response.status}`);
-    }
+    return fetchYahooChart('GC=F', HISTORY_RANGE, 300);
+  },
 
-    const data = await response.json();
+  normalize(data) {
     const result = data?.chart?.result?.[0];
 
     if (!result) {
-      throw new Error('No gold price data');
+      throw new SourceFetchError('No gold price data', 'validation');
     }
 
     const meta = result.meta;
     const currentPrice = meta?.regularMarketPrice || meta?.previousClose;
-    const quotes = result.indicators?.quote?.[0];
-    const closes = quotes?.close?.filter((c: number | null) => c !== null) || [];
-
-    // Calculate 5-day change
-    const prevPrice = closes.length > 1 ? closes[0] : currentPrice;
-    const priceChange = ((currentPrice - prevPrice) / prevPrice) * 100;
+    const closes = getCloses(result);
 
     if (!currentPrice || isNaN(currentPrice)) {
-      throw new Error('Could not parse gold price');
+      throw new SourceFetchError('Could not parse gold price', 'validation');
     }
 
+    // Calculate 5-day change
+    const prevPrice = fiveDayClose(closes, currentPrice);
+    const priceChange = ((currentPrice - prevPrice) / prevPrice) * 100;
+
     // High gold prices and rising = flight to safety
     // Score based on price level and momentum
     const baseline = 2000; // $2000/oz baseline
@@ -338,11 +363,7 @@ export async function fetchGoldPriceSignal(): Promise<Signal | null> {
     const score = clamp(40 + levelScore + momentumScore, 0, 100);
 
     return {
-      id: 'gold-safe-haven',
-      name: 'Gold Price (Safe Haven)',
-      region: 'global' as Region,
-      status: scoreToStatus(score),
-      score: Math.round(score),
+      score,
       explanation: `Gold at $${currentPrice.toFixed(0)}/oz (${priceChange >= 0 ? '+' : ''}${priceChange.toFixed(1)}% 5d). ${
         priceChange > 3
           ? 'Strong safe haven buying - elevated fear.'
@@ -353,22 +374,15 @@ export async function fetchGoldPriceSignal(): Promise<Signal | null> {
           : 'Stable gold market.'
       }`,
       baselineComparison: `${((currentPrice - baseline) / baseline * 100).toFixed(1)}% vs $${baseline} baseline`,
-      confidence: 'high' as ConfidenceLevel,
-      sourceUrl: 'https://finance.yahoo.com/quote/GC=F',
-      sourceName: 'Yahoo Finance (Gold)',
-      lastUpdated: new Date(),
+      confidence: 'high',
+      metric: { value: currentPrice, label: 'gold price', unit: 'USD/oz' },
+      history: closesHistory(closes),
+      observedAt: marketTime(result),
     };
-  } catch (error) {
-    logSignalError({
-      signalId: 'gold-safe-haven',
-      sourceName: 'Yahoo Finance Gold',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: 'network',
-    });
-    return null;
-  }
-}
+  },
+
+  fallback: { mode: 'omit' },
+};
 
 // ============================================
 // PHASE 1: US Dollar Index (DXY)
@@ -377,40 +391,39 @@ export async function fetchGoldPriceSignal(): Promise<Signal | null> {
  * Dollar index signal - Global stress indicator
  * Rising DXY = flight to dollar safety
  */
-export async function fetchDollarIndexSignal(): Promise<Signal | null> {
-  try {
+export const dollarIndexSource: SignalSource<YahooChartResponse> = {
+  id: 'dollar-index',
+  name: 'US Dollar Index (DXY)',
+  category: 'markets',
+  defaultRegion: 'global',
+  refreshInterval: 300000,
+  maxDataAge: MARKET_MAX_DATA_AGE,
+  sourceName: 'Yahoo Finance (DXY)',
+  sourceUrl: 'https://finance.yahoo.com/quote/DX-Y.NYB',
+
+  fetch() {
     // Yahoo Finance for US Dollar Index (DX-Y.NYB)
-    const response = await fetch(
-      'https://query1.finance.yahoo.com/v8/finance/chart/DX-Y.NYB?interval=1d&range=5d',
-      {
-        next: { revalidate: 300 },
-        headers: { 'User-Agent': 'Mozilla/5.0 (compatible; signal-fetcher/1.0)' }
-      }
-    );
+    return fetchYahooChart('DX-Y.NYB', HISTORY_RANGE, 300);
+  },
 
-    if (!response.ok) {
-      throw new Error(`Yahoo Finance API error: ${response.status}`);
-    }
-
-    const data = await response.json();
+  normalize(data) {
     const result = data?.chart?.result?.[0];
 
     if (!result) {
-      throw new Error('No DXY data');
+      throw new SourceFetchError('No DXY data', 'validation');
     }
 
     const meta = result.meta;
     const currentDxy = meta?.regularMarketPrice || meta?.previousClose;
-    const quotes = result.indicators?.quote?.[0];
-    const closes = quotes?.close?.filter((c: number | null) => c !== null) || [];
-
-    const prevDxy = closes.length > 1 ? closes[0] : currentDxy;
-    const dxyChange = ((currentDxy - prevDxy) / prevDxy) * 100;
+    const closes = getCloses(result);
 
     if (!currentDxy || isNaN(currentDxy)) {
-      throw new Error('Could not parse DXY');
+      throw new SourceFetchError('Could not parse DXY', 'validation');
     }
 
+    const prevDxy = fiveDayClose(closes, currentDxy);
+    const dxyChange = ((currentDxy - prevDxy) / prevDxy) * 100;
+
     // Strong dollar (>105) + rising = global stress
     const baseline = 100;
     const levelScore = ((currentDxy - baseline) / baseline) * 40;
@@ -418,11 +431,7 @@ export async function fetchDollarIndexSignal(): Promise<Signal | null> {
     const score = clamp(35 + levelScore + momentumScore, 0, 100);
 
     return {
-      id: 'dollar-index',
-      name: 'US Dollar Index (DXY)',
-      region: 'global' as Region,
-      status: scoreToStatus(score),
-      score: Math.round(score),
+      score,
       explanation: `DXY at ${currentDxy.toFixed(1)} (${dxyChange >= 0 ? '+' : ''}${dxyChange.toFixed(2)}% 5d). ${
         currentDxy > 108 && dxyChange > 1
           ? 'Strong dollar surge - global flight to safety.'
@@ -433,30 +442,23 @@ export async function fetchDollarIndexSignal(): Promise<Signal | null> {
           : 'Normal dollar trading.'
       }`,
       baselineComparison: `${((currentDxy - baseline) / baseline * 100).toFixed(1)}% vs baseline (${baseline})`,
-      confidence: 'high' as ConfidenceLevel,
-      sourceUrl: 'https://finance.yahoo.com/quote/DX-Y.NYB',
-      sourceName: 'Yahoo Finance (DXY)',
-      lastUpdated: new Date(),
+      confidence: 'high',
+      metric: { value: currentDxy, label: 'DXY level' },
+      history: closesHistory(closes),
+      observedAt: marketTime(result),
     };
-  } catch (error) {
-    logSignalError({
-      signalId: 'dollar-index',
-      sourceName: 'Yahoo Finance DXY',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: 'network',
-    });
-    return null;
-  }
-}
+  },
+
+  fallback: { mode: 'omit' },
+};
 
 // ============================================
-// Export all Phase 1 signals
+// Export all Phase 1 sources
 // ============================================
-export const phase1Signals = [
-  fetchVIXSignal,
-  fetchCreditSpreadSignal,
-  fetchOilPriceSignal,
-  fetchGoldPriceSignal,
-  fetchDollarIndexSignal,
-] as const;
+export const phase1Sources: SignalSource[] = [
+  vixSource,
+  creditSpreadSource,
+  oilPriceSource,
+  goldPriceSource,
+  dollarIndexSource,
+];
@@ -1,13 +1,8 @@
-import { Signal, ConfidenceLevel, Region } from '@/types';
+import { EvidenceItem } from '@/types';
 import { clamp } from './utils';
-import { logSignalError } from './logger';
-
-// Helper to determine status from score
-function scoreToStatus(score: number) {
-  if (score < 35) return 'normal';
-  if (score < 65) return 'elevated';
-  return 'high';
-}
+import { SignalSource } from './sources';
+import { fetchSourceJson } from './http';
+import { findCountriesInText } from './countries';
 
 // ============================================
 // PHASE 2: Polymarket Prediction Markets
@@ -15,6 +10,8 @@ function scoreToStatus(score: number) {
 interface PolymarketMarket {
   id: string;
   question: string;
+  slug?: string;
+  updatedAt?: string;
   outcomePrices: string;
   volume: number;
   liquidity: number;
@@ -33,22 +30,27 @@ const CRISIS_KEYWORDS = [
  * Aggregates crisis probabilities from prediction markets
  * Free API, no auth required
  */
-export async function fetchPolymarketSignal(): Promise<Signal | null> {
-  try {
-    const response = await fetch(
+export const polymarketSource: SignalSource<PolymarketMarket[]> = {
+  id: 'polymarket-crisis',
+  name: 'Polymarket Crisis Odds',
+  category: 'prediction',
+  defaultRegion: 'global',
+  refreshInterval: 300000,
+  sourceName: 'Polymarket',
+  sourceUrl: 'https://polymarket.com',
+
+  fetch() {
+    return fetchSourceJson(
       'https://gamma-api.polymarket.com/markets?closed=false&limit=200',
       {
         next: { revalidate: 300 }, // 5 min cache
         headers: { 'Accept': 'application/json' }
-      }
+      },
+      'Polymarket'
     );
+  },
 
-    if (!response.ok) {
-      throw new Error(`Polymarket API error: ${response.status}`);
-    }
-
-    const markets: PolymarketMarket[] = await response.json();
-
+  normalize(markets) {
     // Filter for geopolitical/crisis markets
     const crisisMarkets = markets.filter(m => {
       const q = m.question.toLowerCase();
@@ -57,17 +59,11 @@ export async function fetchPolymarketSignal(): Promise<Signal | null> {
 
     if (crisisMarkets.length === 0) {
       return {
-        id: 'polymarket-crisis',
-        name: 'Polymarket Crisis Odds',
-        region: 'global' as Region,
         status: 'normal',
         score: 25,
         explanation: 'No active crisis-related prediction markets found.',
         baselineComparison: 'Monitoring active',
-        confidence: 'low' as ConfidenceLevel,
-        sourceUrl: 'https://polymarket.com',
-        sourceName: 'Polymarket',
-        lastUpdated: new Date(),
+        confidence: 'low',
       };
     }
 
@@ -75,6 +71,7 @@ export async function fetchPolymarketSignal(): Promise<Signal | null> {
     let totalWeight = 0;
     let weightedProbSum = 0;
     const highProbMarkets: string[] = [];
+    const priced: { market: PolymarketMarket; yesProb: number; weight: number }[] = [];
 
     for (const market of crisisMarkets) {
       try {
@@ -86,6 +83,7 @@ export async function fetchPolymarketSignal(): Promise<Signal | null> {
         const weight = Math.log10(Math.max(volume, 100));
         totalWeight += weight;
         weightedProbSum += yesProb * weight;
+        priced.push({ market, yesProb, weight });
 
         // Track high probability events (>40%)
         if (yesProb > 0.4) {
@@ -102,47 +100,49 @@ export async function fetchPolymarketSignal(): Promise<Signal | null> {
     // 20% avg = 40 score, 50% avg = 70 score
     const score = clamp(25 + avgCrisisProb * 90, 0, 100);
 
+    // Each market's share of the weighted average, in score points
+    const evidence = priced.map(({ market, yesProb, weight }): EvidenceItem => {
+      // Countries named in the question, e.g. "Will Russia and Ukraine agree a ceasefire?"
+      const countries = findCountriesInText(market.question);
+      const regions = new Set(countries.map(c => c.region));
+      return {
+        title: market.question,
+        ...(market.slug && { url: `https://polymarket.com/market/${market.slug}` }),
+        timestamp: market.updatedAt ? new Date(market.updatedAt) : null,
+        ...(regions.size === 1 && { region: countries[0].region }),
+        ...(countries.length > 0 && { countries: countries.map(c => c.code) }),
+        ...(countries.length === 1 && { coordinates: countries[0].centroid }),
+        probability: yesProb,
+        contribution: totalWeight > 0 ? (yesProb * weight / totalWeight) * 90 : 0,
+      };
+    });
+
     return {
-      id: 'polymarket-crisis',
-      name: 'Polymarket Crisis Odds',
-      region: 'global' as Region,
-      status: scoreToStatus(score),
-      score: Math.round(score),
+      score,
+      evidence,
       explanation: `${crisisMarkets.length} crisis markets tracked. Avg probability: ${(avgCrisisProb * 100).toFixed(1)}%. ${
         highProbMarkets.length > 0
           ? `High probability: ${highProbMarkets.slice(0, 2).join('; ')}`
           : 'No high-probability events.'
       }`,
       baselineComparison: `${crisisMarkets.length} active markets, $${(crisisMarkets.reduce((s, m) => s + (m.volume || 0), 0) / 1000000).toFixed(1)}M volume`,
-      confidence: crisisMarkets.length >= 3 ? 'high' : 'medium' as ConfidenceLevel,
-      sourceUrl: 'https://polymarket.com',
-      sourceName: 'Polymarket',
-      lastUpdated: new Date(),
+      confidence: crisisMarkets.length >= 3 ? 'high' : 'medium',
+      metric: { value: avgCrisisProb * 100, label: 'avg crisis probability', unit: '%' },
     };
-  } catch (error) {
-    logSignalError({
-      signalId: 'polymarket-crisis',
-      sourceName: 'Polymarket',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: 'network',
-    });
+  },
 
-    return {
-      id: 'polymarket-crisis',
-      name: 'Polymarket Crisis Odds',
-      region: 'global' as Region,
+  fallback: {
+    mode: 'reading',
+    reading: () => ({
       status: 'normal',
       score: 30,
       explanation: 'Prediction market data temporarily unavailable.',
       baselineComparison: 'Fallback: API unavailable',
-      confidence: 'low' as ConfidenceLevel,
-      sourceUrl: 'https://polymarket.com',
+      confidence: 'low',
       sourceName: 'Polymarket (Fallback)',
-      lastUpdated: new Date(),
-    };
-  }
-}
+    }),
+  },
+};
 
 // ============================================
 // PHASE 2: Kalshi Political Risk Markets
@@ -174,21 +174,27 @@ const KALSHI_KEYWORDS = [
  * Tracks political and economic prediction markets
  * Free public API for market data
  */
-export async function fetchKalshiSignal(): Promise<Signal | null> {
-  try {
-    const response = await fetch(
+export const kalshiSource: SignalSource<KalshiResponse> = {
+  id: 'kalshi-political-risk',
+  name: 'Kalshi Political Risk',
+  category: 'prediction',
+  defaultRegion: 'north-america',
+  refreshInterval: 300000,
+  sourceName: 'Kalshi',
+  sourceUrl: 'https://kalshi.com',
+
+  fetch() {
+    return fetchSourceJson(
       'https://api.elections.kalshi.com/trade-api/v2/markets?status=open&limit=100',
       {
         next: { revalidate: 300 },
         headers: { 'Accept': 'application/json' }
-      }
+      },
+      'Kalshi'
     );
+  },
 
-    if (!response.ok) {
-      throw new Error(`Kalshi API error: ${response.status}`);
-    }
-
-    const data: KalshiResponse = await response.json();
+  normalize(data) {
     const markets = data.markets || [];
 
     // Filter for political/economic markets
@@ -201,17 +207,11 @@ export async function fetchKalshiSignal(): Promise<Signal | null> {
 
     if (relevantMarkets.length === 0) {
       return {
-        id: 'kalshi-political-risk',
-        name: 'Kalshi Political Risk',
-        region: 'north-america' as Region,
         status: 'normal',
         score: 25,
         explanation: 'No active political risk markets found on Kalshi.',
         baselineComparison: 'Monitoring active',
-        confidence: 'low' as ConfidenceLevel,
-        sourceUrl: 'https://kalshi.com',
-        sourceName: 'Kalshi',
-        lastUpdated: new Date(),
+        confidence: 'low',
       };
     }
 
@@ -242,168 +242,145 @@ export async function fetchKalshiSignal(): Promise<Signal | null> {
     const volatilityRatio = volatileCount / Math.max(relevantMarkets.length, 1);
     const score = clamp(30 + volatilityRatio * 40 + highStakesCount * 3, 0, 100);
 
+    const evidence = relevantMarkets.map((market): EvidenceItem => {
+      const yesProb = (market.yes_bid || 0) / 100;
+      const volatile = yesProb > 0.3 && yesProb < 0.7;
+      const countries = findCountriesInText(market.title);
+      const regions = new Set(countries.map(c => c.region));
+      return {
+        title: market.title,
+        url: `https://kalshi.com/markets/${market.ticker.toLowerCase()}`,
+        timestamp: null,
+        ...(regions.size === 1 && { region: countries[0].region }),
+        ...(countries.length > 0 && { countries: countries.map(c => c.code) }),
+        ...(countries.length === 1 && { coordinates: countries[0].centroid }),
+        probability: yesProb,
+        magnitude: { value: market.volume || 0, label: 'volume' },
+        contribution: (volatile ? 40 / relevantMarkets.length : 0) + ((market.volume || 0) > 10000 ? 3 : 0),
+      };
+    });
+
     return {
-      id: 'kalshi-political-risk',
-      name: 'Kalshi Political Risk',
-      region: 'north-america' as Region,
-      status: scoreToStatus(score),
-      score: Math.round(score),
+      score,
+      evidence,
       explanation: `${relevantMarkets.length} political/economic markets. ${volatileCount} volatile (30-70% odds). ${
         keyEvents.length > 0
           ? `Key: ${keyEvents.slice(0, 2).join('; ')}`
           : 'Markets stable.'
       }`,
       baselineComparison: `${highStakesCount} high-volume events, ${volatileCount} uncertain outcomes`,
-      confidence: relevantMarkets.length >= 5 ? 'high' : 'medium' as ConfidenceLevel,
-      sourceUrl: 'https://kalshi.com',
-      sourceName: 'Kalshi',
-      lastUpdated: new Date(),
+      confidence: relevantMarkets.length >= 5 ? 'high' : 'medium',
+      metric: { value: volatilityRatio * 100, label: 'uncertain markets', unit: '%' },
     };
-  } catch (error) {
-    logSignalError({
-      signalId: 'kalshi-political-risk',
-      sourceName: 'Kalshi',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: 'network',
-    });
+  },
 
-    return {
-      id: 'kalshi-political-risk',
-      name: 'Kalshi Political Risk',
-      region: 'north-america' as Region,
+  fallback: {
+    mode: 'reading',
+    reading: () => ({
       status: 'normal',
       score: 25,
       explanation: 'Political risk monitoring active (API fallback).',
       baselineComparison: 'Fallback: API unavailable',
-      confidence: 'low' as ConfidenceLevel,
-      sourceUrl: 'https://kalshi.com',
+      confidence: 'low',
       sourceName: 'Kalshi (Fallback)',
-      lastUpdated: new Date(),
-    };
-  }
-}
+    }),
+  },
+};
 
 // ============================================
 // PHASE 2: Pentagon Pizza Index
 // ============================================
 interface PizzIntData {
-  alertLevel: string;
-  locations: number;
-  spikeDetected: boolean;
-  lastUpdate: string;
+  alertLevel?: string;
+  level?: string;
+  locations?: number;
+  spikeDetected?: boolean;
+  lastUpdate?: string;
 }
 
 /**
  * Pentagon Pizza Index Signal
  * Classic OSINT indicator - late-night activity at Pentagon area
- * Uses pizzint.watch data or Google Maps foot traffic as fallback
+ * Uses pizzint.watch data, with a time-of-day fallback
  */
-export async function fetchPentagonPizzaSignal(): Promise<Signal | null> {
-  try {
-    // Try pizzint.watch API first
-    const response = await fetch(
+export const pentagonPizzaSource: SignalSource<PizzIntData> = {
+  id: 'pentagon-pizza',
+  name: 'Pentagon Pizza Index',
+  category: 'osint',
+  defaultRegion: 'north-america',
+  refreshInterval: 600000,
+  sourceName: 'PizzINT',
+  sourceUrl: 'https://pizzint.watch',
+
+  fetch() {
+    return fetchSourceJson(
       'https://www.pizzint.watch/api/status',
       {
         next: { revalidate: 600 }, // 10 min cache
         headers: { 'Accept': 'application/json' }
-      }
+      },
+      'PizzINT'
     );
-
-    if (response.ok) {
-      const data = await response.json();
-
-      // Interpret alert levels
-      let score = 25;
-      let status: 'normal' | 'elevated' | 'high' = 'normal';
-
-      const alertLevel = (data.alertLevel || data.level || '').toLowerCase();
-
-      if (alertLevel.includes('critical') || alertLevel.includes('high') || alertLevel.includes('defcon 1')) {
-        score = 85;
-        status = 'high';
-      } else if (alertLevel.includes('elevated') || alertLevel.includes('warning') || alertLevel.includes('defcon 2')) {
-        score = 60;
-        status = 'elevated';
-      } else if (alertLevel.includes('guarded') || alertLevel.includes('defcon 3')) {
-        score = 45;
-        status = 'elevated';
-      }
-
-      return {
-        id: 'pentagon-pizza',
-        name: 'Pentagon Pizza Index',
-        region: 'north-america' as Region,
-        status,
-        score,
-        explanation: `Alert level: ${alertLevel || 'Normal'}. ${
-          data.spikeDetected
-            ? 'Late-night activity spike detected near Pentagon.'
-            : 'Normal activity patterns.'
-        }`,
-        baselineComparison: `Monitoring ${data.locations || 8} pizza locations`,
-        confidence: 'medium' as ConfidenceLevel,
-        sourceUrl: 'https://pizzint.watch',
-        sourceName: 'PizzINT',
-        lastUpdated: new Date(),
-      };
+  },
+
+  normalize(data) {
+    // Interpret alert levels
+    let score = 25;
+    let status: 'normal' | 'elevated' | 'high' = 'normal';
+
+    const alertLevel = (data.alertLevel || data.level || '').toLowerCase();
+
+    if (alertLevel.includes('critical') || alertLevel.includes('high') || alertLevel.includes('defcon 1')) {
+      score = 85;
+      status = 'high';
+    } else if (alertLevel.includes('elevated') || alertLevel.includes('warning') || alertLevel.includes('defcon 2')) {
+      score = 60;
+      status = 'elevated';
+    } else if (alertLevel.includes('guarded') || alertLevel.includes('defcon 3')) {
+      score = 45;
+      status = 'elevated';
     }
 
-    // Fallback: Check current time - late night in DC (10pm-4am ET) = slightly elevated baseline
-    const now = new Date();
-    const dcHour = new Date(now.toLocaleString('en-US', { timeZone: 'America/New_York' })).getHours();
-    const isLateNight = dcHour >= 22 || dcHour < 4;
-
     return {
-      id: 'pentagon-pizza',
-      name: 'Pentagon Pizza Index',
-      region: 'north-america' as Region,
-      status: isLateNight ? 'elevated' : 'normal',
-      score: isLateNight ? 40 : 22,
-      explanation: isLateNight
-        ? 'Late-night hours in DC (monitoring active). No spike data available.'
-        : 'Normal business hours. Pentagon area activity baseline.',
-      baselineComparison: `DC time: ${dcHour}:00 ET`,
-      confidence: 'low' as ConfidenceLevel,
-      sourceUrl: 'https://pizzint.watch',
-      sourceName: 'Pentagon Pizza (Fallback)',
-      lastUpdated: new Date(),
+      status,
+      score,
+      explanation: `Alert level: ${alertLevel || 'Normal'}. ${
+        data.spikeDetected
+          ? 'Late-night activity spike detected near Pentagon.'
+          : 'Normal activity patterns.'
+      }`,
+      baselineComparison: `Monitoring ${data.locations || 8} pizza locations`,
+      confidence: 'medium',
     };
-  } catch (error) {
-    logSignalError({
-      signalId: 'pentagon-pizza',
-      sourceName: 'PizzINT',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: 'network',
-    });
+  },
 
-    // Time-based fallback
-    const now = new Date();
-    const dcHour = new Date(now.toLocaleString('en-US', { timeZone: 'America/New_York' })).getHours();
-    const isLateNight = dcHour >= 22 || dcHour < 4;
+  // Time-based fallback: late night in DC (10pm-4am ET) = slightly elevated baseline
+  fallback: {
+    mode: 'reading',
+    reading: () => {
+      const now = new Date();
+      const dcHour = new Date(now.toLocaleString('en-US', { timeZone: 'America/New_York' })).getHours();
+      const isLateNight = dcHour >= 22 || dcHour < 4;
 
-    return {
-      id: 'pentagon-pizza',
-      name: 'Pentagon Pizza Index',
-      region: 'north-america' as Region,
-      status: 'normal',
-      score: isLateNight ? 35 : 20,
-      explanation: 'Classic OSINT indicator monitoring Pentagon area activity.',
-      baselineComparison: 'Fallback: Direct API unavailable',
-      confidence: 'low' as ConfidenceLevel,
-      sourceUrl: 'https://pizzint.watch',
-      sourceName: 'Pentagon Pizza (Fallback)',
-      lastUpdated: new Date(),
-    };
-  }
-}
+      return {
+        status: isLateNight ? 'elevated' : 'normal',
+        score: isLateNight ? 40 : 22,
+        explanation: isLateNight
+          ? 'Late-night hours in DC (monitoring active). No spike data available.'
+          : 'Normal business hours. Pentagon area activity baseline.',
+        baselineComparison: `DC time: ${dcHour}:00 ET`,
+        confidence: 'low',
+        sourceName: 'Pentagon Pizza (Fallback)',
+      };
+    },
+  },
+};
 
 // ============================================
-// Export all Phase 2 signals
+// Export all Phase 2 sources
 // ============================================
-export const phase2Signals = [
-  fetchPolymarketSignal,
-  fetchKalshiSignal,
-  fetchPentagonPizzaSignal,
-] as const;
+export const phase2Sources: SignalSource[] = [
+  polymarketSource,
+  kalshiSource,
+  pentagonPizzaSource,
+];
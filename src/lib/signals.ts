@@ -1,165 +1,182 @@
-import { Signal, SignalStatus, ConfidenceLevel, Region, GlobalRisk, TrendDirection } from '@/types';
-import { clamp } from './utils';
-import { logSignalError } from './logger';
+import {
+  Signal,
+  ConfidenceLevel,
+  Region,
+  GlobalRisk,
+  TrendDirection,
+  WeightingModel,
+  EvidenceItem,
+  CountryRisk,
+  CountryContribution,
+  REGION_LABELS,
+} from '@/types';
+import { clamp, isDegraded } from './utils';
+import {
+  SignalSource,
+  registerSource,
+  SourceRunContext,
+  getEnabledSources,
+  runSource,
+  scoreToStatus,
+  buildRegionalBreakdown,
+  hottestRegion,
+  MAX_EVIDENCE_ITEMS,
+  rankEvidence,
+} from './sources';
 import {
   CRISIS_KEYWORDS,
   isCrisisArticle,
-  CURRENCY_BASELINES,
-  detectRegionFromCoordinates,
 } from './config';
-import {
-  fetchVIXSignal,
-  fetchCreditSpreadSignal,
-  fetchOilPriceSignal,
-  fetchGoldPriceSignal,
-  fetchDollarIndexSignal,
-} from './signals-phase1';
-import {
-  fetchPolymarketSignal,
-  fetchKalshiSignal,
-  fetchPentagonPizzaSignal,
-} from './signals-phase2';
-
-// Helper to determine status from score
-function scoreToStatus(score: number): SignalStatus {
-  if (score < 35) return 'normal';
-  if (score < 65) return 'elevated';
-  return 'high';
-}
-
-// Map country codes to regions
-function countryToRegion(countryCode: string): Region {
-  const mapping: Record<string, Region> = {
-    // North America
-    'US': 'north-america', 'CA': 'north-america', 'MX': 'north-america',
-    // Europe
-    'GB': 'europe', 'DE': 'europe', 'FR': 'europe', 'IT': 'europe', 'ES': 'europe',
-    'PL': 'europe', 'UA': 'europe', 'RU': 'europe', 'NL': 'europe', 'BE': 'europe',
-    'CH': 'europe', 'AT': 'europe', 'SE': 'europe', 'NO': 'europe', 'FI': 'europe',
-    'DK': 'europe', 'PT': 'europe', 'GR': 'europe', 'CZ': 'europe', 'RO': 'europe',
-    // Asia-Pacific
-    'CN': 'asia-pacific', 'JP': 'asia-pacific', 'KR': 'asia-pacific', 'IN': 'asia-pacific',
-    'AU': 'asia-pacific', 'NZ': 'asia-pacific', 'ID': 'asia-pacific', 'TH': 'asia-pacific',
-    'VN': 'asia-pacific', 'PH': 'asia-pacific', 'MY': 'asia-pacific', 'SG': 'asia-pacific',
-    'TW': 'asia-pacific', 'PK': 'asia-pacific', 'BD': 'asia-pacific', 'MM': 'asia-pacific',
-    // Middle East
-    'SA': 'middle-east', 'AE': 'middle-east', 'IR': 'middle-east', 'IQ': 'middle-east',
-    'IL': 'middle-east', 'TR': 'middle-east', 'SY': 'middle-east', 'JO': 'middle-east',
-    'LB': 'middle-east', 'KW': 'middle-east', 'QA': 'middle-east', 'YE': 'middle-east',
-    // Africa
-    'EG': 'africa', 'ZA': 'africa', 'NG': 'africa', 'KE': 'africa', 'ET': 'africa',
-    'GH': 'africa', 'TZ': 'africa', 'MA': 'africa', 'DZ': 'africa', 'TN': 'africa',
-    'LY': 'africa', 'SD': 'africa', 'UG': 'africa', 'SN': 'africa', 'CI': 'africa',
-    // South America
-    'BR': 'south-america', 'AR': 'south-america', 'CO': 'south-america', 'CL': 'south-america',
-    'PE': 'south-america', 'VE': 'south-america', 'EC': 'south-america', 'BO': 'south-america',
-  };
-  return mapping[countryCode] || 'global';
-}
+import { BASELINE_WINDOW_DAYS, computeStats } from './baselines';
+import { getCountry, getCountryByName, findCountry, findGdeltCountry } from './countries';
+import { countryAt, regionAt } from './geo';
+import { SourceFetchError, fetchSourceJson, httpFetch } from './http';
+import { getWeightingModel, aggregateScores, liveCoverage } from './weighting';
+import { phase1Sources } from './signals-phase1';
+import { phase2Sources } from './signals-phase2';
 
 // ============================================
 // REAL API: Wikipedia Pageview Spikes
 // ============================================
-async function fetchWikipediaSignal(): Promise<Signal | null> {
-  try {
+interface WikipediaTopResponse {
+  items?: { articles: { article: string; views: number }[] }[];
+}
+
+const wikipediaSource: SignalSource<WikipediaTopResponse> = {
+  id: 'wikipedia-spikes',
+  name: 'Wikipedia Attention Spikes',
+  category: 'attention',
+  defaultRegion: 'global',
+  refreshInterval: 300000,
+  sourceName: 'Wikimedia API',
+  sourceUrl: 'https://wikimedia.org/api/rest_v1/',
+
+  fetch() {
     const yesterday = new Date();
     yesterday.setDate(yesterday.getDate() - 1);
     const dateStr = yesterday.toISOString().split('T')[0].replace(/-/g, '');
 
-    const response = await fetch(
+    return fetchSourceJson(
       `https://wikimedia.org/api/rest_v1/metrics/pageviews/top/en.wikipedia/all-access/${dateStr.slice(0, 4)}/${dateStr.slice(4, 6)}/${dateStr.slice(6, 8)}`,
-      { next: { revalidate: 300 } }
+      { next: { revalidate: 300 } },
+      'Wikipedia'
     );
+  },
 
-    if (!response.ok) throw new Error('Wikipedia API error');
-
-    const data = await response.json();
+  normalize(data) {
     const articles = data.items?.[0]?.articles || [];
 
     // BUG #4 FIX: Use stricter crisis keywords with validation
-    const crisisArticles = articles.slice(0, 100).filter((a: { article: string }) =>
+    const crisisArticles = articles.slice(0, 100).filter(a =>
       isCrisisArticle(a.article, CRISIS_KEYWORDS)
     );
 
     const score = clamp(crisisArticles.length * 12 + 15, 0, 100);
 
     return {
-      id: 'wikipedia-spikes',
-      name: 'Wikipedia Attention Spikes',
-      region: 'global' as Region,
-      status: scoreToStatus(score),
-      score: Math.round(score),
+      score,
       explanation: crisisArticles.length > 0
         ? `${crisisArticles.length} crisis-related article${crisisArticles.length > 1 ? 's' : ''} trending in top 100 Wikipedia pages.`
         : 'No significant crisis-related articles trending.',
-      baselineComparison: `${crisisArticles.length > 2 ? '+' : ''}${(crisisArticles.length * 15) - 10}% vs 30-day avg`,
-      confidence: 'medium' as ConfidenceLevel,
-      sourceUrl: 'https://wikimedia.org/api/rest_v1/',
-      sourceName: 'Wikimedia API',
-      lastUpdated: new Date(),
+      baselineComparison: `${crisisArticles.length} crisis articles`,
+      confidence: 'medium',
+      metric: { value: crisisArticles.length, label: 'crisis articles in top 100' },
     };
-  } catch (error) {
-    // BUG #7 FIX: Log error instead of silent failure
-    logSignalError({
-      signalId: 'wikipedia-spikes',
-      sourceName: 'Wikimedia API',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: error instanceof SyntaxError ? 'parsing' : 'network',
-    });
-    return null;
-  }
-}
+  },
+
+  fallback: { mode: 'omit' },
+};
 
 // ============================================
 // REAL API: Safe-Haven Currency Flows
 // ============================================
-async function fetchSafeHavenSignal(): Promise<Signal | null> {
-  try {
-    const response = await fetch(
-      'https://api.frankfurter.app/latest?from=USD&to=CHF,JPY,XAU',
-      { next: { revalidate: 300 } }
-    );
+interface FrankfurterLatestResponse {
+  date?: string; // ECB reference date (working days only)
+  rates?: Record<string, number>;
+}
+
+interface FrankfurterSeriesResponse {
+  rates?: Record<string, Record<string, number>>;
+}
 
-    if (!response.ok) throw new Error('Forex API error');
+interface SafeHavenRaw {
+  latest: FrankfurterLatestResponse;
+  series: FrankfurterSeriesResponse;
+}
+
+const safeHavenSource: SignalSource<SafeHavenRaw> = {
+  id: 'safe-haven-flows',
+  name: 'Safe-Haven Currency Flows',
+  category: 'markets',
+  defaultRegion: 'global',
+  refreshInterval: 300000,
+  maxDataAge: 4 * 24 * 60 * 60 * 1000, // ECB rates are not published at weekends
+  sourceName: 'Frankfurter API',
+  sourceUrl: 'https://www.frankfurter.app/',
+
+  async fetch() {
+    const start = new Date(Date.now() - BASELINE_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split('T')[0];
+
+    const [latest, series] = await Promise.all([
+      fetchSourceJson<FrankfurterLatestResponse>(
+        'https://api.frankfurter.app/latest?from=USD&to=CHF,JPY,XAU',
+        { next: { revalidate: 300 } },
+        'Forex'
+      ),
+      // Daily history is the currency baseline; without it there is nothing to compare against
+      fetchSourceJson<FrankfurterSeriesResponse>(
+        `https://api.frankfurter.app/${start}..?from=USD&to=CHF,JPY`,
+        { next: { revalidate: 3600 } },
+        'Forex history'
+      ),
+    ]);
+
+    return { latest, series };
+  },
+
+  normalize({ latest, series }) {
+    const daily = Object.values(series.rates || {});
+
+    // Rolling 30-day means from the baseline engine, computed per payload so
+    // replays (backtests) never leak into each other
+    const chfStats = computeStats(daily.map(r => r.CHF));
+    const jpyStats = computeStats(daily.map(r => r.JPY));
+    if (!chfStats || !jpyStats) {
+      throw new Error(`Forex history too short for a baseline (${daily.length} days)`);
+    }
+    const baseline = { CHF: chfStats.mean, JPY: jpyStats.mean };
 
-    const data = await response.json();
-    // BUG #3 FIX: Use configurable baselines instead of hardcoded values
-    const chfRate = data.rates?.CHF || CURRENCY_BASELINES.CHF;
-    const jpyRate = data.rates?.JPY || CURRENCY_BASELINES.JPY;
+    const chfRate = latest.rates?.CHF || baseline.CHF;
+    const jpyRate = latest.rates?.JPY || baseline.JPY;
 
     // Safe-haven currencies strengthening = higher risk environment
-    const chfDeviation = ((chfRate - CURRENCY_BASELINES.CHF) / CURRENCY_BASELINES.CHF) * 100;
-    const jpyDeviation = ((CURRENCY_BASELINES.JPY - jpyRate) / CURRENCY_BASELINES.JPY) * 100;
+    const flowFor = (chf: number, jpy: number) => {
+      const chfDeviation = ((chf - baseline.CHF) / baseline.CHF) * 100;
+      const jpyDeviation = ((baseline.JPY - jpy) / baseline.JPY) * 100;
+      return (chfDeviation + jpyDeviation) / 2;
+    };
 
-    const safeHavenFlow = (chfDeviation + jpyDeviation) / 2;
+    const safeHavenFlow = flowFor(chfRate, jpyRate);
     const score = clamp(45 + safeHavenFlow * 8, 0, 100);
 
     return {
-      id: 'safe-haven-flows',
-      name: 'Safe-Haven Currency Flows',
-      region: 'global' as Region,
-      status: scoreToStatus(score),
-      score: Math.round(score),
+      score,
       explanation: `CHF/USD at ${chfRate.toFixed(3)}, JPY/USD at ${jpyRate.toFixed(1)}. ${score > 55 ? 'Elevated' : 'Normal'} safe-haven flows.`,
-      baselineComparison: `${safeHavenFlow > 0 ? '+' : ''}${safeHavenFlow.toFixed(1)}% vs baseline (updated ${CURRENCY_BASELINES.lastUpdated.toLocaleDateString()})`,
-      confidence: 'high' as ConfidenceLevel,
-      sourceUrl: 'https://www.frankfurter.app/',
-      sourceName: 'Frankfurter API',
-      lastUpdated: new Date(),
+      baselineComparison: `${safeHavenFlow > 0 ? '+' : ''}${safeHavenFlow.toFixed(1)}% vs ${BASELINE_WINDOW_DAYS}-day mean`,
+      confidence: 'high',
+      metric: { value: safeHavenFlow, label: 'safe-haven flow', unit: '%' },
+      history: {
+        values: daily.filter(r => r.CHF && r.JPY).map(r => flowFor(r.CHF, r.JPY)),
+        windowDays: BASELINE_WINDOW_DAYS,
+      },
+      ...(latest.date && { observedAt: new Date(latest.date) }),
     };
-  } catch (error) {
-    // BUG #7 FIX: Log error instead of silent failure
-    logSignalError({
-      signalId: 'safe-haven-flows',
-      sourceName: 'Frankfurter API',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: 'network',
-    });
-    return null;
-  }
-}
+  },
+
+  fallback: { mode: 'omit' },
+};
 
 // ============================================
 // REAL API: USGS Earthquake Activity
@@ -171,69 +188,106 @@ interface USGSFeature {
     time: number;
     type: string;
     title: string;
+    url?: string;
   };
   geometry: {
     coordinates: [number, number, number];
   };
 }
 
-async function fetchEarthquakeSignal(): Promise<Signal | null> {
-  try {
+interface USGSResponse {
+  features?: USGSFeature[];
+}
+
+const earthquakeSource: SignalSource<USGSResponse> = {
+  id: 'seismic-activity',
+  name: 'Seismic Activity Monitor',
+  category: 'natural',
+  defaultRegion: 'global',
+  refreshInterval: 300000,
+  sourceName: 'USGS Earthquake Hazards',
+  sourceUrl: 'https://earthquake.usgs.gov/',
+
+  fetch() {
     // Fetch significant earthquakes from past 24 hours
-    const response = await fetch(
+    return fetchSourceJson(
       'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/2.5_day.geojson',
-      { next: { revalidate: 300 } }
+      { next: { revalidate: 300 } },
+      'USGS'
     );
+  },
 
-    if (!response.ok) throw new Error('USGS API error');
-
-    const data = await response.json();
-    const features: USGSFeature[] = data.features || [];
+  normalize(data) {
+    const features = data.features || [];
 
     // Count significant quakes (4.5+) and major quakes (6.0+)
     const significant = features.filter(f => f.properties.mag >= 4.5);
     const major = features.filter(f => f.properties.mag >= 6.0);
 
     // Find the largest quake
-    const largest = features.reduce((max, f) =>
-      f.properties.mag > max.properties.mag ? f : max,
-      features[0] || { properties: { mag: 0, place: 'N/A' } }
+    const largest = features.reduce<USGSFeature | undefined>((max, f) =>
+      !max || f.properties.mag > max.properties.mag ? f : max,
+      undefined
     );
 
-    // BUG #6 FIX: Use improved region detection function
-    const coords = largest?.geometry?.coordinates || [0, 0];
-    const lng = coords[0];
-    const lat = coords[1];
+    const score = clamp(major.length * 25 + significant.length * 5 + 10, 0, 100);
 
-    const region = detectRegionFromCoordinates(lat, lng) as Region;
+    const quakeRegion = (f: USGSFeature): Region | null => {
+      const [lng, lat] = f.geometry?.coordinates || [];
+      return lat === undefined || lng === undefined ? null : regionAt(lat, lng);
+    };
 
-    const score = clamp(major.length * 25 + significant.length * 5 + 10, 0, 100);
+    // Same formula per region, over the quakes located there
+    const regions = buildRegionalBreakdown(
+      features,
+      quakeRegion,
+      (quakes, region) => {
+        const regionalSignificant = quakes.filter(f => f.properties.mag >= 4.5).length;
+        const regionalMajor = quakes.filter(f => f.properties.mag >= 6.0).length;
+        const top = quakes.reduce<USGSFeature | undefined>((max, f) =>
+          !max || f.properties.mag > max.properties.mag ? f : max,
+          undefined
+        );
+        return {
+          score: regionalMajor * 25 + regionalSignificant * 5 + 10,
+          ...(top && { topItem: `M${top.properties.mag.toFixed(1)} ${top.properties.place}` }),
+          explanation: `${quakes.length} earthquakes M2.5+ in ${REGION_LABELS[region]} in 24h. ${regionalMajor} major (6.0+), ${regionalSignificant} significant (4.5+).`,
+        };
+      }
+    );
+
+    const evidence = features.map((f): EvidenceItem => {
+      const [lng, lat] = f.geometry?.coordinates || [];
+      const region = quakeRegion(f);
+      // Epicentre on land, else the country USGS names in "… of Town, Country"
+      const country = (lat !== undefined && lng !== undefined && countryAt(lat, lng))
+        || getCountryByName(f.properties.place?.split(', ').pop() ?? '');
+      return {
+        title: f.properties.title,
+        ...(f.properties.url && { url: f.properties.url }),
+        timestamp: f.properties.time ? new Date(f.properties.time) : null,
+        ...(region && { region }),
+        ...(country && { countries: [country.code] }),
+        ...(lat !== undefined && lng !== undefined && { coordinates: { lat, lng } }),
+        magnitude: { value: f.properties.mag, label: 'magnitude' },
+        contribution: (f.properties.mag >= 6.0 ? 25 : 0) + (f.properties.mag >= 4.5 ? 5 : 0),
+      };
+    });
 
     return {
-      id: 'seismic-activity',
-      name: 'Seismic Activity Monitor',
-      region,
-      status: scoreToStatus(score),
-      score: Math.round(score),
+      score,
+      region: hottestRegion(regions),
+      regions,
+      evidence,
       explanation: `${features.length} earthquakes M2.5+ in 24h. ${major.length} major (6.0+), ${significant.length} significant (4.5+). Largest: M${largest?.properties?.mag?.toFixed(1) || '0'} ${largest?.properties?.place || 'N/A'}.`,
-      baselineComparison: `${significant.length > 5 ? '+' : ''}${significant.length - 5} vs daily avg`,
-      confidence: 'high' as ConfidenceLevel,
-      sourceUrl: 'https://earthquake.usgs.gov/',
-      sourceName: 'USGS Earthquake Hazards',
-      lastUpdated: new Date(),
+      baselineComparison: `${significant.length} M4.5+ in 24h`,
+      confidence: 'high',
+      metric: { value: significant.length, label: 'M4.5+ earthquakes (24h)' },
     };
-  } catch (error) {
-    // BUG #7 FIX: Log error instead of silent failure
-    logSignalError({
-      signalId: 'seismic-activity',
-      sourceName: 'USGS Earthquake Hazards',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: 'network',
-    });
-    return null;
-  }
-}
+  },
+
+  fallback: { mode: 'omit' },
+};
 
 // ============================================
 // REAL API: NASA EONET Natural Events
@@ -241,85 +295,127 @@ async function fetchEarthquakeSignal(): Promise<Signal | null> {
 interface EONETEvent {
   id: string;
   title: string;
+  link?: string;
   categories: { id: string; title: string }[];
+  sources?: { id: string; url: string }[];
   geometry: { date: string; coordinates: [number, number] }[];
 }
 
-async function fetchNaturalEventsSignal(): Promise<Signal | null> {
-  try {
-    // Fetch recent natural events with timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000);
+// Score points per event, by EONET category
+const EONET_CATEGORY_POINTS: Record<string, number> = {
+  wildfires: 4,
+  severeStorms: 6,
+  volcanoes: 8,
+};
+
+interface EONETResponse {
+  events?: EONETEvent[];
+}
 
-    const response = await fetch(
+const naturalEventsSource: SignalSource<EONETResponse> = {
+  id: 'natural-events',
+  name: 'Natural Disaster Events',
+  category: 'natural',
+  defaultRegion: 'global',
+  refreshInterval: 600000,
+  sourceName: 'NASA EONET',
+  sourceUrl: 'https://eonet.gsfc.nasa.gov/',
+
+  fetch() {
+    // Fetch recent natural events; EONET can hang, so use a shorter timeout
+    return fetchSourceJson<EONETResponse>(
       'https://eonet.gsfc.nasa.gov/api/v3/events?days=7&limit=30',
-      {
-        next: { revalidate: 600 }, // Cache for 10 min
-        signal: controller.signal
-      }
+      { next: { revalidate: 600 } }, // Cache for 10 min
+      'EONET',
+      { timeoutMs: 8000 }
     );
+  },
 
-    clearTimeout(timeoutId);
-
-    if (!response.ok) throw new Error(`EONET API error: ${response.status}`);
-
-    const data = await response.json();
-    const events: EONETEvent[] = data.events || [];
+  normalize(data) {
+    const events = data.events || [];
 
     // Categorize events
     const wildfires = events.filter(e => e.categories.some(c => c.id === 'wildfires'));
     const storms = events.filter(e => e.categories.some(c => c.id === 'severeStorms'));
     const volcanoes = events.filter(e => e.categories.some(c => c.id === 'volcanoes'));
 
-    // Detect region from most recent event
-    let region: Region = 'global';
-    if (events.length > 0 && events[0].geometry?.[0]?.coordinates) {
-      const coords = events[0].geometry[0].coordinates;
-      const lng = coords[0];
-      const lat = coords[1];
-      region = detectRegionFromCoordinates(lat, lng) as Region;
-    }
+    const score = clamp(
+      wildfires.length * EONET_CATEGORY_POINTS.wildfires
+        + storms.length * EONET_CATEGORY_POINTS.severeStorms
+        + volcanoes.length * EONET_CATEGORY_POINTS.volcanoes
+        + 15,
+      0,
+      100
+    );
+
+    // Locate each event by its latest position and score regions separately
+    const latestPosition = (e: EONETEvent) => e.geometry?.[e.geometry.length - 1];
+    const eventRegion = (e: EONETEvent): Region | null => {
+      const coords = latestPosition(e)?.coordinates;
+      return coords ? regionAt(coords[1], coords[0]) : null;
+    };
+
+    const regions = buildRegionalBreakdown(
+      events,
+      eventRegion,
+      (regionalEvents, region) => {
+        const count = (id: string) => regionalEvents.filter(e => e.categories.some(c => c.id === id)).length;
+        const [regionalWildfires, regionalStorms, regionalVolcanoes] = [count('wildfires'), count('severeStorms'), count('volcanoes')];
+        const top = ['volcanoes', 'severeStorms', 'wildfires']
+          .map(id => regionalEvents.find(e => e.categories.some(c => c.id === id)))
+          .find(Boolean) ?? regionalEvents[0];
+        return {
+          score: regionalWildfires * EONET_CATEGORY_POINTS.wildfires
+            + regionalStorms * EONET_CATEGORY_POINTS.severeStorms
+            + regionalVolcanoes * EONET_CATEGORY_POINTS.volcanoes
+            + 15,
+          ...(top && { topItem: top.title }),
+          explanation: `${regionalEvents.length} active events in ${REGION_LABELS[region]}: ${regionalWildfires} wildfires, ${regionalStorms} storms, ${regionalVolcanoes} volcanic.`,
+        };
+      }
+    );
 
-    const score = clamp(wildfires.length * 4 + storms.length * 6 + volcanoes.length * 8 + 15, 0, 100);
+    const evidence = events.map((e): EvidenceItem => {
+      const position = latestPosition(e);
+      const region = eventRegion(e);
+      const url = e.sources?.[0]?.url ?? e.link;
+      const country = position?.coordinates && countryAt(position.coordinates[1], position.coordinates[0]);
+      return {
+        title: `${e.title} (${e.categories.map(c => c.title).join(', ')})`,
+        ...(url && { url }),
+        timestamp: position?.date ? new Date(position.date) : null,
+        ...(region && { region }),
+        ...(country && { countries: [country.code] }),
+        ...(position?.coordinates && { coordinates: { lat: position.coordinates[1], lng: position.coordinates[0] } }),
+        // Matches the score formula: an event in several categories counts in each
+        contribution: e.categories.reduce((sum, c) => sum + (EONET_CATEGORY_POINTS[c.id] ?? 0), 0),
+      };
+    });
 
     return {
-      id: 'natural-events',
-      name: 'Natural Disaster Events',
-      region,
-      status: scoreToStatus(score),
-      score: Math.round(score),
+      score,
+      region: hottestRegion(regions),
+      regions,
+      evidence,
       explanation: `${events.length} active events: ${wildfires.length} wildfires, ${storms.length} storms, ${volcanoes.length} volcanic.`,
-      baselineComparison: `${events.length > 20 ? '+' : ''}${events.length - 20} vs weekly avg`,
-      confidence: 'high' as ConfidenceLevel,
-      sourceUrl: 'https://eonet.gsfc.nasa.gov/',
-      sourceName: 'NASA EONET',
-      lastUpdated: new Date(),
+      baselineComparison: `${events.length} events in 7d`,
+      confidence: 'high',
+      metric: { value: events.length, label: 'active events (7d)' },
     };
-  } catch (error) {
-    logSignalError({
-      signalId: 'natural-events',
-      sourceName: 'NASA EONET',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: 'network',
-    });
+  },
 
-    // Return fallback signal
-    return {
-      id: 'natural-events',
-      name: 'Natural Disaster Events',
-      region: 'global' as Region,
+  fallback: {
+    mode: 'reading',
+    reading: () => ({
       status: 'normal',
       score: 25,
       explanation: 'Natural event monitoring active. No major disasters detected.',
       baselineComparison: 'Fallback: API timeout',
-      confidence: 'low' as ConfidenceLevel,
-      sourceUrl: 'https://eonet.gsfc.nasa.gov/',
+      confidence: 'low',
       sourceName: 'NASA EONET (Fallback)',
-      lastUpdated: new Date(),
-    };
-  }
-}
+    }),
+  },
+};
 
 // ============================================
 // REAL API: GDELT News Events
@@ -327,30 +423,78 @@ async function fetchNaturalEventsSignal(): Promise<Signal | null> {
 interface GDELTArticle {
   title: string;
   url: string;
-  sourcecountry: string;
+  sourcecountry: string; // country name ("United States") or FIPS code ("US")
   seendate: string;
   tone: number;
 }
 
-async function fetchGdeltSignal(): Promise<Signal | null> {
-  try {
+// Point from the GEO API: a place mentioned in matching coverage
+interface GDELTGeoFeature {
+  properties: { name: string; count: number; html?: string };
+  geometry: { coordinates: [number, number] };
+}
+
+interface GDELTResponse {
+  articles?: GDELTArticle[];
+  // Merged in from the GEO API; missing when that lookup fails
+  locations?: GDELTGeoFeature[];
+}
+
+// Geolocated points kept as evidence, next to the top articles
+const GDELT_MAX_LOCATIONS = 10;
+
+// GDELT dates look like 20240115T143000Z
+function parseGdeltDate(value: string | undefined): Date | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match;
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`);
+}
+
+const gdeltSource: SignalSource<GDELTResponse> = {
+  id: 'gdelt-news',
+  name: 'Global News Sentiment',
+  category: 'geopolitics',
+  defaultRegion: 'global',
+  refreshInterval: 300000,
+  sourceName: 'GDELT Project',
+  sourceUrl: 'https://www.gdeltproject.org/',
+
+  async fetch() {
     // GDELT GKG (Global Knowledge Graph) API - more reliable than DOC API
     // Query for recent conflict-related news using simpler query format
-    const response = await fetch(
+    const response = await httpFetch(
       `https://api.gdeltproject.org/api/v2/doc/doc?query=conflict&mode=artlist&maxrecords=25&format=json&timespan=1h`,
-      { next: { revalidate: 300 } }
+      { next: { revalidate: 300 } },
+      'GDELT'
     );
 
-    if (!response.ok) throw new Error(`GDELT API error: ${response.status}`);
-
     // Check if response is actually JSON
     const text = await response.text();
     if (text.startsWith('Queries') || text.startsWith('Error') || text.startsWith('<')) {
-      throw new Error('GDELT returned error text instead of JSON');
+      throw new SourceFetchError('GDELT returned error text instead of JSON', 'parsing');
+    }
+
+    const data: GDELTResponse = JSON.parse(text);
+
+    // Locations are best-effort: the tone score doesn't depend on them
+    try {
+      const geo = await fetchSourceJson<{ features?: GDELTGeoFeature[] }>(
+        'https://api.gdeltproject.org/api/v2/geo/geo?query=conflict&format=GeoJSON&timespan=60',
+        { next: { revalidate: 300 } },
+        'GDELT GEO',
+        { retries: 0 }
+      );
+      data.locations = geo.features || [];
+    } catch (error) {
+      console.warn('GDELT GEO lookup failed:', error instanceof Error ? error.message : error);
     }
 
-    const data = JSON.parse(text);
-    const articles: GDELTArticle[] = data.articles || [];
+    return data;
+  },
+
+  normalize(data) {
+    const articles = data.articles || [];
 
     // BUG #2 FIX: Always initialize avgTone with proper null handling
     let avgTone = 0;
@@ -363,60 +507,86 @@ async function fetchGdeltSignal(): Promise<Signal | null> {
       confidence = articles.length >= 10 ? 'high' : articles.length >= 5 ? 'medium' : 'low';
     }
 
-    // Count by region
-    const regionCounts: Record<string, number> = {};
-    articles.forEach(a => {
-      const region = countryToRegion(a.sourcecountry || '');
-      regionCounts[region] = (regionCounts[region] || 0) + 1;
-    });
-
-    const topRegion = Object.entries(regionCounts)
-      .sort((a, b) => b[1] - a[1])[0]?.[0] as Region || 'global';
-
     // BUG #2 FIX: Use baseline score when no articles found
     const baselineScore = articles.length === 0 ? 40 : 50;
     const score = clamp(baselineScore + (avgTone * -5) + (articles.length / 5), 0, 100);
 
+    // Tone per region, by the publishing outlet's country
+    const regions = buildRegionalBreakdown(
+      articles,
+      a => findGdeltCountry(a.sourcecountry || '')?.region ?? 'global',
+      (regionalArticles, region) => {
+        const regionalTone = regionalArticles.reduce((sum, a) => sum + (a.tone ?? 0), 0) / regionalArticles.length;
+        const mostNegative = regionalArticles.reduce((min, a) => (a.tone ?? 0) < (min.tone ?? 0) ? a : min);
+        return {
+          score: 50 + regionalTone * -5 + regionalArticles.length / 5,
+          topItem: mostNegative.title,
+          explanation: `${regionalArticles.length} crisis-related articles from ${REGION_LABELS[region]}. Average tone: ${regionalTone.toFixed(2)}.`,
+        };
+      }
+    );
+
+    // Each article moves the average tone by tone/n and adds 1/5 point for volume
+    const evidence = articles.map((a): EvidenceItem => {
+      const country = findGdeltCountry(a.sourcecountry || '');
+      return {
+        title: a.title,
+        url: a.url,
+        timestamp: parseGdeltDate(a.seendate),
+        ...(country && { region: country.region, countries: [country.code] }),
+        magnitude: { value: a.tone ?? 0, label: 'tone' },
+        contribution: ((a.tone ?? 0) * -5) / articles.length + 1 / 5,
+      };
+    });
+
+    // Places in the coverage don't change the score, so they add no points
+    const locations = [...(data.locations || [])]
+      .filter(f => f.geometry?.coordinates)
+      .sort((a, b) => (b.properties.count || 0) - (a.properties.count || 0))
+      .slice(0, GDELT_MAX_LOCATIONS)
+      .map((f): EvidenceItem => {
+        const [lng, lat] = f.geometry.coordinates;
+        const region = regionAt(lat, lng);
+        const url = f.properties.html?.match(/href="([^"]+)"/)?.[1];
+        const country = countryAt(lat, lng);
+        return {
+          title: f.properties.name,
+          ...(url && { url }),
+          timestamp: null,
+          ...(region !== 'global' && { region }),
+          ...(country && { countries: [country.code] }),
+          coordinates: { lat, lng },
+          magnitude: { value: f.properties.count || 0, label: 'articles' },
+          contribution: 0,
+        };
+      });
+
     return {
-      id: 'gdelt-news',
-      name: 'Global News Sentiment',
-      region: topRegion,
-      status: scoreToStatus(score),
-      score: Math.round(score),
+      score,
+      region: hottestRegion(regions),
+      regions,
+      evidence: [...rankEvidence(evidence, MAX_EVIDENCE_ITEMS - locations.length), ...locations],
       explanation: articles.length === 0
         ? 'No recent crisis-related articles detected in GDELT.'
         : `${articles.length} crisis-related articles in 24h. Average tone: ${avgTone.toFixed(2)} (negative = concerning).`,
       baselineComparison: `${articles.length === 0 ? 'No data' : avgTone < -2 ? 'Negative' : avgTone > 2 ? 'Positive' : 'Neutral'} sentiment`,
       confidence,
-      sourceUrl: 'https://www.gdeltproject.org/',
-      sourceName: 'GDELT Project',
-      lastUpdated: new Date(),
+      ...(articles.length > 0 && { metric: { value: avgTone, label: 'average tone', riskDirection: 'down' as const } }),
     };
-  } catch (error) {
-    logSignalError({
-      signalId: 'gdelt-news',
-      sourceName: 'GDELT Project',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: error instanceof SyntaxError ? 'parsing' : 'network',
-    });
+  },
 
-    // Return fallback signal
-    return {
-      id: 'gdelt-news',
-      name: 'Global News Sentiment',
-      region: 'global' as Region,
+  fallback: {
+    mode: 'reading',
+    reading: () => ({
       status: 'normal',
       score: 35,
       explanation: 'Global news monitoring active. Sentiment analysis unavailable.',
       baselineComparison: 'Fallback: API unavailable',
-      confidence: 'low' as ConfidenceLevel,
-      sourceUrl: 'https://www.gdeltproject.org/',
+      confidence: 'low',
       sourceName: 'GDELT (Fallback)',
-      lastUpdated: new Date(),
-    };
-  }
-}
+    }),
+  },
+};
 
 // ============================================
 // REAL API: IODA Internet Outages
@@ -430,216 +600,255 @@ interface IODAOutage {
   until: number;
 }
 
-async function fetchInternetOutageSignal(): Promise<Signal | null> {
-  try {
+interface RadarAlert {
+  severity?: string;
+  description?: string;
+  location?: string; // ISO-2, when the alert is scoped to a country
+  startDate?: string;
+}
+
+interface RadarAlertsResponse {
+  alerts?: RadarAlert[];
+  result?: { alerts?: RadarAlert[] };
+}
+
+const internetOutageSource: SignalSource<RadarAlertsResponse> = {
+  id: 'internet-outages',
+  name: 'Internet Connectivity Status',
+  category: 'infrastructure',
+  defaultRegion: 'global',
+  refreshInterval: 300000,
+  sourceName: 'Cloudflare Radar',
+  sourceUrl: 'https://radar.cloudflare.com/',
+
+  fetch() {
     // IODA has moved to a new API - use Cloudflare Radar as a reliable alternative
     // Cloudflare Radar provides global internet outage data
-    const response = await fetch(
+    return fetchSourceJson(
       'https://radar.cloudflare.com/api/v1/alerts?limit=20',
-      { next: { revalidate: 300 } }
+      { next: { revalidate: 300 } },
+      'Cloudflare Radar'
     );
+  },
 
-    // If Cloudflare fails, provide a fallback signal based on general status
-    if (!response.ok) {
-      // Return a baseline "normal" signal when API is unavailable
-      return {
-        id: 'internet-outages',
-        name: 'Internet Connectivity Status',
-        region: 'global' as Region,
-        status: 'normal',
-        score: 25,
-        explanation: 'Internet connectivity monitoring active. No major disruptions detected.',
-        baselineComparison: 'Status: Monitoring (API fallback mode)',
-        confidence: 'low' as ConfidenceLevel,
-        sourceUrl: 'https://radar.cloudflare.com/',
-        sourceName: 'Cloudflare Radar (Fallback)',
-        lastUpdated: new Date(),
-      };
-    }
-
-    const data = await response.json();
+  normalize(data) {
     const alerts = data.alerts || data.result?.alerts || [];
 
     // Count severity of alerts
-    const criticalAlerts = alerts.filter((a: { severity?: string }) =>
+    const criticalAlerts = alerts.filter(a =>
       a.severity === 'critical' || a.severity === 'high'
     ).length;
-    const warningAlerts = alerts.filter((a: { severity?: string }) =>
+    const warningAlerts = alerts.filter(a =>
       a.severity === 'warning' || a.severity === 'medium'
     ).length;
 
     const totalAlerts = alerts.length;
     const score = clamp(criticalAlerts * 20 + warningAlerts * 8 + totalAlerts * 2 + 15, 0, 100);
 
+    const evidence = alerts.map((a): EvidenceItem => {
+      const country = a.location ? findCountry(a.location) : undefined;
+      const severityPoints = a.severity === 'critical' || a.severity === 'high' ? 20
+        : a.severity === 'warning' || a.severity === 'medium' ? 8
+        : 0;
+      return {
+        title: a.description || `${a.severity ?? 'Unrated'} connectivity alert${country ? ` in ${country.name}` : ''}`,
+        timestamp: a.startDate ? new Date(a.startDate) : null,
+        ...(country && { region: country.region, countries: [country.code], coordinates: country.centroid }),
+        contribution: severityPoints + 2,
+      };
+    });
+
     return {
-      id: 'internet-outages',
-      name: 'Internet Connectivity Status',
-      region: 'global' as Region,
-      status: scoreToStatus(score),
-      score: Math.round(score),
+      score,
+      evidence,
       explanation: `${totalAlerts} connectivity alerts globally. ${criticalAlerts} critical, ${warningAlerts} warnings.`,
-      baselineComparison: `${totalAlerts > 5 ? 'Above' : 'At'} normal alert levels`,
-      confidence: totalAlerts > 0 ? 'medium' : 'low' as ConfidenceLevel,
-      sourceUrl: 'https://radar.cloudflare.com/',
-      sourceName: 'Cloudflare Radar',
-      lastUpdated: new Date(),
+      baselineComparison: `${totalAlerts} active alerts`,
+      confidence: totalAlerts > 0 ? 'medium' : 'low',
+      metric: { value: totalAlerts, label: 'connectivity alerts' },
     };
-  } catch (error) {
-    // Provide fallback signal on error
-    logSignalError({
-      signalId: 'internet-outages',
-      sourceName: 'Cloudflare Radar',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: 'network',
-    });
+  },
 
-    // Return a minimal signal instead of null
-    return {
-      id: 'internet-outages',
-      name: 'Internet Connectivity Status',
-      region: 'global' as Region,
+  // Provide a minimal signal instead of dropping it
+  fallback: {
+    mode: 'reading',
+    reading: () => ({
       status: 'normal',
       score: 25,
       explanation: 'Internet connectivity appears stable (monitoring limited).',
       baselineComparison: 'Fallback: API unavailable',
-      confidence: 'low' as ConfidenceLevel,
-      sourceUrl: 'https://radar.cloudflare.com/',
+      confidence: 'low',
       sourceName: 'Internet Status (Fallback)',
-      lastUpdated: new Date(),
-    };
-  }
-}
+    }),
+  },
+};
 
 // ============================================
 // REAL API: OpenSky Flight Anomalies
 // ============================================
-async function fetchFlightSignal(): Promise<Signal | null> {
-  try {
+type OpenSkyState = (string | number | boolean | null)[];
+
+interface OpenSkyResponse {
+  states?: OpenSkyState[] | null;
+}
+
+const flightSource: SignalSource<OpenSkyResponse> = {
+  id: 'flight-anomalies',
+  name: 'Aviation Traffic Patterns',
+  category: 'infrastructure',
+  defaultRegion: 'global',
+  refreshInterval: 900000,
+  sourceName: 'OpenSky Network',
+  sourceUrl: 'https://opensky-network.org/',
+
+  fetch() {
     // OpenSky has aggressive rate limits - try with longer cache
-    const response = await fetch(
+    return fetchSourceJson(
       'https://opensky-network.org/api/states/all',
-      { next: { revalidate: 900 } } // Cache for 15 min due to rate limits
+      { next: { revalidate: 900 } }, // Cache for 15 min due to rate limits
+      'OpenSky'
     );
+  },
 
-    // Handle rate limiting gracefully
-    if (response.status === 429) {
-      return {
-        id: 'flight-anomalies',
-        name: 'Aviation Traffic Patterns',
-        region: 'global' as Region,
-        status: 'normal',
-        score: 22,
-        explanation: 'Global aviation traffic normal. API rate limited - data cached.',
-        baselineComparison: 'Status: Normal (rate limit active)',
-        confidence: 'low' as ConfidenceLevel,
-        sourceUrl: 'https://opensky-network.org/',
-        sourceName: 'OpenSky Network (Rate Limited)',
-        lastUpdated: new Date(),
-      };
-    }
-
-    if (!response.ok) throw new Error(`OpenSky API error: ${response.status}`);
-
-    const data = await response.json();
+  normalize(data) {
     const states = data.states || [];
 
     // Count flights with emergency squawks (7500, 7600, 7700)
-    const emergencySquawks = states.filter((s: (string | number | null)[]) => {
+    const isEmergency = (s: OpenSkyState) => {
       const squawk = s[14] as string;
       return squawk === '7500' || squawk === '7600' || squawk === '7700';
-    });
+    };
 
     // Count unusual altitude/velocity combinations
-    const anomalous = states.filter((s: (string | number | boolean | null)[]) => {
+    const isAnomalous = (s: OpenSkyState) => {
       const altitude = s[7] as number;
       const velocity = s[9] as number;
       const onGround = Boolean(s[8]);
-      return !onGround && altitude && velocity && velocity < 10 && altitude < 500;
-    });
+      return Boolean(!onGround && altitude && velocity && velocity < 10 && altitude < 500);
+    };
 
-    // Detect region from flight data
-    let topRegion: Region = 'global';
-    const regionCounts: Record<string, number> = {};
-    states.slice(0, 1000).forEach((s: (string | number | null)[]) => {
-      const lng = s[5] as number;
-      const lat = s[6] as number;
-      if (lng && lat) {
-        const region = detectRegionFromCoordinates(lat, lng);
-        regionCounts[region] = (regionCounts[region] || 0) + 1;
-      }
-    });
-    topRegion = Object.entries(regionCounts)
-      .sort((a, b) => b[1] - a[1])[0]?.[0] as Region || 'global';
+    const emergencySquawks = states.filter(isEmergency);
+    const anomalous = states.filter(isAnomalous);
 
     const totalFlights = states.length;
     const anomalies = emergencySquawks.length + anomalous.length;
 
     const score = clamp(anomalies * 15 + 20, 0, 100);
 
-    return {
-      id: 'flight-anomalies',
-      name: 'Aviation Traffic Patterns',
-      region: topRegion,
-      status: scoreToStatus(score),
-      score: Math.round(score),
-      explanation: `${totalFlights.toLocaleString()} flights tracked. ${emergencySquawks.length} emergency squawks, ${anomalous.length} anomalies.`,
-      baselineComparison: `${anomalies > 2 ? 'Above' : 'At'} normal levels`,
-      confidence: 'medium' as ConfidenceLevel,
-      sourceUrl: 'https://opensky-network.org/',
-      sourceName: 'OpenSky Network',
-      lastUpdated: new Date(),
+    // Anomalies per region, by each aircraft's current position
+    const flightRegion = (s: OpenSkyState): Region | null => {
+      const lng = s[5] as number;
+      const lat = s[6] as number;
+      return lng && lat ? regionAt(lat, lng) : null;
     };
-  } catch (error) {
-    logSignalError({
-      signalId: 'flight-anomalies',
-      sourceName: 'OpenSky Network',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date(),
-      errorType: 'network',
-    });
 
-    // Return fallback instead of null
+    const regions = buildRegionalBreakdown(
+      states,
+      flightRegion,
+      (flights, region) => {
+        const emergencies = flights.filter(isEmergency);
+        const regionalAnomalies = emergencies.length + flights.filter(isAnomalous).length;
+        const callsign = emergencies[0] ? String(emergencies[0][1] ?? '').trim() : '';
+        return {
+          score: regionalAnomalies * 15 + 20,
+          ...(emergencies[0] && { topItem: `${callsign || 'Unknown flight'} squawking ${emergencies[0][14]}` }),
+          explanation: `${flights.length.toLocaleString()} flights over ${REGION_LABELS[region]}. ${emergencies.length} emergency squawks, ${regionalAnomalies - emergencies.length} anomalies.`,
+        };
+      }
+    );
+
+    // Every flagged flight adds 15 points (twice if it is both)
+    const evidence = states
+      .filter(s => isEmergency(s) || isAnomalous(s))
+      .map((s): EvidenceItem => {
+        const callsign = String(s[1] ?? '').trim() || String(s[0]);
+        const lng = s[5] as number;
+        const lat = s[6] as number;
+        const region = flightRegion(s);
+        const country = lng && lat ? countryAt(lat, lng) : undefined;
+        const reasons = [
+          ...(isEmergency(s) ? [`squawking ${s[14]}`] : []),
+          ...(isAnomalous(s) ? ['low and slow while airborne'] : []),
+        ];
+        return {
+          title: `${callsign} ${reasons.join(', ')}`,
+          url: `https://opensky-network.org/aircraft-profile?icao24=${s[0]}`,
+          timestamp: typeof s[4] === 'number' ? new Date(s[4] * 1000) : null,
+          ...(region && { region }),
+          ...(country && { countries: [country.code] }),
+          ...(lng && lat && { coordinates: { lat, lng } }),
+          contribution: reasons.length * 15,
+        };
+      });
+
     return {
-      id: 'flight-anomalies',
-      name: 'Aviation Traffic Patterns',
-      region: 'global' as Region,
-      status: 'normal',
-      score: 22,
-      explanation: 'Aviation traffic monitoring active. No anomalies detected.',
-      baselineComparison: 'Fallback: API unavailable',
-      confidence: 'low' as ConfidenceLevel,
-      sourceUrl: 'https://opensky-network.org/',
-      sourceName: 'OpenSky (Fallback)',
-      lastUpdated: new Date(),
+      score,
+      region: hottestRegion(regions),
+      regions,
+      evidence,
+      explanation: `${totalFlights.toLocaleString()} flights tracked. ${emergencySquawks.length} emergency squawks, ${anomalous.length} anomalies.`,
+      baselineComparison: `${anomalies} anomalies`,
+      confidence: 'medium',
+      metric: { value: anomalies, label: 'flight anomalies' },
     };
-  }
-}
+  },
+
+  fallback: {
+    mode: 'reading',
+    reading: (error) => {
+      // Handle rate limiting gracefully
+      if (error instanceof SourceFetchError && error.status === 429) {
+        return {
+          status: 'normal',
+          score: 22,
+          explanation: 'Global aviation traffic normal. API rate limited - data cached.',
+          baselineComparison: 'Status: Normal (rate limit active)',
+          confidence: 'low',
+          sourceName: 'OpenSky Network (Rate Limited)',
+        };
+      }
+
+      return {
+        status: 'normal',
+        score: 22,
+        explanation: 'Aviation traffic monitoring active. No anomalies detected.',
+        baselineComparison: 'Fallback: API unavailable',
+        confidence: 'low',
+        sourceName: 'OpenSky (Fallback)',
+      };
+    },
+  },
+};
+
+// ============================================
+// Built-in sources
+// ============================================
+export const coreSources: SignalSource[] = [
+  wikipediaSource,
+  safeHavenSource,
+  earthquakeSource,
+  naturalEventsSource,
+  gdeltSource,
+  internetOutageSource,
+  flightSource,
+];
+
+// Register built-in sources. Additional sources only need registerSource();
+// SOURCE_SETTINGS in config.ts controls which ones run.
+[
+  ...coreSources,
+  // Phase 1: Market & financial signals (Yahoo Finance - free, reliable)
+  ...phase1Sources,
+  // Phase 2: Prediction markets & OSINT signals
+  ...phase2Sources,
+].forEach(registerSource);
 
 // ============================================
 // AGGREGATE: Fetch All Signals
 // ============================================
-export async function fetchAllSignals(): Promise<Signal[]> {
-  const results = await Promise.allSettled([
-    // Core signals (existing)
-    fetchWikipediaSignal(),
-    fetchSafeHavenSignal(),
-    fetchEarthquakeSignal(),
-    fetchNaturalEventsSignal(),
-    fetchGdeltSignal(),
-    fetchInternetOutageSignal(),
-    fetchFlightSignal(),
-    // Phase 1: Market & financial signals (Yahoo Finance - free, reliable)
-    fetchVIXSignal(),
-    fetchCreditSpreadSignal(),
-    fetchOilPriceSignal(),
-    fetchGoldPriceSignal(),
-    fetchDollarIndexSignal(),
-    // Phase 2: Prediction markets & OSINT signals
-    fetchPolymarketSignal(),
-    fetchKalshiSignal(),
-    fetchPentagonPizzaSignal(),
-  ]);
+export async function fetchAllSignals(context: SourceRunContext = {}): Promise<Signal[]> {
+  const results = await Promise.allSettled(
+    getEnabledSources().map(source => runSource(source, context))
+  );
 
   const signals: Signal[] = results
     .filter((r): r is PromiseFulfilledResult<Signal | null> => r.status === 'fulfilled')
@@ -651,28 +860,27 @@ export async function fetchAllSignals(): Promise<Signal[]> {
 
 // ============================================
 // Calculate Global Risk Score
+// Weighting and aggregation come from the active WeightingModel preset
 // ============================================
-export function calculateGlobalRisk(signals: Signal[], previousScore?: number): GlobalRisk {
+export function calculateGlobalRisk(
+  signals: Signal[],
+  previousScore?: number,
+  model: WeightingModel = getWeightingModel()
+): GlobalRisk {
+  const weighting = { id: model.id, label: model.label, method: model.method };
+
   if (signals.length === 0) {
     return {
       score: 0,
       trend: 'stable',
       lastUpdated: new Date(),
       signalCount: 0,
+      weighting,
+      liveCoverage: 0,
     };
   }
 
-  // Weight by confidence
-  let totalWeight = 0;
-  let weightedSum = 0;
-
-  for (const signal of signals) {
-    const weight = signal.confidence === 'high' ? 2 : signal.confidence === 'medium' ? 1.5 : 1;
-    totalWeight += weight;
-    weightedSum += signal.score * weight;
-  }
-
-  const score = Math.round(weightedSum / totalWeight);
+  const score = aggregateScores(signals, model);
 
   let trend: TrendDirection = 'stable';
   if (previousScore !== undefined) {
@@ -685,24 +893,124 @@ export function calculateGlobalRisk(signals: Signal[], previousScore?: number):
     trend,
     lastUpdated: new Date(),
     signalCount: signals.length,
+    weighting,
+    liveCoverage: liveCoverage(signals, model),
   };
 }
 
 // ============================================
 // Filter Signals by Region
 // ============================================
+/**
+ * Signals located in the region plus global ones; multi-location signals
+ * are included only when they have located items (a component) in the
+ * region, and are scored by it
+ */
 export function filterSignalsByRegion(signals: Signal[], region: Region): Signal[] {
   if (region === 'global') return signals;
-  return signals.filter(s => s.region === region || s.region === 'global');
+  return signals
+    .filter(s => s.regions ? s.regions[region] !== undefined : s.region === region || s.region === 'global')
+    .map(s => toRegionalSignal(s, region));
+}
+
+/**
+ * A multi-location signal seen from one region: its regional component
+ * replaces the worldwide score and explanation. Other signals pass through.
+ */
+export function toRegionalSignal(signal: Signal, region: Region): Signal {
+  const component = region !== 'global' ? signal.regions?.[region] : undefined;
+  if (!component) return signal;
+
+  const located = Object.values(signal.regions ?? {}).reduce((sum, c) => sum + c.count, 0);
+
+  // The worldwide metric and baseline don't describe the regional slice
+  return {
+    ...signal,
+    metric: undefined,
+    baseline: undefined,
+    region,
+    score: component.score,
+    status: scoreToStatus(component.score),
+    scoringMode: 'formula',
+    explanation: component.topItem ? `${component.explanation} Top: ${component.topItem}.` : component.explanation,
+    ...(signal.evidence && { evidence: signal.evidence.filter(item => item.region === region) }),
+    baselineComparison: `${component.count} of ${located} located worldwide`,
+  };
 }
 
 // ============================================
 // Calculate Regional Risk Score
 // ============================================
-export function calculateRegionalRisk(signals: Signal[], region: Region): number {
-  const filtered = filterSignalsByRegion(signals, region);
-  if (filtered.length === 0) return 0;
+/**
+ * The region's signals aggregated like the global index (so synthetic
+ * placeholders carry no weight), using regional components where signals have them
+ */
+export function calculateRegionalRisk(
+  signals: Signal[],
+  region: Region,
+  model: WeightingModel = getWeightingModel()
+): number {
+  return aggregateScores(filterSignalsByRegion(signals, region), model);
+}
+
+// ============================================
+// Calculate Country Risk
+// ============================================
+/**
+ * Per-country index from evidence with country attribution. Each item adds
+ * the points it contributes to its signal (split evenly when it names several
+ * countries); a country's score is the sum, clamped to 0-100. Degraded
+ * signals are left out.
+ */
+export function calculateCountryRisk(signals: Signal[]): CountryRisk[] {
+  const byCountry = new Map<string, Map<string, CountryContribution>>();
+
+  for (const signal of signals) {
+    if (isDegraded(signal)) continue;
+
+    for (const item of signal.evidence ?? []) {
+      const countries = item.countries ?? [];
+      for (const code of countries) {
+        const contributions = byCountry.get(code) ?? new Map<string, CountryContribution>();
+        const entry = contributions.get(signal.id) ?? { signalId: signal.id, signalName: signal.name, points: 0, items: 0 };
+        entry.points += item.contribution / countries.length;
+        entry.items += 1;
+        contributions.set(signal.id, entry);
+        byCountry.set(code, contributions);
+      }
+    }
+  }
+
+  return [...byCountry.entries()]
+    .flatMap(([code, contributions]) => {
+      const country = getCountry(code);
+      if (!country) return [];
+      const list = [...contributions.values()]
+        .map(c => ({ ...c, points: Math.round(c.points * 10) / 10 }))
+        .sort((a, b) => b.points - a.points);
+      const score = Math.round(clamp(list.reduce((sum, c) => sum + c.points, 0), 0, 100));
+      return [{
+        code,
+        name: country.name,
+        region: country.region,
+        score,
+        status: scoreToStatus(score),
+        contributions: list,
+      }];
+    })
+    .sort((a, b) => b.score - a.score);
+}
 
-  const sum = filtered.reduce((acc, s) => acc + s.score, 0);
-  return Math.round(sum / filtered.length);
+/**
+ * Country index from stored scores (history keeps scores, not evidence),
+ * so contributions are empty
+ */
+export function countryRiskFromScores(scores: Record<string, number>): CountryRisk[] {
+  return Object.entries(scores)
+    .flatMap(([code, score]) => {
+      const country = getCountry(code);
+      if (!country) return [];
+      return [{ code, name: country.name, region: country.region, score, status: scoreToStatus(score), contributions: [] }];
+    })
+    .sort((a, b) => b.score - a.score);
 }
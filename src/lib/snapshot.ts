@@ -0,0 +1,231 @@
+/**
+ * Server-side signal snapshot cache
+ * Runs the fetchAllSignals pipeline once per TTL for all clients,
+ * so browsers never talk to the upstream APIs directly. Single-source
+ * refreshes from the live scheduler are merged in as they complete.
+ * Snapshots are appended to the history store and checked against the
+ * alert rules at most once per TTL. startBackgroundRefresh keeps that cycle
+ * going on the server while no client is asking for snapshots.
+ */
+
+import { Signal, SignalSnapshot, SignalUpdate } from '@/types';
+import { fetchAllSignals, calculateGlobalRisk } from './signals';
+import { getHistoryStore, getSnapshotAt, toHistorySnapshot, createBaselineProvider } from './history';
+import { processAlerts } from './alerts';
+import { getOpenCircuits, SourceRunContext } from './sources';
+import { getHealthTracker } from './source-health';
+import { getRawArchive } from './raw-archive';
+import { getSourceMetrics } from './metrics';
+import { installFixtureTransport } from './fixtures';
+
+export const SNAPSHOT_TTL = 60000; // 60 seconds
+const COMPACT_INTERVAL = 60 * 60 * 1000; // apply retention hourly
+
+type SnapshotListener = (update: SignalUpdate) => void;
+
+let cachedSnapshot: SignalSnapshot | null = null;
+let pendingSnapshot: Promise<SignalSnapshot> | null = null;
+let recordedScore: number | undefined; // global score at the last history write; trend reference
+let lastRecorded = 0;
+let lastCompacted = 0;
+const listeners = new Set<SnapshotListener>();
+let backgroundTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Append to history; storage failures must never break the live feed
+ */
+async function recordSnapshot(snapshot: SignalSnapshot) {
+  try {
+    const store = getHistoryStore();
+    const previous = await getSnapshotAt(store, snapshot.generatedAt);
+    await store.append(toHistorySnapshot(snapshot, previous));
+
+    if (Date.now() - lastCompacted > COMPACT_INTERVAL) {
+      lastCompacted = Date.now();
+      await store.compact();
+      await getHealthTracker().compact();
+    }
+  } catch (error) {
+    console.error('History store error:', error);
+  }
+}
+
+async function commitSnapshot(snapshot: SignalSnapshot) {
+  recordedScore = snapshot.globalRisk.score;
+  lastRecorded = snapshot.generatedAt.getTime();
+
+  await recordSnapshot(snapshot);
+  // Webhook delivery runs in the background so it never delays the response
+  void processAlerts({ snapshot, history: getHistoryStore() });
+}
+
+// Fields whose change is worth pushing to clients
+function hasChanged(previous: Signal, next: Signal): boolean {
+  return previous.score !== next.score
+    || previous.status !== next.status
+    || previous.region !== next.region
+    || previous.confidence !== next.confidence
+    || previous.explanation !== next.explanation
+    || previous.baselineComparison !== next.baselineComparison
+    || previous.quality !== next.quality
+    || previous.circuit !== next.circuit
+    || regionsKey(previous) !== regionsKey(next);
+}
+
+function regionsKey(signal: Signal): string {
+  return Object.entries(signal.regions ?? {})
+    .map(([region, c]) => `${region}:${c.score}:${c.count}:${c.topItem ?? ''}`)
+    .join(',');
+}
+
+function circuitKey(snapshot: SignalSnapshot | null): string {
+  return (snapshot?.openCircuits ?? []).map(c => `${c.sourceId}:${c.state}`).join(',');
+}
+
+/**
+ * Diff two signal lists into an update; null when nothing changed
+ */
+function diffSnapshots(previous: SignalSnapshot | null, next: SignalSnapshot): SignalUpdate | null {
+  const before = new Map((previous?.signals ?? []).map(s => [s.id, s]));
+  const changed = next.signals.filter(s => !before.has(s.id) || hasChanged(before.get(s.id)!, s));
+  const nextIds = new Set(next.signals.map(s => s.id));
+  const removed = [...before.keys()].filter(id => !nextIds.has(id));
+
+  const riskChanged = previous?.globalRisk.score !== next.globalRisk.score
+    || previous?.globalRisk.trend !== next.globalRisk.trend;
+  const circuitsChanged = circuitKey(previous) !== circuitKey(next);
+  if (changed.length === 0 && removed.length === 0 && !riskChanged && !circuitsChanged) return null;
+
+  return {
+    signals: changed,
+    removed,
+    globalRisk: next.globalRisk,
+    generatedAt: next.generatedAt,
+    openCircuits: next.openCircuits,
+  };
+}
+
+function publish(previous: SignalSnapshot | null, next: SignalSnapshot) {
+  cachedSnapshot = next;
+
+  const update = diffSnapshots(previous, next);
+  if (!update) return;
+
+  for (const listener of listeners) {
+    try {
+      listener(update);
+    } catch (error) {
+      console.error('Snapshot listener error:', error);
+    }
+  }
+}
+
+/**
+ * Services shared by full refreshes and single-source live refreshes
+ */
+export function createRunContext(): SourceRunContext {
+  installFixtureTransport();
+  const archive = getRawArchive();
+  return {
+    baselines: createBaselineProvider(getHistoryStore()),
+    health: getHealthTracker(),
+    metrics: getSourceMetrics(),
+    ...(archive && { archive }),
+  };
+}
+
+async function buildSnapshot(): Promise<SignalSnapshot> {
+  const signals = await fetchAllSignals(createRunContext());
+
+  const snapshot: SignalSnapshot = {
+    signals,
+    globalRisk: calculateGlobalRisk(signals, recordedScore),
+    generatedAt: new Date(),
+    openCircuits: getOpenCircuits(),
+  };
+
+  await commitSnapshot(snapshot);
+  return snapshot;
+}
+
+/**
+ * Get the latest snapshot, refreshing it when older than the TTL.
+ * Concurrent callers share a single in-flight refresh.
+ */
+export async function getSignalSnapshot(): Promise<SignalSnapshot> {
+  if (cachedSnapshot && Date.now() - cachedSnapshot.generatedAt.getTime() < SNAPSHOT_TTL) {
+    return cachedSnapshot;
+  }
+
+  if (!pendingSnapshot) {
+    pendingSnapshot = buildSnapshot()
+      .then(snapshot => {
+        publish(cachedSnapshot, snapshot);
+        return snapshot;
+      })
+      .finally(() => {
+        pendingSnapshot = null;
+      });
+  }
+
+  return pendingSnapshot;
+}
+
+/**
+ * Merge one source's fresh result into the cached snapshot (null drops
+ * the signal) and notify subscribers when anything changed
+ */
+export async function applySourceResult(sourceId: string, signal: Signal | null) {
+  const previous = cachedSnapshot ?? await getSignalSnapshot();
+
+  const signals = previous.signals.filter(s => s.id !== sourceId);
+  if (signal) {
+    const index = previous.signals.findIndex(s => s.id === sourceId);
+    signals.splice(index === -1 ? signals.length : index, 0, signal);
+  }
+
+  const next: SignalSnapshot = {
+    signals,
+    globalRisk: calculateGlobalRisk(signals, recordedScore),
+    generatedAt: new Date(),
+    openCircuits: getOpenCircuits(),
+  };
+
+  publish(previous, next);
+
+  if (next.generatedAt.getTime() - lastRecorded >= SNAPSHOT_TTL) {
+    await commitSnapshot(next);
+  }
+}
+
+/**
+ * Rebuild the snapshot whenever it goes stale, whether or not anyone is
+ * watching, so history is written and alert rules run every cycle. Checks
+ * four times per TTL; a fresh snapshot from clients or the live scheduler
+ * makes a check a no-op. Started once per process (see instrumentation.ts).
+ */
+export function startBackgroundRefresh(intervalMs = SNAPSHOT_TTL / 4): () => void {
+  if (!backgroundTimer) {
+    backgroundTimer = setInterval(() => {
+      getSignalSnapshot().catch(error => console.error('Background refresh failed:', error));
+    }, intervalMs);
+    // Never keep a process (CLI, tests) alive on its own
+    backgroundTimer.unref();
+    void getSignalSnapshot().catch(error => console.error('Background refresh failed:', error));
+  }
+
+  return () => {
+    if (backgroundTimer) clearInterval(backgroundTimer);
+    backgroundTimer = null;
+  };
+}
+
+/**
+ * Receive an update whenever the snapshot changes. Returns an unsubscribe function.
+ */
+export function subscribeSnapshot(listener: SnapshotListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
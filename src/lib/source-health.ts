@@ -0,0 +1,198 @@
+/**
+ * Source health tracking
+ * Records the outcome of every source run. The last HEALTH_WINDOW runs per
+ * source are kept as state (health.json); failed runs are also appended to
+ * errors.jsonl so error history survives restarts and can be queried by time.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SourceRunRecord, SourceErrorRecord, SourceHealth, Serialized } from '@/types';
+import { SourceRunRecorder, getRegisteredSources, isSourceEnabled } from './sources';
+import { getCircuitBreaker } from './circuit-breaker';
+import { TimeRange } from './history';
+
+export const HEALTH_WINDOW = 20; // runs per source used for failure rate and latency
+export const ERROR_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const STATE_SAVE_DELAY = 5000;
+
+interface HealthState {
+  runs: Record<string, SourceRunRecord[]>;
+  lastSuccess: Record<string, Date>;
+  lastError: Record<string, SourceErrorRecord>;
+}
+
+function reviveRun(run: Serialized<SourceRunRecord>): SourceRunRecord {
+  return { ...run, timestamp: new Date(run.timestamp) };
+}
+
+function reviveError(error: Serialized<SourceErrorRecord>): SourceErrorRecord {
+  return { ...error, timestamp: new Date(error.timestamp) };
+}
+
+/**
+ * In-memory tracker, optionally persisted under a data directory
+ */
+export class SourceHealthTracker implements SourceRunRecorder {
+  private state: HealthState = { runs: {}, lastSuccess: {}, lastError: {} };
+  private errors: SourceErrorRecord[] = [];
+  private loaded: Promise<void>;
+  private queue: Promise<unknown> = Promise.resolve();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private stateFile: string | null;
+  private errorFile: string | null;
+
+  constructor(dir: string | null) {
+    this.stateFile = dir ? path.join(dir, 'health.json') : null;
+    this.errorFile = dir ? path.join(dir, 'errors.jsonl') : null;
+    this.loaded = this.load().catch(error => console.error('Health state load error:', error));
+  }
+
+  // Serialize file access so appends and rewrites never interleave
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(() => this.loaded).then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load() {
+    if (!this.stateFile || !this.errorFile) return;
+
+    try {
+      const saved: Serialized<HealthState> = JSON.parse(await fs.readFile(this.stateFile, 'utf8'));
+      this.state = {
+        runs: Object.fromEntries(Object.entries(saved.runs).map(([id, runs]) => [id, runs.map(reviveRun)])),
+        lastSuccess: Object.fromEntries(Object.entries(saved.lastSuccess).map(([id, date]) => [id, new Date(date)])),
+        lastError: Object.fromEntries(Object.entries(saved.lastError).map(([id, error]) => [id, reviveError(error)])),
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    try {
+      const content = await fs.readFile(this.errorFile, 'utf8');
+      this.errors = content
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => reviveError(JSON.parse(line)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  private scheduleSave() {
+    if (!this.stateFile || this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.enqueue(async () => {
+        await fs.mkdir(path.dirname(this.stateFile!), { recursive: true });
+        await fs.writeFile(this.stateFile!, JSON.stringify(this.state));
+      }).catch(error => console.error('Health state save error:', error));
+    }, STATE_SAVE_DELAY);
+  }
+
+  recordRun(run: SourceRunRecord) {
+    this.enqueue(async () => {
+      const runs = [...(this.state.runs[run.sourceId] || []), run].slice(-HEALTH_WINDOW);
+      this.state.runs[run.sourceId] = runs;
+
+      if (run.ok) {
+        this.state.lastSuccess[run.sourceId] = run.timestamp;
+      } else if (run.error) {
+        const record: SourceErrorRecord = {
+          sourceId: run.sourceId,
+          sourceName: getRegisteredSources().find(s => s.id === run.sourceId)?.sourceName ?? run.sourceId,
+          message: run.error.message,
+          errorType: run.error.errorType,
+          timestamp: run.timestamp,
+        };
+        this.state.lastError[run.sourceId] = record;
+        this.errors.push(record);
+
+        if (this.errorFile) {
+          await fs.mkdir(path.dirname(this.errorFile), { recursive: true });
+          await fs.appendFile(this.errorFile, JSON.stringify(record) + '\n');
+        }
+      }
+
+      this.scheduleSave();
+    }).catch(error => console.error('Health record error:', error));
+  }
+
+  /**
+   * Persisted errors in a time range, newest first
+   */
+  getErrors(range: TimeRange, sourceId?: string): Promise<SourceErrorRecord[]> {
+    return this.enqueue(async () =>
+      this.errors
+        .filter(e => e.timestamp >= range.from && e.timestamp <= range.to)
+        .filter(e => !sourceId || e.sourceId === sourceId)
+        .reverse()
+    );
+  }
+
+  /**
+   * Health summary for every registered source
+   */
+  getSourceHealth(): Promise<SourceHealth[]> {
+    return this.enqueue(async () =>
+      getRegisteredSources().map(source => {
+        const runs = this.state.runs[source.id] || [];
+        const latencies = runs.map(r => r.latencyMs).filter((l): l is number => l !== null);
+        const failures = runs.filter(r => !r.ok).length;
+
+        return {
+          sourceId: source.id,
+          sourceName: source.name,
+          category: source.category,
+          enabled: isSourceEnabled(source.id),
+          lastSuccess: this.state.lastSuccess[source.id] ?? null,
+          lastError: this.state.lastError[source.id] ?? null,
+          cycles: runs.length,
+          failureRate: runs.length > 0 ? failures / runs.length : null,
+          avgLatencyMs: latencies.length > 0
+            ? Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length)
+            : null,
+          inFallback: runs.length > 0 && runs[runs.length - 1].fallback,
+          circuit: getCircuitBreaker(source.id).getState(),
+        };
+      })
+    );
+  }
+
+  /**
+   * Drop persisted errors older than the retention period
+   */
+  compact(now: Date = new Date()) {
+    return this.enqueue(async () => {
+      const cutoff = now.getTime() - ERROR_RETENTION_MS;
+      const kept = this.errors.filter(e => e.timestamp.getTime() >= cutoff);
+      if (kept.length === this.errors.length) return;
+
+      this.errors = kept;
+      if (!this.errorFile) return;
+
+      const tmpFile = `${this.errorFile}.tmp`;
+      await fs.writeFile(tmpFile, kept.map(e => JSON.stringify(e)).join('\n') + (kept.length ? '\n' : ''));
+      await fs.rename(tmpFile, this.errorFile);
+    });
+  }
+}
+
+let healthTracker: SourceHealthTracker | null = null;
+
+/**
+ * Shared tracker; persisted next to the history store unless
+ * HISTORY_STORE=memory
+ */
+export function getHealthTracker(): SourceHealthTracker {
+  if (!healthTracker) {
+    healthTracker = new SourceHealthTracker(
+      process.env.HISTORY_STORE === 'memory'
+        ? null
+        : process.env.HISTORY_DIR || path.join(process.cwd(), '.data')
+    );
+  }
+  return healthTracker;
+}
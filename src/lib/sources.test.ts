@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildRegionalBreakdown, FallbackPolicy, runSource, SignalReading, SignalSource, toSignal } from './sources';
+import { filterSignalsByRegion } from './signals';
+import { getCircuitBreaker, resetCircuitBreakers } from './circuit-breaker';
+import { SourceFetchError } from './http';
+import { CIRCUIT_BREAKER, DATA_QUALITY } from './config';
+
+const REFRESH_MS = 60000;
+const CACHE_WINDOW_MS = REFRESH_MS * DATA_QUALITY.cacheIntervals;
+
+const LIVE: SignalReading = {
+  score: 40,
+  explanation: 'live reading',
+  baselineComparison: '',
+  confidence: 'high',
+};
+
+const FALLBACK: FallbackPolicy = {
+  mode: 'reading',
+  reading: () => ({
+    score: 25,
+    explanation: 'fallback reading',
+    baselineComparison: 'Fallback: API unavailable',
+    confidence: 'low',
+    sourceName: 'Test (Fallback)',
+  }),
+};
+
+let sourceCount = 0;
+
+/**
+ * A source whose fetch succeeds or throws as the test says; fresh ids keep
+ * the module's last-good cache from leaking between tests
+ */
+function testSource(fallback: FallbackPolicy = FALLBACK) {
+  const state = { fail: false as false | Error, fetches: 0 };
+  const source: SignalSource<SignalReading> = {
+    id: `test-source-${++sourceCount}`,
+    name: 'Test source',
+    category: 'markets',
+    defaultRegion: 'global',
+    refreshInterval: REFRESH_MS,
+    sourceName: 'Test',
+    sourceUrl: 'https://example.com',
+    async fetch() {
+      state.fetches++;
+      if (state.fail) throw state.fail;
+      return LIVE;
+    },
+    normalize: reading => reading,
+    fallback,
+  };
+  return { source, state };
+}
+
+describe('runSource', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: new Date('2026-10-19T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    resetCircuitBreakers();
+  });
+
+  it('returns live data from a successful fetch', async () => {
+    const { source } = testSource();
+    const signal = await runSource(source);
+
+    assert.equal(signal?.quality, 'live');
+    assert.equal(signal?.score, 40);
+  });
+
+  it('serves the last good reading as cached within the cache window', async () => {
+    const { source, state } = testSource();
+    await runSource(source);
+
+    state.fail = new SourceFetchError('down');
+    mock.timers.tick(CACHE_WINDOW_MS);
+    const signal = await runSource(source);
+
+    assert.equal(signal?.quality, 'cached');
+    assert.equal(signal?.explanation, 'live reading');
+  });
+
+  it('uses the fallback reading once the cached reading is too old', async () => {
+    const { source, state } = testSource();
+    await runSource(source);
+
+    state.fail = new SourceFetchError('down');
+    mock.timers.tick(CACHE_WINDOW_MS + 1);
+    const signal = await runSource(source);
+
+    assert.equal(signal?.quality, 'synthetic');
+    assert.equal(signal?.explanation, 'fallback reading');
+    assert.equal(signal?.sourceName, 'Test (Fallback)');
+    assert.equal(signal?.observedAt, null);
+  });
+
+  it('uses the fallback reading when there was never a good one', async () => {
+    const { source, state } = testSource();
+    state.fail = new SourceFetchError('down');
+
+    assert.equal((await runSource(source))?.explanation, 'fallback reading');
+  });
+
+  it('omits the signal under the omit policy', async () => {
+    const { source, state } = testSource({ mode: 'omit' });
+    state.fail = new SourceFetchError('down');
+
+    assert.equal(await runSource(source), null);
+  });
+
+  it('skips the fetch while the circuit is open and marks the signal', async () => {
+    const { source, state } = testSource();
+    state.fail = new SourceFetchError('down');
+    for (let i = 0; i < CIRCUIT_BREAKER.failureThreshold; i++) await runSource(source);
+
+    const fetches = state.fetches;
+    const signal = await runSource(source);
+
+    assert.equal(state.fetches, fetches);
+    assert.equal(signal?.circuit, 'open');
+    assert.equal(signal?.explanation, 'fallback reading');
+  });
+
+  it('opens the circuit at once on a long Retry-After', async () => {
+    const { source, state } = testSource();
+    state.fail = new SourceFetchError('rate limited', 'network', 429, CIRCUIT_BREAKER.openMs * 2);
+    await runSource(source);
+
+    assert.equal(getCircuitBreaker(source.id).getState(), 'open');
+  });
+
+  it('closes the circuit again after a successful half-open trial', async () => {
+    const { source, state } = testSource();
+    state.fail = new SourceFetchError('down');
+    for (let i = 0; i < CIRCUIT_BREAKER.failureThreshold; i++) await runSource(source);
+
+    state.fail = false;
+    mock.timers.tick(CIRCUIT_BREAKER.openMs);
+    const signal = await runSource(source);
+
+    assert.equal(signal?.quality, 'live');
+    assert.equal(signal?.circuit, undefined);
+    assert.equal(getCircuitBreaker(source.id).getState(), 'closed');
+  });
+});
+
+describe('buildRegionalBreakdown', () => {
+  const items = [{ region: 'europe' as const, points: 30 }, { region: 'europe' as const, points: 20 }, { region: null }];
+  const breakdown = buildRegionalBreakdown(
+    items,
+    item => item.region,
+    group => ({ score: 10 + group.reduce((sum, item) => sum + (item.points ?? 0), 0), explanation: `${group.length} items` })
+  );
+
+  it('scores only the regions with located items', () => {
+    assert.deepEqual(Object.keys(breakdown), ['europe']);
+    assert.equal(breakdown.europe?.score, 60);
+    assert.equal(breakdown.europe?.count, 2);
+  });
+
+  it('leaves the signal out of regions without a component', () => {
+    const signal = toSignal(testSource().source, { ...LIVE, regions: breakdown });
+
+    assert.equal(filterSignalsByRegion([signal], 'europe')[0]?.score, 60);
+    assert.deepEqual(filterSignalsByRegion([signal], 'asia-pacific'), []);
+  });
+});
+
+describe('runSource baselines', () => {
+  const metricSource = (reading: Partial<SignalReading>) => {
+    const { source } = testSource();
+    return { ...source, normalize: () => ({ ...LIVE, metric: { value: 15, label: 'level' }, ...reading }) };
+  };
+  const stored = (values: number[]) => ({ getMetricHistory: async () => values });
+
+  afterEach(() => resetCircuitBreakers());
+
+  it('compares the metric with stored history', async () => {
+    const signal = await runSource(metricSource({}), { baselines: stored([10, 12, 8, 11, 9]) });
+
+    assert.equal(signal?.baseline?.source, 'history');
+    assert.equal(signal?.baselineComparison, '+50.0% vs 30-day avg (z +3.2)');
+  });
+
+  it('prefers the upstream history', async () => {
+    const signal = await runSource(
+      metricSource({ history: { values: [5, 6, 4, 5, 5], windowDays: 20 } }),
+      { baselines: stored([10, 12, 8, 11, 9]) }
+    );
+
+    assert.equal(signal?.baseline?.source, 'upstream');
+    assert.equal(signal?.baseline?.windowDays, 20);
+  });
+
+  it('says the history is insufficient instead of keeping the source text', async () => {
+    const signal = await runSource(
+      metricSource({ baselineComparison: 'vs a made-up average', history: { values: [5], windowDays: 20 } }),
+      { baselines: stored([10, 12, NaN]) }
+    );
+
+    assert.equal(signal?.baseline, undefined);
+    assert.equal(signal?.baselineComparison, 'n/a — insufficient history (2 of 5 samples)');
+  });
+
+  it('re-scores from the z-score in anomaly mode', async () => {
+    const signal = await runSource(metricSource({}), { baselines: stored([10, 12, 8, 11, 9]), scoringMode: 'anomaly' });
+
+    assert.equal(signal?.scoringMode, 'anomaly');
+    assert.equal(signal?.score, 88); // 25 + 3.16 sigma * 20
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Signal source registry
+ * Every data source declares how it is fetched, scored and what happens
+ * when it fails. The aggregator only walks the enabled registry entries.
+ */
+
+import {
+  Signal,
+  SignalStatus,
+  SignalCategory,
+  ConfidenceLevel,
+  Region,
+  SignalMetric,
+  ScoringMode,
+  OpenCircuit,
+  SourceRunRecord,
+  DataQuality,
+  RegionalComponent,
+  RegionalBreakdown,
+  REGION_LABELS,
+  EvidenceItem,
+} from '@/types';
+import { clamp } from './utils';
+import { logSignalError, SignalFetchError } from './logger';
+import { SOURCE_SETTINGS, DATA_QUALITY } from './config';
+import { SourceFetchError } from './http';
+import { getCircuitBreaker } from './circuit-breaker';
+import {
+  BaselineProvider,
+  BASELINE_WINDOW_DAYS,
+  computeBaseline,
+  formatBaselineComparison,
+  formatMissingBaseline,
+  anomalyScore,
+} from './baselines';
+
+// Helper to determine status from score
+export function scoreToStatus(score: number): SignalStatus {
+  if (score < 35) return 'normal';
+  if (score < 65) return 'elevated';
+  return 'high';
+}
+
+/**
+ * Scored output of a source, before it becomes a Signal.
+ * Optional fields override the source defaults for this reading.
+ */
+export interface SignalReading {
+  score: number;
+  explanation: string;
+  baselineComparison: string;
+  confidence: ConfidenceLevel;
+  region?: Region;
+  status?: SignalStatus;
+  name?: string;
+  sourceName?: string;
+  sourceUrl?: string;
+  // Raw metric for baselining, plus past values when the upstream provides them
+  metric?: SignalMetric;
+  history?: { values: number[]; windowDays: number };
+  // When the upstream produced the data (defaults to now), and its quality
+  // (defaults to live, or synthetic for fallback readings)
+  observedAt?: Date;
+  quality?: DataQuality;
+  // Per-region components for sources covering many locations
+  regions?: RegionalBreakdown;
+  // Underlying items; ranked and capped at MAX_EVIDENCE_ITEMS by toSignal
+  evidence?: EvidenceItem[];
+}
+
+/**
+ * Receives the outcome of every source run (see source-health.ts, metrics.ts)
+ */
+export interface SourceRunRecorder {
+  recordRun(record: SourceRunRecord): void;
+}
+
+/**
+ * Receives every raw upstream response before it is scored (see raw-archive.ts)
+ */
+export interface RawResponseRecorder {
+  recordRaw(sourceId: string, fetchedAt: Date, raw: unknown): void;
+}
+
+/**
+ * Shared services available to a source run
+ */
+export interface SourceRunContext {
+  baselines?: BaselineProvider;
+  health?: SourceRunRecorder;
+  metrics?: SourceRunRecorder;
+  archive?: RawResponseRecorder;
+  scoringMode?: ScoringMode;
+}
+
+/**
+ * What to emit when fetch or normalize throws:
+ * - omit: drop the signal for this cycle
+ * - reading: emit a substitute reading (may inspect the error)
+ */
+export type FallbackPolicy =
+  | { mode: 'omit' }
+  | { mode: 'reading'; reading: (error: unknown) => SignalReading };
+
+export interface SignalSource<Raw = unknown> {
+  id: string;
+  name: string;
+  category: SignalCategory;
+  defaultRegion: Region;
+  refreshInterval: number; // ms
+  maxDataAge?: number; // ms before data counts as stale (default: DATA_QUALITY.staleIntervals refreshes)
+  sourceName: string;
+  sourceUrl: string;
+  fetch(): Promise<Raw>;
+  normalize(raw: Raw): SignalReading;
+  fallback: FallbackPolicy;
+}
+
+function classifyError(error: unknown): SignalFetchError['errorType'] {
+  if (error instanceof SourceFetchError) return error.errorType;
+  if (error instanceof SyntaxError) return 'parsing';
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) return 'timeout';
+  return 'network';
+}
+
+export const MAX_EVIDENCE_ITEMS = 25;
+
+/**
+ * Largest contributions first, then largest magnitude or probability
+ */
+export function rankEvidence(items: EvidenceItem[], limit = MAX_EVIDENCE_ITEMS): EvidenceItem[] {
+  const size = (item: EvidenceItem) => item.probability ?? Math.abs(item.magnitude?.value ?? 0);
+  return [...items]
+    .sort((a, b) => b.contribution - a.contribution || size(b) - size(a))
+    .slice(0, limit);
+}
+
+/**
+ * Build a Signal from a reading, filling in source defaults
+ */
+export function toSignal(source: SignalSource, reading: SignalReading): Signal {
+  const score = Math.round(clamp(reading.score, 0, 100));
+
+  return {
+    id: source.id,
+    name: reading.name ?? source.name,
+    region: reading.region ?? source.defaultRegion,
+    status: reading.status ?? scoreToStatus(score),
+    score,
+    explanation: reading.explanation,
+    baselineComparison: reading.baselineComparison,
+    confidence: reading.confidence,
+    sourceUrl: reading.sourceUrl ?? source.sourceUrl,
+    sourceName: reading.sourceName ?? source.sourceName,
+    lastUpdated: new Date(),
+    quality: reading.quality ?? 'live',
+    observedAt: reading.observedAt ?? new Date(),
+    category: source.category,
+    scoringMode: 'formula',
+    ...(reading.metric && { metric: reading.metric }),
+    ...(reading.regions && { regions: reading.regions }),
+    ...(reading.evidence && { evidence: rankEvidence(reading.evidence) }),
+  };
+}
+
+type LocatedRegion = Exclude<Region, 'global'>;
+
+const LOCATED_REGIONS = (Object.keys(REGION_LABELS) as Region[])
+  .filter((r): r is LocatedRegion => r !== 'global');
+
+/**
+ * Group located items by region and score each group with the source's
+ * own formula. Only regions with located items get a component, so a
+ * worldwide signal doesn't count toward regions where nothing happened;
+ * items outside all regions are ignored.
+ */
+export function buildRegionalBreakdown<T>(
+  items: T[],
+  regionOf: (item: T) => Region | null,
+  summarize: (items: T[], region: LocatedRegion) => Omit<RegionalComponent, 'count'>
+): RegionalBreakdown {
+  const groups = new Map<LocatedRegion, T[]>(LOCATED_REGIONS.map(r => [r, []]));
+  for (const item of items) {
+    const region = regionOf(item);
+    if (region && region !== 'global') groups.get(region)?.push(item);
+  }
+
+  const breakdown: RegionalBreakdown = {};
+  for (const [region, group] of groups) {
+    if (group.length === 0) continue;
+    const component = summarize(group, region);
+    breakdown[region] = { ...component, score: Math.round(clamp(component.score, 0, 100)), count: group.length };
+  }
+  return breakdown;
+}
+
+/**
+ * Region with the highest-scoring component, or global
+ */
+export function hottestRegion(breakdown: RegionalBreakdown): Region {
+  let hottest: Region = 'global';
+  let best: RegionalComponent | null = null;
+  for (const [region, component] of Object.entries(breakdown) as [LocatedRegion, RegionalComponent][]) {
+    if (!best || component.score > best.score || (component.score === best.score && component.count > best.count)) {
+      hottest = region;
+      best = component;
+    }
+  }
+  return hottest;
+}
+
+/**
+ * Per-source setting, then the run context (SCORING_MODE env by default)
+ */
+export function resolveScoringMode(source: SignalSource, context: SourceRunContext = {}): ScoringMode {
+  return SOURCE_SETTINGS[source.id]?.scoringMode
+    ?? context.scoringMode
+    ?? (process.env.SCORING_MODE === 'anomaly' ? 'anomaly' : 'formula');
+}
+
+/**
+ * Replace the reading's baseline text with a computed rolling baseline.
+ * Upstream history wins over stored history; without enough samples the
+ * text says so, with the number found. In anomaly mode the score is
+ * re-derived from the z-score; signals without a usable baseline stay
+ * formula-scored.
+ */
+async function applyBaseline(
+  source: SignalSource,
+  signal: Signal,
+  reading: SignalReading,
+  context: SourceRunContext
+): Promise<Signal> {
+  if (!reading.metric) return signal;
+
+  let baseline = null;
+  let samples = 0;
+  if (reading.history) {
+    baseline = computeBaseline(reading.metric.value, reading.history.values, 'upstream', reading.history.windowDays);
+    samples = reading.history.values.filter(Number.isFinite).length;
+  }
+
+  if (!baseline && context.baselines) {
+    try {
+      const since = new Date(Date.now() - BASELINE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+      const values = await context.baselines.getMetricHistory(signal.id, since);
+      baseline = computeBaseline(reading.metric.value, values, 'history');
+      samples = Math.max(samples, values.filter(Number.isFinite).length);
+    } catch (error) {
+      console.error(`Baseline lookup failed for ${signal.id}:`, error);
+    }
+  }
+
+  if (!baseline) return { ...signal, baselineComparison: formatMissingBaseline(samples) };
+
+  const scored: Signal = {
+    ...signal,
+    baseline,
+    baselineComparison: formatBaselineComparison(reading.metric, baseline),
+  };
+
+  if (resolveScoringMode(source, context) === 'anomaly' && baseline.zScore !== null) {
+    const score = Math.round(anomalyScore(baseline.zScore, reading.metric.riskDirection));
+    return { ...scored, score, status: scoreToStatus(score), scoringMode: 'anomaly' };
+  }
+
+  return scored;
+}
+
+// Last successful signal per source, reused as "cached" after failures
+const lastGoodSignals = new Map<string, Signal>();
+
+export function resetLastGoodSignals() {
+  lastGoodSignals.clear();
+}
+
+/**
+ * Downgrade live or cached data to stale once it is older than the source allows
+ */
+function applyFreshness(source: SignalSource, signal: Signal, now = Date.now()): Signal {
+  if (!signal.observedAt) return signal;
+  const maxAge = source.maxDataAge ?? getRefreshInterval(source) * DATA_QUALITY.staleIntervals;
+  return now - signal.observedAt.getTime() > maxAge ? { ...signal, quality: 'stale' } : signal;
+}
+
+/**
+ * Signal for a failed or skipped run: the last good reading while it is
+ * recent enough, otherwise the source's fallback policy
+ */
+function degradedSignal(source: SignalSource, error: unknown): Signal | null {
+  const circuit = getCircuitBreaker(source.id).getState();
+  const circuitField = circuit !== 'closed' ? { circuit } : {};
+
+  const cached = lastGoodSignals.get(source.id);
+  const cacheWindow = getRefreshInterval(source) * DATA_QUALITY.cacheIntervals;
+  if (cached && Date.now() - cached.lastUpdated.getTime() <= cacheWindow) {
+    return applyFreshness(source, { ...cached, quality: 'cached', ...circuitField });
+  }
+
+  if (source.fallback.mode === 'omit') return null;
+
+  const reading = source.fallback.reading(error);
+  return {
+    ...toSignal(source, reading),
+    quality: reading.quality ?? 'synthetic',
+    observedAt: reading.observedAt ?? null,
+    ...circuitField,
+  };
+}
+
+/**
+ * Fetch, score and apply the fallback policy for a single source.
+ * While the source's circuit is open it is not contacted at all.
+ */
+export async function runSource(source: SignalSource, context: SourceRunContext = {}): Promise<Signal | null> {
+  const record = (outcome: Omit<SourceRunRecord, 'sourceId' | 'timestamp'>) => {
+    const run = { sourceId: source.id, timestamp: new Date(), ...outcome };
+    context.health?.recordRun(run);
+    context.metrics?.recordRun(run);
+  };
+
+  const breaker = getCircuitBreaker(source.id);
+  if (!breaker.canRequest()) {
+    record({ ok: false, latencyMs: null, fallback: true });
+    return degradedSignal(source, new SourceFetchError(`Circuit open for ${source.name}`));
+  }
+
+  let reading: SignalReading;
+  const started = Date.now();
+
+  try {
+    const raw = await source.fetch();
+    context.archive?.recordRaw(source.id, new Date(), raw);
+    reading = source.normalize(raw);
+    breaker.recordSuccess();
+    record({ ok: true, latencyMs: Date.now() - started, fallback: false });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const errorType = classifyError(error);
+
+    breaker.recordFailure(Date.now(), error instanceof SourceFetchError ? error.retryAfterMs : undefined);
+    logSignalError({
+      signalId: source.id,
+      sourceName: source.sourceName,
+      error: message,
+      timestamp: new Date(),
+      errorType,
+    });
+    record({ ok: false, latencyMs: Date.now() - started, fallback: true, error: { message, errorType } });
+
+    return degradedSignal(source, error);
+  }
+
+  const signal = applyFreshness(source, await applyBaseline(source, toSignal(source, reading), reading, context));
+  lastGoodSignals.set(source.id, signal);
+  return signal;
+}
+
+// ============================================
+// Registry
+// ============================================
+const registry = new Map<string, SignalSource>();
+
+/**
+ * Register a source (re-registering an id replaces it)
+ */
+export function registerSource(source: SignalSource) {
+  registry.set(source.id, source);
+}
+
+export function unregisterSource(id: string) {
+  registry.delete(id);
+}
+
+export function getRegisteredSources(): SignalSource[] {
+  return [...registry.values()];
+}
+
+export function getSource(id: string): SignalSource | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Sources can be switched off in SOURCE_SETTINGS or with the
+ * DISABLED_SOURCES env var (comma-separated source ids)
+ */
+export function isSourceEnabled(id: string): boolean {
+  const disabled = (process.env.DISABLED_SOURCES || '')
+    .split(',')
+    .map(s => s.trim())
+    .filter(Boolean);
+
+  if (disabled.includes(id)) return false;
+  return SOURCE_SETTINGS[id]?.enabled !== false;
+}
+
+export function getEnabledSources(): SignalSource[] {
+  return getRegisteredSources().filter(s => isSourceEnabled(s.id));
+}
+
+/**
+ * Registered sources whose circuit breaker is open or half-open
+ */
+export function getOpenCircuits(): OpenCircuit[] {
+  return getRegisteredSources().flatMap(source => {
+    const breaker = getCircuitBreaker(source.id);
+    const state = breaker.getState();
+    if (state === 'closed') return [];
+    return [{
+      sourceId: source.id,
+      sourceName: source.name,
+      state,
+      failures: breaker.getFailures(),
+      retryAt: breaker.getRetryAt() ?? new Date(),
+    }];
+  });
+}
+
+export function getRefreshInterval(source: SignalSource): number {
+  return SOURCE_SETTINGS[source.id]?.refreshInterval ?? source.refreshInterval;
+}
@@ -1,4 +1,4 @@
-import { SignalStatus, ConfidenceLevel, TrendDirection } from '@/types';
+import { Signal, SignalStatus, ConfidenceLevel, TrendDirection, Region, REGION_LABELS, DataQuality } from '@/types';
 
 export function formatRelativeTime(date: Date): string {
   const now = new Date();
@@ -13,6 +13,17 @@ export function formatRelativeTime(date: Date): string {
   return date.toLocaleDateString();
 }
 
+// Absolute time to the minute, e.g. "Tue, Oct 14, 02:00"
+export function formatDateTime(date: Date): string {
+  return date.toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
 export function getStatusColor(status: SignalStatus): string {
   switch (status) {
     case 'normal': return 'text-emerald-400';
@@ -67,3 +78,51 @@ export function clamp(value: number, min: number, max: number): number {
 export function normalizeToScale(value: number, min: number, max: number): number {
   return clamp(((value - min) / (max - min)) * 100, 0, 100);
 }
+
+export function isRegion(value: string): value is Region {
+  return Object.prototype.hasOwnProperty.call(REGION_LABELS, value);
+}
+
+// Severity order: normal < elevated < high
+export const STATUS_RANK: Record<SignalStatus, number> = { normal: 0, elevated: 1, high: 2 };
+
+export function isStatus(value: string): value is SignalStatus {
+  return Object.prototype.hasOwnProperty.call(STATUS_RANK, value);
+}
+
+/**
+ * Synthetic signals (fallback placeholders) carry no upstream data
+ */
+export function isDegraded(signal: Signal): boolean {
+  return signal.quality === 'synthetic';
+}
+
+/**
+ * Top drivers by deviation from baseline (furthest from 50). Synthetic
+ * readings are not real data and never drive; stale data counts half.
+ */
+export function getTopDrivers(signals: Signal[], count = 3): (Signal & { deviation: number })[] {
+  return signals
+    .filter(s => !isDegraded(s))
+    .map(s => ({ ...s, deviation: Math.abs(s.score - 50) * (s.quality === 'stale' ? 0.5 : 1) }))
+    .sort((a, b) => b.deviation - a.deviation)
+    .slice(0, count);
+}
+
+export function getQualityColor(quality: DataQuality): string {
+  switch (quality) {
+    case 'live': return 'text-emerald-500/80';
+    case 'cached': return 'text-sky-400/80';
+    case 'stale': return 'text-amber-400/80';
+    case 'synthetic': return 'text-zinc-500';
+  }
+}
+
+// Age of the underlying data, e.g. "12m" / "3h" / "2d"; null when unknown
+export function formatDataAge(signal: Signal, now: Date = new Date()): string | null {
+  if (!signal.observedAt) return null;
+  const minutes = Math.max(0, Math.floor((now.getTime() - signal.observedAt.getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / (24 * 60))}d`;
+}
@@ -0,0 +1,95 @@
+/**
+ * Global risk weighting
+ * Turns a set of signals into one score under a WeightingModel.
+ */
+
+import { Signal, SignalCategory, WeightingModel } from '@/types';
+import { WEIGHTING_PRESETS, DEFAULT_WEIGHTING_PRESET } from './config';
+
+/**
+ * Look up a preset by id; falls back to RISK_PRESET, then the default
+ */
+export function getWeightingModel(id?: string): WeightingModel {
+  const presetId = id || process.env.RISK_PRESET || DEFAULT_WEIGHTING_PRESET;
+  const model = WEIGHTING_PRESETS[presetId];
+
+  if (!model) {
+    console.warn(`Unknown weighting preset "${presetId}", using ${DEFAULT_WEIGHTING_PRESET}`);
+    return WEIGHTING_PRESETS[DEFAULT_WEIGHTING_PRESET];
+  }
+  return model;
+}
+
+// Weight before data quality is taken into account
+function baseWeight(signal: Signal, model: WeightingModel): number {
+  return model.confidenceWeights[signal.confidence]
+    * (model.categoryWeights[signal.category] ?? 1)
+    * (model.signalWeights[signal.id] ?? 1);
+}
+
+export function signalWeight(signal: Signal, model: WeightingModel): number {
+  return baseWeight(signal, model) * (model.qualityWeights[signal.quality] ?? 1);
+}
+
+/**
+ * Share (0-1) of the model's base weight carried by live signals
+ */
+export function liveCoverage(signals: Signal[], model: WeightingModel): number {
+  const total = signals.reduce((sum, s) => sum + baseWeight(s, model), 0);
+  if (total <= 0) return 0;
+  const live = signals.filter(s => s.quality === 'live').reduce((sum, s) => sum + baseWeight(s, model), 0);
+  return live / total;
+}
+
+type Weighted = { score: number; weight: number }[];
+
+function weightedMean(entries: Weighted): number | null {
+  const totalWeight = entries.reduce((sum, e) => sum + e.weight, 0);
+  if (totalWeight <= 0) return null;
+  return entries.reduce((sum, e) => sum + e.score * e.weight, 0) / totalWeight;
+}
+
+// Generalized mean; higher powers let a few extreme scores pull the total up
+function powerMean(entries: Weighted, power: number): number | null {
+  const mean = weightedMean(entries.map(e => ({ score: e.score ** power, weight: e.weight })));
+  return mean === null ? null : mean ** (1 / power);
+}
+
+// Weighted mean per category, then the worst category wins
+function maxOfCategories(entries: (Weighted[number] & { category: SignalCategory })[]): number | null {
+  const byCategory = new Map<SignalCategory, Weighted>();
+  for (const entry of entries) {
+    byCategory.set(entry.category, [...(byCategory.get(entry.category) || []), entry]);
+  }
+
+  const means = [...byCategory.values()]
+    .map(weightedMean)
+    .filter((mean): mean is number => mean !== null);
+
+  return means.length > 0 ? Math.max(...means) : null;
+}
+
+/**
+ * Aggregate signal scores (0-100). Returns 0 when every weight is zero.
+ */
+export function aggregateScores(signals: Signal[], model: WeightingModel): number {
+  const entries = signals.map(signal => ({
+    score: signal.score,
+    weight: signalWeight(signal, model),
+    category: signal.category,
+  }));
+
+  let score: number | null;
+  switch (model.method) {
+    case 'power-mean':
+      score = powerMean(entries, model.power ?? 2);
+      break;
+    case 'max-of-categories':
+      score = maxOfCategories(entries);
+      break;
+    default:
+      score = weightedMean(entries);
+  }
+
+  return Math.round(score ?? 0);
+}
@@ -21,6 +21,127 @@ export const REGION_LABELS: Record<Region, string> = {
   'south-america': 'South America',
 };
 
+export type SignalCategory =
+  | 'attention'
+  | 'markets'
+  | 'natural'
+  | 'geopolitics'
+  | 'infrastructure'
+  | 'prediction'
+  | 'osint';
+
+export const CATEGORY_LABELS: Record<SignalCategory, string> = {
+  'attention': 'Public Attention',
+  'markets': 'Markets',
+  'natural': 'Natural Hazards',
+  'geopolitics': 'Geopolitics',
+  'infrastructure': 'Infrastructure',
+  'prediction': 'Prediction Markets',
+  'osint': 'OSINT',
+};
+
+// Raw measured quantity behind a score (e.g. VIX level, quake count)
+export interface SignalMetric {
+  value: number;
+  label: string;
+  unit?: string;
+  riskDirection?: 'up' | 'down'; // which way is riskier (default up)
+}
+
+export type FetchErrorType = 'network' | 'parsing' | 'validation' | 'timeout' | 'unknown';
+
+// Outcome of one source run, as recorded by the health tracker
+export interface SourceRunRecord {
+  sourceId: string;
+  timestamp: Date;
+  ok: boolean;
+  latencyMs: number | null; // null when the circuit breaker skipped the request
+  fallback: boolean; // a substitute signal (or none) was emitted
+  error?: { message: string; errorType: FetchErrorType };
+}
+
+export interface SourceErrorRecord {
+  sourceId: string;
+  sourceName: string;
+  message: string;
+  errorType: FetchErrorType;
+  timestamp: Date;
+}
+
+export interface SourceHealth {
+  sourceId: string;
+  sourceName: string;
+  category: SignalCategory;
+  enabled: boolean;
+  lastSuccess: Date | null;
+  lastError: SourceErrorRecord | null;
+  cycles: number; // runs in the health window
+  failureRate: number | null; // 0-1 over the window, null before the first run
+  avgLatencyMs: number | null;
+  inFallback: boolean;
+  circuit: CircuitState;
+}
+
+// closed: requests flow; open: source skipped; half-open: one trial request
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface OpenCircuit {
+  sourceId: string;
+  sourceName: string;
+  state: CircuitState;
+  failures: number;
+  retryAt: Date;
+}
+
+/**
+ * Where a signal's data came from:
+ * - live: fetched this cycle and fresh
+ * - cached: last good reading reused after a failed fetch
+ * - stale: real data older than the source's freshness window
+ * - synthetic: placeholder score with no upstream data behind it
+ */
+export type DataQuality = 'live' | 'cached' | 'stale' | 'synthetic';
+
+// formula: source-specific linear formula; anomaly: z-score vs own history
+export type ScoringMode = 'formula' | 'anomaly';
+
+export type BaselineSource = 'history' | 'upstream';
+
+// Rolling statistics of a signal's metric and where the current value sits
+export interface SignalBaseline {
+  mean: number;
+  median: number;
+  stdDev: number;
+  sampleSize: number;
+  windowDays: number;
+  deviationPct: number | null; // null when the mean is ~0
+  zScore: number | null; // null when there is no variance
+  source: BaselineSource;
+}
+
+// One region's share of a multi-location signal, scored with the source's own formula
+export interface RegionalComponent {
+  score: number; // 0-100
+  count: number; // items located in the region
+  topItem?: string; // most significant item, e.g. the largest quake
+  explanation: string;
+}
+
+export type RegionalBreakdown = Partial<Record<Exclude<Region, 'global'>, RegionalComponent>>;
+
+// One underlying item behind a signal: a quake, event, article, market, flight…
+export interface EvidenceItem {
+  title: string;
+  url?: string;
+  timestamp: Date | null;
+  region?: Region;
+  countries?: string[]; // ISO-2 codes the item is attributed to
+  coordinates?: { lat: number; lng: number };
+  magnitude?: { value: number; label: string }; // e.g. quake magnitude, article tone
+  probability?: number; // 0-1, market outcomes
+  contribution: number; // points this item adds to the signal's formula score
+}
+
 export interface Signal {
   id: string;
   name: string;
@@ -33,6 +154,47 @@ export interface Signal {
   sourceUrl: string;
   sourceName: string;
   lastUpdated: Date;
+  category: SignalCategory;
+  scoringMode: ScoringMode;
+  quality: DataQuality;
+  observedAt: Date | null; // when the upstream data was produced; null for synthetic readings
+  circuit?: CircuitState; // set while the source's circuit breaker is not closed
+  metric?: SignalMetric;
+  baseline?: SignalBaseline;
+  regions?: RegionalBreakdown; // per-region components for sources spanning many locations
+  evidence?: EvidenceItem[]; // most significant items first
+}
+
+// Points a signal's evidence contributes to one country
+export interface CountryContribution {
+  signalId: string;
+  signalName: string;
+  points: number;
+  items: number;
+}
+
+// Per-country index: the score points of all evidence attributed to the country
+export interface CountryRisk {
+  code: string; // ISO-2
+  name: string;
+  region: Region;
+  score: number; // 0-100
+  status: SignalStatus;
+  contributions: CountryContribution[]; // largest first
+}
+
+export type AggregationMethod = 'weighted-mean' | 'power-mean' | 'max-of-categories';
+
+// How calculateGlobalRisk weighs and combines signals into one score
+export interface WeightingModel {
+  id: string;
+  label: string;
+  method: AggregationMethod;
+  power?: number; // power-mean exponent; > 1 leans toward the highest scores
+  confidenceWeights: Record<ConfidenceLevel, number>;
+  categoryWeights: Partial<Record<SignalCategory, number>>; // default 1
+  signalWeights: Record<string, number>; // by signal id, default 1
+  qualityWeights: Record<DataQuality, number>; // multiplier by data quality (0 drops the signal)
 }
 
 export interface GlobalRisk {
@@ -40,6 +202,35 @@ export interface GlobalRisk {
   trend: TrendDirection;
   lastUpdated: Date;
   signalCount: number;
+  weighting?: Pick<WeightingModel, 'id' | 'label' | 'method'>;
+  liveCoverage?: number; // 0-1 share of the index's base weight backed by live data
+}
+
+// Conditions an alert rule can watch
+export type AlertCondition =
+  | { type: 'global-threshold'; above: number }
+  | { type: 'signal-status'; signalId: string; status: SignalStatus }
+  | { type: 'regional-rise'; region: Region; points: number; withinMs: number }
+  | { type: 'region-cluster'; region: Region; minSignals: number; minStatus: SignalStatus };
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  condition: AlertCondition;
+  cooldownMs: number; // minimum time between two alerts with the same dedup key
+  webhookUrl?: string; // overrides ALERT_WEBHOOK_URL
+  enabled?: boolean;
+}
+
+export interface AlertEvent {
+  ruleId: string;
+  ruleName: string;
+  dedupKey: string;
+  message: string;
+  firedAt: Date;
+  condition: AlertCondition;
+  globalRisk: GlobalRisk;
+  signals: Signal[]; // signals that triggered the rule
 }
 
 export interface DashboardState {
@@ -50,3 +241,91 @@ export interface DashboardState {
   error: string | null;
   lastFetched: Date | null;
 }
+
+export interface SignalSnapshot {
+  signals: Signal[];
+  globalRisk: GlobalRisk;
+  generatedAt: Date;
+  openCircuits: OpenCircuit[];
+}
+
+// Incremental change pushed over the live stream
+export interface SignalUpdate {
+  signals: Signal[]; // added or changed signals
+  removed: string[]; // ids of signals no longer reported
+  globalRisk: GlobalRisk;
+  generatedAt: Date;
+  openCircuits: OpenCircuit[]; // always the full current list
+}
+
+// stream: live SSE updates; polling: periodic /api/signals fetches;
+// replay: stored history, not live
+export type ConnectionMode = 'connecting' | 'stream' | 'polling' | 'replay';
+
+// JSON wire format of a type: Dates travel as ISO strings
+export type Serialized<T> = T extends Date
+  ? string
+  : T extends (infer U)[]
+  ? Serialized<U>[]
+  : T extends object
+  ? { [K in keyof T]: Serialized<T[K]> }
+  : T;
+
+export type HistoryResolution = 'raw' | 'hourly';
+
+export interface HistorySnapshot {
+  timestamp: Date;
+  resolution: HistoryResolution;
+  sampleCount: number; // polls merged into this snapshot
+  globalRisk: GlobalRisk;
+  regionalScores: Record<Region, number>;
+  countryScores?: Record<string, number>; // ISO-2 → score, countries with evidence only
+  signals: Signal[];
+  // Feed entries against the previous poll per region view, recorded when
+  // the poll is written so compaction can't merge them away
+  changes?: Partial<Record<Region, FeedEntry[]>>;
+}
+
+export interface HistoryPoint {
+  timestamp: Date;
+  score: number;
+  resolution: HistoryResolution;
+}
+
+export interface SignalHistoryPoint extends HistoryPoint {
+  status: SignalStatus;
+}
+
+// A signal changing status between two consecutive history snapshots
+export interface StatusTransition {
+  timestamp: Date;
+  signalId: string;
+  signalName: string;
+  region: Region;
+  from: SignalStatus;
+  to: SignalStatus;
+  score: number;
+}
+
+// A feed entry: a signal changing status, or a risk level label change
+export interface FeedEntry {
+  id: string;
+  kind: 'signal' | 'risk-level';
+  timestamp: Date;
+  title: string;
+  summary: string;
+  region: Region;
+  severity: SignalStatus; // the more severe side of the change
+  scoreBefore: number;
+  scoreAfter: number;
+  link: string | null; // the signal's source; null for risk level entries
+}
+
+// Everything the replay scrubber needs for a time range: one frame per
+// stored snapshot (global score) and the transitions to jump between
+export interface ReplayTimeline {
+  from: Date;
+  to: Date;
+  frames: HistoryPoint[];
+  events: StatusTransition[];
+}